@@ -0,0 +1,29 @@
+// Handles clicks on message notifications: focuses an open tab and tells it
+// which conversation to show, or opens a new tab on that conversation.
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { chatId, isGroup } = event.notification.data || {};
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find(window => new URL(window.url).pathname === '/');
+
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'open-chat', chatId, isGroup });
+      return;
+    }
+
+    const url = new URL('/', self.location.origin);
+    if (chatId) url.searchParams.set('chat', chatId);
+    if (isGroup) url.searchParams.set('group', '1');
+    await self.clients.openWindow(url.href);
+  })());
+});
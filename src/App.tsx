@@ -6,6 +6,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { AdminProvider } from "@/contexts/AdminContext";
+import { OutboxProvider } from "@/contexts/OutboxContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import { AuthForm } from "@/components/auth/AuthForm";
 import { ChatLayout } from "@/components/chat/ChatLayout";
@@ -36,18 +37,20 @@ const App = () => (
     <ThemeProvider>
       <AuthProvider>
         <AdminProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<AppContent />} />
-                <Route path="/admin" element={<AdminPanel />} />
-                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
+          <OutboxProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<AppContent />} />
+                  <Route path="/admin" element={<AdminPanel />} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </OutboxProvider>
         </AdminProvider>
       </AuthProvider>
     </ThemeProvider>
@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { useAdmin } from '@/contexts/AdminContext';
-import { ref, onValue, off } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { useAdmin, type UserAnalytics } from '@/contexts/AdminContext';
+import { subscribeToUsers, type UserProfile } from '@/lib/chat';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -23,42 +22,21 @@ const ACHIEVEMENTS = [
   { id: 'reply_machine', label: 'Reply Machine', icon: '⚡', color: 'bg-pink-500' },
 ];
 
-interface User {
-  uid: string;
-  email: string;
-  displayName: string;
-  photoURL?: string;
-  isOnline: boolean;
-  isVerified?: boolean;
-  achievements?: Record<string, any>;
-  messageCount?: number;
-}
+type User = UserProfile & { messageCount?: number };
 
 export const AdminAchievements: React.FC = () => {
   const { giveAchievementToUser, getUserAnalytics } = useAdmin();
   const { toast } = useToast();
   const [users, setUsers] = useState<User[]>([]);
-  const [analytics, setAnalytics] = useState<any>(null);
+  const [analytics, setAnalytics] = useState<UserAnalytics | null>(null);
   const [selectedUserId, setSelectedUserId] = useState('');
   const [selectedAchievement, setSelectedAchievement] = useState('');
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
-    const usersRef = ref(database, 'users');
-    
-    const handleUsersChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const usersList = Object.values(data) as User[];
-        setUsers(usersList);
-      }
-    };
+    const unsubscribe = subscribeToUsers(setUsers);
 
-    onValue(usersRef, handleUsersChange);
-
-    return () => {
-      off(usersRef, 'value', handleUsersChange);
-    };
+    return unsubscribe;
   }, []);
 
   useEffect(() => {
@@ -238,7 +216,7 @@ export const AdminAchievements: React.FC = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-3 max-h-96 overflow-y-auto">
-            {analytics?.mostActiveUsers?.map((user: any, index: number) => (
+            {analytics?.mostActiveUsers?.map((user, index) => (
               <div key={user.uid} className="flex items-center justify-between p-3 border rounded-lg">
                 <div className="flex items-center gap-3">
                   <Badge variant="outline" className="text-xs">
@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import {
+  subscribeToEditedMessages,
+  getMessage,
+  getMessageVersions,
+  decodeMentions,
+  type EditedMessageEntry,
+  type Message
+} from '@/lib/chat';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { History, Pencil } from 'lucide-react';
+
+const ENTRY_LIMIT = 100;
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const AdminEditHistory: React.FC = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<EditedMessageEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToEditedMessages(ENTRY_LIMIT, (entriesList) => {
+      setEntries(entriesList);
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  const handleViewHistory = async (entry: EditedMessageEntry) => {
+    try {
+      const message = await getMessage({ id: entry.chatId, isGroup: entry.isGroup }, entry.messageId);
+      if (!message) {
+        toast({
+          title: "Message not found",
+          description: "The message may have been removed with its conversation",
+          variant: "destructive"
+        });
+        return;
+      }
+      setSelectedMessage(message);
+    } catch (error) {
+      console.error('Error loading edit history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load edit history",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Loading edited messages...</CardTitle>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const versions = selectedMessage ? getMessageVersions(selectedMessage) : [];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Pencil className="h-5 w-5" />
+            Edited Messages
+            {entries.length > 0 && (
+              <Badge variant="secondary">{entries.length}</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            The most recently edited messages across all chats and groups
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              No messages have been edited
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => (
+                <div key={entry.messageId} className="flex items-center justify-between border rounded-lg p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium truncate">{entry.senderName}</h4>
+                      <Badge variant="outline">{entry.isGroup ? 'Group' : 'Direct'}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Last edited {formatDate(entry.editedAt)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleViewHistory(entry)}
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    History
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedMessage} onOpenChange={() => setSelectedMessage(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit history</DialogTitle>
+          </DialogHeader>
+          {selectedMessage && (
+            <ScrollArea className="max-h-96">
+              <div className="space-y-3">
+                {versions.map((version, index) => (
+                  <div key={index} className="border rounded-lg p-3">
+                    <p className="text-xs text-muted-foreground mb-1">
+                      {index === 0 ? 'Original' : `Version ${index + 1}`} · replaced {formatDate(version.replacedAt)}
+                    </p>
+                    <p className="text-sm break-words">{decodeMentions(version.text, version.mentions)}</p>
+                  </div>
+                ))}
+                <div className="border border-primary/40 rounded-lg p-3">
+                  <p className="text-xs text-muted-foreground mb-1">
+                    Current{selectedMessage.deletedForEveryone ? ' (deleted)' : ''} · edited {formatDate(selectedMessage.editedAt)}
+                  </p>
+                  <p className="text-sm break-words">{decodeMentions(selectedMessage.text, selectedMessage.mentions)}</p>
+                </div>
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { useAdmin } from '@/contexts/AdminContext';
+import { useAdmin, type UserAnalytics } from '@/contexts/AdminContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { AdminRequestPanel } from './AdminRequestPanel';
 import { AdminAchievements } from './AdminAchievements';
+import { AdminEditHistory } from './AdminEditHistory';
 import { GroupMemberManager } from './GroupMemberManager';
-import { ref, onValue, off } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import {
+  subscribeToUsers,
+  subscribeToGroups,
+  type Group,
+  type ReactionSettings,
+  type UserProfile as User
+} from '@/lib/chat';
+import { splitEmoji } from '@/lib/emoji';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -17,35 +24,11 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
-import { Shield, Users, Settings, Trash2, Ban, CheckCircle, UserCheck, Activity, Clock, MessageSquare, Crown } from 'lucide-react';
+import { Shield, Users, Settings, Trash2, Ban, CheckCircle, UserCheck, Activity, Clock, MessageSquare, Crown, Pencil, Paperclip, SmilePlus, Database } from 'lucide-react';
 import { UserProfile } from '@/components/chat/UserProfile';
 
-interface User {
-  uid: string;
-  email: string;
-  displayName: string;
-  photoURL?: string;
-  isOnline: boolean;
-  isVerified?: boolean;
-  isDisabled?: boolean;
-  disabledUntil?: number;
-  totalSessions?: number;
-  lastActive?: number;
-  joinedAt?: number;
-  achievements?: Record<string, any>;
-}
-
-interface Group {
-  id: string;
-  name: string;
-  description?: string;
-  createdBy: string;
-  createdAt: number;
-  members: Record<string, any>;
-  isDeleted?: boolean;
-  isDisabled?: boolean;
-  disabledUntil?: number;
-}
+// More than this doesn't fit in a message's menu
+const MAX_QUICK_REACTIONS = 8;
 
 export const AdminPanel: React.FC = () => {
   const { 
@@ -60,57 +43,46 @@ export const AdminPanel: React.FC = () => {
     disableGroup,
     deleteChat,
     updateGroupMemberLimit,
+    updateMessageEditWindow,
+    updateAttachmentLimits,
+    updateReactionSettings,
     getUserAnalytics,
     deleteMessageForEveryone,
     addMemberToGroup,
-    removeMemberFromGroup
+    removeMemberFromGroup,
+    backfillIndexes
   } = useAdmin();
   const { user } = useAuth();
   const { toast } = useToast();
   const [users, setUsers] = useState<User[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
-  const [analytics, setAnalytics] = useState<any>(null);
+  const [analytics, setAnalytics] = useState<UserAnalytics | null>(null);
   const [selectedUserId, setSelectedUserId] = useState('');
   const [selectedGroupId, setSelectedGroupId] = useState('');
   const [disableDuration, setDisableDuration] = useState('1');
   const [newMemberLimit, setNewMemberLimit] = useState(adminSettings.groupMemberLimit.toString());
+  const [newEditWindow, setNewEditWindow] = useState(adminSettings.messageEditWindowMinutes.toString());
+  const [newImageSizeLimit, setNewImageSizeLimit] = useState(adminSettings.attachmentLimits.maxImageSizeMB.toString());
+  const [newFileSizeLimit, setNewFileSizeLimit] = useState(adminSettings.attachmentLimits.maxFileSizeMB.toString());
+  const [newAllowedTypes, setNewAllowedTypes] = useState(adminSettings.attachmentLimits.allowedTypes.join(', '));
+  const [newQuickReactions, setNewQuickReactions] = useState(adminSettings.reactions.quickReactions.join(' '));
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     if (!isAdmin) return;
 
-    const usersRef = ref(database, 'users');
-    const groupsRef = ref(database, 'groups');
-    
-    const handleUsersChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const usersList = Object.entries(data).map(([uid, userData]: [string, any]) => ({
-          uid,
-          ...userData
-        })) as User[];
-        setUsers(usersList.filter(u => u.uid !== user?.uid));
-      }
-    };
-
-    const handleGroupsChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const groupsList = Object.entries(data).map(([id, groupData]: [string, any]) => ({
-          id,
-          ...groupData,
-          members: groupData.members || {} // Ensure members is always defined
-        })) as Group[];
-        setGroups(groupsList.filter(g => !g.isDeleted));
-      }
-    };
+    const unsubscribeUsers = subscribeToUsers((usersList) => {
+      setUsers(usersList.filter(u => u.uid !== user?.uid));
+    });
 
-    onValue(usersRef, handleUsersChange);
-    onValue(groupsRef, handleGroupsChange);
+    // Groups always come back with a members map
+    const unsubscribeGroups = subscribeToGroups((groupsList) => {
+      setGroups(groupsList.filter(g => !g.isDeleted));
+    });
 
     return () => {
-      off(usersRef, 'value', handleUsersChange);
-      off(groupsRef, 'value', handleGroupsChange);
+      unsubscribeUsers();
+      unsubscribeGroups();
     };
   }, [isAdmin, user]);
 
@@ -136,6 +108,20 @@ export const AdminPanel: React.FC = () => {
     setNewMemberLimit(adminSettings.groupMemberLimit.toString());
   }, [adminSettings.groupMemberLimit]);
 
+  useEffect(() => {
+    setNewEditWindow(adminSettings.messageEditWindowMinutes.toString());
+  }, [adminSettings.messageEditWindowMinutes]);
+
+  useEffect(() => {
+    setNewImageSizeLimit(adminSettings.attachmentLimits.maxImageSizeMB.toString());
+    setNewFileSizeLimit(adminSettings.attachmentLimits.maxFileSizeMB.toString());
+    setNewAllowedTypes(adminSettings.attachmentLimits.allowedTypes.join(', '));
+  }, [adminSettings.attachmentLimits]);
+
+  useEffect(() => {
+    setNewQuickReactions(adminSettings.reactions.quickReactions.join(' '));
+  }, [adminSettings.reactions.quickReactions]);
+
   if (!isAdmin) {
     return (
       <div className="flex items-center justify-center min-h-screen p-4">
@@ -293,6 +279,120 @@ export const AdminPanel: React.FC = () => {
     }
   };
 
+  const handleUpdateEditWindow = async () => {
+    const minutes = parseInt(newEditWindow);
+    if (isNaN(minutes) || minutes < 0 || minutes > 1440) {
+      toast({
+        title: "Error",
+        description: "Edit window must be between 0 and 1440 minutes",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await updateMessageEditWindow(minutes);
+      toast({
+        title: "Success",
+        description: minutes === 0 ? "Message editing disabled" : `Messages can now be edited for ${minutes} minutes`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update edit window",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateAttachmentLimits = async () => {
+    const maxImageSizeMB = parseFloat(newImageSizeLimit);
+    const maxFileSizeMB = parseFloat(newFileSizeLimit);
+    const allowedTypes = newAllowedTypes.split(',').map(type => type.trim()).filter(Boolean);
+
+    if (!(maxImageSizeMB > 0) || !(maxFileSizeMB > 0)) {
+      toast({
+        title: "Error",
+        description: "Size limits must be greater than 0 MB",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await updateAttachmentLimits({ maxImageSizeMB, maxFileSizeMB, allowedTypes });
+      toast({
+        title: "Success",
+        description: "Attachment limits updated!"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update attachment limits",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveReactionSettings = async (changes: Partial<ReactionSettings>) => {
+    setLoading(true);
+    try {
+      await updateReactionSettings({ ...adminSettings.reactions, ...changes });
+      toast({
+        title: "Success",
+        description: "Reaction settings updated!"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update reaction settings",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateQuickReactions = () => {
+    const quickReactions = [...new Set(splitEmoji(newQuickReactions))];
+
+    if (quickReactions.length === 0 || quickReactions.length > MAX_QUICK_REACTIONS) {
+      toast({
+        title: "Error",
+        description: `Choose between 1 and ${MAX_QUICK_REACTIONS} emoji`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    saveReactionSettings({ quickReactions });
+  };
+
+  const handleBackfillIndexes = async () => {
+    setLoading(true);
+    try {
+      const { conversations, users } = await backfillIndexes();
+      toast({
+        title: "Success",
+        description: `Indexed ${conversations} conversations and updated ${users} profiles`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to backfill indexes",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const selectedGroup = groups.find(g => g.id === selectedGroupId);
 
   return (
@@ -310,13 +410,14 @@ export const AdminPanel: React.FC = () => {
               </div>
 
               <Tabs defaultValue="overview" className="w-full">
-                <TabsList className="grid w-full grid-cols-7 mb-6">
+                <TabsList className="grid w-full grid-cols-8 mb-6">
                   <TabsTrigger value="overview" className="text-xs md:text-sm">Overview</TabsTrigger>
                   <TabsTrigger value="users" className="text-xs md:text-sm">Users</TabsTrigger>
                   <TabsTrigger value="groups" className="text-xs md:text-sm">Groups</TabsTrigger>
                   <TabsTrigger value="analytics" className="text-xs md:text-sm">Analytics</TabsTrigger>
                   <TabsTrigger value="requests" className="text-xs md:text-sm">Requests</TabsTrigger>
                   <TabsTrigger value="achievements" className="text-xs md:text-sm">Achievements</TabsTrigger>
+                  <TabsTrigger value="edits" className="text-xs md:text-sm">Edits</TabsTrigger>
                   <TabsTrigger value="settings" className="text-xs md:text-sm">Settings</TabsTrigger>
                 </TabsList>
 
@@ -805,6 +906,10 @@ export const AdminPanel: React.FC = () => {
                   <AdminAchievements />
                 </TabsContent>
 
+                <TabsContent value="edits" className="space-y-4 md:space-y-6">
+                  <AdminEditHistory />
+                </TabsContent>
+
                 <TabsContent value="settings" className="space-y-4 md:space-y-6">
                   <Card>
                     <CardHeader>
@@ -885,6 +990,165 @@ export const AdminPanel: React.FC = () => {
                       </div>
                     </CardContent>
                   </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Pencil className="h-5 w-5" />
+                        Message Editing
+                      </CardTitle>
+                      <CardDescription>
+                        How long senders can edit a message after sending it
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="p-4 border rounded-lg">
+                        <Label>Edit Window (minutes)</Label>
+                        <p className="text-sm text-muted-foreground mb-2">
+                          {adminSettings.messageEditWindowMinutes > 0
+                            ? `Current window: ${adminSettings.messageEditWindowMinutes} minutes`
+                            : 'Editing is disabled'}
+                        </p>
+                        <div className="flex gap-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            max="1440"
+                            value={newEditWindow}
+                            onChange={(e) => setNewEditWindow(e.target.value)}
+                            className="w-24"
+                          />
+                          <Button
+                            onClick={handleUpdateEditWindow}
+                            disabled={loading}
+                            size="sm"
+                          >
+                            Update
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Paperclip className="h-5 w-5" />
+                        Attachments
+                      </CardTitle>
+                      <CardDescription>
+                        Size and type limits for shared files and images
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label>Max image size (MB)</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            value={newImageSizeLimit}
+                            onChange={(e) => setNewImageSizeLimit(e.target.value)}
+                          />
+                          <p className="text-xs text-muted-foreground">Checked before images are downscaled</p>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Max file size (MB)</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            value={newFileSizeLimit}
+                            onChange={(e) => setNewFileSizeLimit(e.target.value)}
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Allowed types</Label>
+                        <Input
+                          value={newAllowedTypes}
+                          onChange={(e) => setNewAllowedTypes(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Comma-separated MIME types, e.g. image/*, application/pdf
+                        </p>
+                      </div>
+                      <Button
+                        onClick={handleUpdateAttachmentLimits}
+                        disabled={loading}
+                        size="sm"
+                      >
+                        Update
+                      </Button>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <SmilePlus className="h-5 w-5" />
+                        Reactions
+                      </CardTitle>
+                      <CardDescription>
+                        The quick reactions in every message's menu, and how many each person can add
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="space-y-2">
+                        <Label>Quick reactions</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            value={newQuickReactions}
+                            onChange={(e) => setNewQuickReactions(e.target.value)}
+                            className="text-lg"
+                          />
+                          <Button
+                            onClick={handleUpdateQuickReactions}
+                            disabled={loading}
+                            size="sm"
+                          >
+                            Update
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Up to {MAX_QUICK_REACTIONS} emoji; everything else is in the emoji picker
+                        </p>
+                      </div>
+                      <div className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="flex-1">
+                          <Label>Multiple reactions</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Let each person add several different reactions to a message
+                          </p>
+                        </div>
+                        <Switch
+                          checked={adminSettings.reactions.allowMultiple}
+                          disabled={loading}
+                          onCheckedChange={(allowMultiple) => saveReactionSettings({ allowMultiple })}
+                        />
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Database className="h-5 w-5" />
+                        Data maintenance
+                      </CardTitle>
+                      <CardDescription>
+                        Adds conversations and profiles from before the conversation list and people search indexes to them
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Button
+                        onClick={handleBackfillIndexes}
+                        disabled={loading}
+                        size="sm"
+                      >
+                        Backfill indexes
+                      </Button>
+                    </CardContent>
+                  </Card>
                 </TabsContent>
               </Tabs>
             </div>
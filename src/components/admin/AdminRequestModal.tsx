@@ -1,7 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { ref, push } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { createAdminRequest } from '@/lib/chat';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
@@ -24,15 +23,12 @@ export const AdminRequestModal: React.FC<AdminRequestModalProps> = ({ isOpen, on
     
     setLoading(true);
     try {
-      const requestRef = ref(database, 'adminRequests');
-      await push(requestRef, {
+      await createAdminRequest({
         userId: user.uid,
         userEmail: user.email,
         userName: userProfile.displayName,
         userPhoto: userProfile.photoURL || '',
-        message: message.trim() || 'Requesting admin access',
-        timestamp: Date.now(),
-        status: 'pending'
+        message: message.trim() || 'Requesting admin access'
       });
 
       toast({
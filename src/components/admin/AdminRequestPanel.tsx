@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { ref, onValue, off, update } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { subscribeToAdminRequests, reviewAdminRequest, updateAdmin, type AdminRequest } from '@/lib/chat';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,17 +8,6 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { Check, X, Clock, Shield } from 'lucide-react';
 
-interface AdminRequest {
-  id: string;
-  userId: string;
-  userEmail: string;
-  userName: string;
-  userPhoto: string;
-  message: string;
-  timestamp: number;
-  status: 'pending' | 'approved' | 'rejected';
-}
-
 export const AdminRequestPanel: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -32,46 +20,24 @@ export const AdminRequestPanel: React.FC = () => {
   useEffect(() => {
     if (!isMainAdmin) return;
 
-    const requestsRef = ref(database, 'adminRequests');
-    
-    const handleRequestsChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const requestsList = Object.entries(data).map(([id, request]: [string, any]) => ({
-          id,
-          ...request
-        })) as AdminRequest[];
-        
-        // Sort by timestamp, newest first
-        requestsList.sort((a, b) => b.timestamp - a.timestamp);
-        setRequests(requestsList);
-      } else {
-        setRequests([]);
-      }
+    const unsubscribe = subscribeToAdminRequests((requestsList) => {
+      // Sort by timestamp, newest first
+      requestsList.sort((a, b) => b.timestamp - a.timestamp);
+      setRequests(requestsList);
       setLoading(false);
-    };
-
-    onValue(requestsRef, handleRequestsChange);
+    });
 
-    return () => {
-      off(requestsRef, 'value', handleRequestsChange);
-    };
+    return unsubscribe;
   }, [isMainAdmin]);
 
   const handleRequest = async (requestId: string, action: 'approve' | 'reject', userId: string) => {
     try {
       // Update request status
-      const requestRef = ref(database, `adminRequests/${requestId}`);
-      await update(requestRef, {
-        status: action === 'approve' ? 'approved' : 'rejected',
-        reviewedAt: Date.now(),
-        reviewedBy: user?.uid
-      });
+      await reviewAdminRequest(requestId, action === 'approve' ? 'approved' : 'rejected', user?.uid);
 
       if (action === 'approve') {
         // Add user as admin
-        const adminRef = ref(database, `admins/${userId}`);
-        await update(adminRef, {
+        await updateAdmin(userId, {
           email: requests.find(r => r.id === requestId)?.userEmail,
           addedAt: Date.now(),
           addedBy: user?.uid
@@ -1,7 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { ref, get, onValue, off } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { subscribeToUsers, type Group, type UserProfile as User } from '@/lib/chat';
 import { useAdmin } from '@/contexts/AdminContext';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -15,23 +14,6 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from '@/hooks/use-toast';
 import { Users, UserPlus, UserMinus, Settings, Trash2, Ban, Clock } from 'lucide-react';
 
-interface Group {
-  id: string;
-  name: string;
-  members: { [key: string]: { role: string; joinedAt: number } };
-  createdBy: string;
-  createdAt: number;
-  isDisabled?: boolean;
-  disabledUntil?: number;
-}
-
-interface User {
-  uid: string;
-  displayName: string;
-  email: string;
-  photoURL?: string;
-}
-
 interface GroupMemberManagerProps {
   group: Group;
   trigger?: React.ReactNode;
@@ -56,29 +38,16 @@ export const GroupMemberManager: React.FC<GroupMemberManagerProps> = ({
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
-    const usersRef = ref(database, 'users');
-    
-    const handleUsersChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const usersList = Object.entries(data).map(([uid, userData]: [string, any]) => ({
-          uid,
-          ...userData
-        })) as User[];
-        setAllUsers(usersList);
-        
-        // Filter members of this group
-        const groupMemberIds = Object.keys(group.members || {});
-        const groupMembers = usersList.filter(user => groupMemberIds.includes(user.uid));
-        setMemberUsers(groupMembers);
-      }
-    };
-
-    onValue(usersRef, handleUsersChange);
+    const unsubscribe = subscribeToUsers((usersList) => {
+      setAllUsers(usersList);
+      
+      // Filter members of this group
+      const groupMemberIds = Object.keys(group.members || {});
+      const groupMembers = usersList.filter(user => groupMemberIds.includes(user.uid));
+      setMemberUsers(groupMembers);
+    });
 
-    return () => {
-      off(usersRef, 'value', handleUsersChange);
-    };
+    return unsubscribe;
   }, [group]);
 
   const handleAddMember = async () => {
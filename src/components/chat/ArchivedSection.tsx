@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useChatListSettings } from '@/hooks/useChatSettings';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Archive, ChevronDown, ChevronRight } from 'lucide-react';
+import { UnreadBadge } from './UnreadBadge';
+
+interface ArchivedSectionProps {
+  count: number;
+  unreadCount: number;
+  // The archived conversations, shown when the section is expanded
+  children: React.ReactNode;
+}
+
+export const ArchivedSection: React.FC<ArchivedSectionProps> = ({ count, unreadCount, children }) => {
+  const { user } = useAuth();
+  const { settings, update } = useChatListSettings(user?.uid);
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const handleKeepArchivedChange = async (keepArchived: boolean) => {
+    try {
+      await update({ keepArchived });
+    } catch (error) {
+      console.error('Error updating chat list settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update archive settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (count === 0) return null;
+
+  return (
+    <div className="mt-2 border-t border-border pt-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-3 px-2 md:px-3 py-2 rounded-lg text-sm text-muted-foreground hover:bg-secondary/50 transition-colors"
+      >
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <Archive className="h-4 w-4" />
+        <span className="flex-1 text-left">Archived ({count})</span>
+        {unreadCount > 0 && <UnreadBadge count={unreadCount} muted />}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-1 mt-1">
+          <div className="flex items-center justify-between gap-4 px-2 md:px-3 py-1">
+            <Label htmlFor="keep-archived" className="text-xs text-muted-foreground font-normal">
+              Keep chats archived when new messages arrive
+            </Label>
+            <Switch
+              id="keep-archived"
+              checked={settings.keepArchived}
+              onCheckedChange={handleKeepArchivedChange}
+            />
+          </div>
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
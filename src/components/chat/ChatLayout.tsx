@@ -16,10 +16,20 @@ import { AdminSetup } from '@/components/admin/AdminSetup';
 import { MobileSwipeGestures } from '@/components/mobile/MobileSwipeGestures';
 import { MobileFeatures, useMobileFeatures } from '@/components/mobile/MobileFeatures';
 import { ChatRequestHandler } from './ChatRequestHandler';
+import { MessageSearchDialog } from './MessageSearchDialog';
+import { StarredMessagesDialog } from './StarredMessagesDialog';
+import { LogoutDialog } from './LogoutDialog';
+import { NotificationCenter } from './NotificationCenter';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { ref, update } from 'firebase/database';
-import { database } from '@/lib/firebase';
-import { Moon, Sun, Users, Plus, Shield, CheckCircle, Settings, MessageSquare } from 'lucide-react';
+import { useDeliveryReceipts } from '@/hooks/useReceipts';
+import { useUnreadCounts } from '@/hooks/useUnread';
+import { useMessageNotifications } from '@/hooks/useMessageNotifications';
+import { useChatSettings, useAutoUnarchive } from '@/hooks/useChatSettings';
+import { trackUserActivity, getTotalUnread, getPresenceLabel, type NotificationEntry, type StarredMessage } from '@/lib/chat';
+import { usePresence } from '@/hooks/usePresence';
+import { UnreadBadge } from './UnreadBadge';
+import type { SearchDocument } from '@/lib/search';
+import { Moon, Sun, Users, Plus, Shield, CheckCircle, Settings, MessageSquare, Search, Star } from 'lucide-react';
 
 export const ChatLayout = () => {
   const { user, userProfile, logout } = useAuth();
@@ -34,66 +44,57 @@ export const ChatLayout = () => {
   const [showAdminSetup, setShowAdminSetup] = useState(false);
   const [showChatRequests, setShowChatRequests] = useState(false);
   const [activeTab, setActiveTab] = useState('chats');
+  const [showSearch, setShowSearch] = useState(false);
+  const [showStarred, setShowStarred] = useState(false);
+  const [showLogout, setShowLogout] = useState(false);
+  const [focusTarget, setFocusTarget] = useState<{ chatId: string; messageId: string } | null>(null);
+
+  const openChat = (chatId: string, isGroup: boolean) => {
+    setShowChatRequests(false);
+    setActiveTab(isGroup ? 'groups' : 'chats');
+    setSelectedChat(chatId);
+  };
+
+  const chatSettings = useChatSettings(user?.uid);
+  useDeliveryReceipts(user?.uid);
+  useAutoUnarchive(user?.uid, chatSettings);
+  useMessageNotifications({
+    activeChatId: selectedChat,
+    chatSettings,
+    onOpenChat: ({ chatId, isGroup }) => openChat(chatId, isGroup)
+  });
+  const unreadCounts = useUnreadCounts(user?.uid);
+  const ownPresence = usePresence(user?.uid);
+  const unreadChats = getTotalUnread(unreadCounts, false, chatSettings);
+  const unreadGroups = getTotalUnread(unreadCounts, true, chatSettings);
+  const totalUnread = unreadChats + unreadGroups;
+
+  // Show the unread total in the tab title
+  useEffect(() => {
+    const baseTitle = document.title;
+    if (totalUnread > 0) {
+      document.title = `(${totalUnread > 99 ? '99+' : totalUnread}) ${baseTitle}`;
+    }
+    return () => {
+      document.title = baseTitle;
+    };
+  }, [totalUnread]);
 
   // Track user activity
   useEffect(() => {
     if (!user) return;
     
     const trackActivity = () => {
-      const userRef = ref(database, `users/${user.uid}`);
-      const activityRef = ref(database, `userActivity/${user.uid}`);
-      
-      const now = Date.now();
-      const today = new Date().toDateString();
-      
-      // Update last seen
-      update(userRef, { lastSeen: now, isOnline: true });
-      
-      // Track daily usage
-      update(activityRef, {
-        [`dailyUsage/${today}`]: now,
-        totalSessions: (userProfile?.totalSessions || 0) + 1,
-        lastActive: now
-      });
+      // Update last seen and track daily usage
+      trackUserActivity(user.uid, (userProfile?.totalSessions || 0) + 1);
     };
 
     trackActivity();
     
     // Track activity every 5 minutes
     const interval = setInterval(trackActivity, 5 * 60 * 1000);
-    
-    // Update online status on window focus/blur
-    const handleFocus = () => {
-      if (user) {
-        update(ref(database, `users/${user.uid}`), { isOnline: true });
-      }
-    };
-    
-    const handleBlur = () => {
-      if (user) {
-        update(ref(database, `users/${user.uid}`), { 
-          isOnline: false, 
-          lastSeen: Date.now() 
-        });
-      }
-    };
-    
-    window.addEventListener('focus', handleFocus);
-    window.addEventListener('blur', handleBlur);
-    window.addEventListener('beforeunload', handleBlur);
-    
-    return () => {
-      clearInterval(interval);
-      window.removeEventListener('focus', handleFocus);
-      window.removeEventListener('blur', handleBlur);
-      window.removeEventListener('beforeunload', handleBlur);
-      if (user) {
-        update(ref(database, `users/${user.uid}`), { 
-          isOnline: false, 
-          lastSeen: Date.now() 
-        });
-      }
-    };
+
+    return () => clearInterval(interval);
   }, [user, userProfile]);
 
   // Check maintenance mode - block ALL non-admin users
@@ -106,7 +107,7 @@ export const ChatLayout = () => {
           </div>
           <h2 className="text-xl md:text-2xl font-semibold mb-2">Maintenance Mode</h2>
           <p className="text-muted-foreground mb-4">The app is currently under maintenance. Please try again later.</p>
-          <Button onClick={logout} variant="outline">
+          <Button onClick={() => logout()} variant="outline">
             Logout
           </Button>
         </div>
@@ -150,6 +151,42 @@ export const ChatLayout = () => {
     vibrate([50, 100, 50]); // Success vibration
   };
 
+  const handleSearchResult = (result: SearchDocument) => {
+    setShowSearch(false);
+    openChat(result.chatId, result.isGroup);
+    setFocusTarget({ chatId: result.chatId, messageId: result.messageId });
+  };
+
+  const handleStarredMessage = (entry: StarredMessage) => {
+    setShowStarred(false);
+    openChat(entry.chatId, entry.isGroup);
+    setFocusTarget({ chatId: entry.chatId, messageId: entry.messageId });
+  };
+
+  const handleNotification = (notification: NotificationEntry) => {
+    switch (notification.type) {
+      case 'reaction':
+      case 'mention':
+        openChat(notification.chatId, !!notification.isGroup);
+        setFocusTarget({ chatId: notification.chatId, messageId: notification.messageId });
+        break;
+      case 'chatRequest':
+        if (notification.status === 'pending') {
+          setActiveTab('chats');
+          setShowChatRequests(true);
+        } else if (notification.status === 'accepted') {
+          openChat(notification.chatId, false);
+        }
+        break;
+      case 'admin':
+        // Only groups the user is still in can be opened
+        if (notification.groupId && (notification.action === 'addedToGroup' || notification.action === 'promotedInGroup')) {
+          openChat(notification.groupId, true);
+        }
+        break;
+    }
+  };
+
   const handleSwipeRight = () => {
     if (selectedChat && isMobileDevice) {
       setSelectedChat(null); // Go back to chat list
@@ -183,7 +220,7 @@ export const ChatLayout = () => {
                   )}
                 </div>
                 <p className="text-xs md:text-sm text-muted-foreground">
-                  {userProfile?.isOnline ? 'Online' : 'Offline'}
+                  {getPresenceLabel(ownPresence)}
                 </p>
               </div>
             </div>
@@ -209,6 +246,25 @@ export const ChatLayout = () => {
                   <Settings className="h-3 w-3 md:h-4 md:w-4" />
                 </Button>
               )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSearch(true)}
+                className="text-muted-foreground hover:text-foreground p-1 md:p-2"
+                title="Search messages"
+              >
+                <Search className="h-3 w-3 md:h-4 md:w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowStarred(true)}
+                className="text-muted-foreground hover:text-foreground p-1 md:p-2"
+                title="Starred messages"
+              >
+                <Star className="h-3 w-3 md:h-4 md:w-4" />
+              </Button>
+              <NotificationCenter onOpenNotification={handleNotification} />
               <Button
                 variant="ghost"
                 size="sm"
@@ -228,7 +284,7 @@ export const ChatLayout = () => {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={logout}
+                onClick={() => setShowLogout(true)}
                 className="text-muted-foreground hover:text-foreground p-1 md:p-2"
               >
                 Logout
@@ -283,10 +339,12 @@ export const ChatLayout = () => {
             <TabsTrigger value="chats" className="text-xs md:text-sm">
               <MessageSquare className="h-3 w-3 md:h-4 md:w-4 mr-1" />
               Chats
+              {unreadChats > 0 && <UnreadBadge count={unreadChats} className="ml-1" />}
             </TabsTrigger>
             <TabsTrigger value="groups" className="text-xs md:text-sm">
               <Users className="h-3 w-3 md:h-4 md:w-4 mr-1" />
               Groups
+              {unreadGroups > 0 && <UnreadBadge count={unreadGroups} className="ml-1" />}
             </TabsTrigger>
           </TabsList>
           
@@ -297,6 +355,8 @@ export const ChatLayout = () => {
               ) : (
                 <ChatSidebar 
                   selectedChat={selectedChat}
+                  unreadCounts={unreadCounts}
+                  chatSettings={chatSettings}
                   onSelectChat={handleChatSelect}
                 />
               )}
@@ -306,6 +366,8 @@ export const ChatLayout = () => {
           <TabsContent value="groups" className="flex-1 mt-2">
             <GroupList 
               selectedChat={selectedChat}
+              unreadCounts={unreadCounts}
+              chatSettings={chatSettings}
               onSelectChat={handleChatSelect}
             />
           </TabsContent>
@@ -321,10 +383,16 @@ export const ChatLayout = () => {
         `}
       >
         {selectedChat ? (
-          <ChatWindow chatId={selectedChat} onBack={() => {
-            setSelectedChat(null);
-            vibrate(30);
-          }} />
+          <ChatWindow
+            chatId={selectedChat}
+            chatSettings={chatSettings}
+            focusMessageId={focusTarget?.chatId === selectedChat ? focusTarget.messageId : null}
+            onFocusHandled={() => setFocusTarget(null)}
+            onBack={() => {
+              setSelectedChat(null);
+              vibrate(30);
+            }}
+          />
         ) : (
           <div className="flex-1 flex items-center justify-center bg-background p-4">
             <div className="text-center max-w-md">
@@ -354,6 +422,20 @@ export const ChatLayout = () => {
         )}
       </MobileSwipeGestures>
 
+      <MessageSearchDialog
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        onSelectResult={handleSearchResult}
+      />
+
+      <StarredMessagesDialog
+        isOpen={showStarred}
+        onClose={() => setShowStarred(false)}
+        onSelect={handleStarredMessage}
+      />
+
+      <LogoutDialog isOpen={showLogout} onClose={() => setShowLogout(false)} />
+
       {/* Group Chat Modal */}
       <GroupChatModal
         isOpen={showGroupModal}
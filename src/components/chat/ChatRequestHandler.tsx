@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { ref, onValue, off, update, remove } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { subscribeToChatRequests, respondToChatRequest, type ChatRequest } from '@/lib/chat';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,63 +8,33 @@ import { Badge } from '@/components/ui/badge';
 import { Check, X, Clock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
-interface ChatRequest {
-  id: string;
-  from: string;
-  fromName: string;
-  fromAvatar?: string;
-  status: 'pending' | 'accepted' | 'rejected';
-  timestamp: number;
-}
-
 interface ChatRequestHandlerProps {
   onRequestAccepted?: (chatId: string) => void;
 }
 
 export const ChatRequestHandler: React.FC<ChatRequestHandlerProps> = ({ onRequestAccepted }) => {
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
   const [requests, setRequests] = useState<ChatRequest[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     if (!user) return;
 
-    const requestsRef = ref(database, `chatRequests/${user.uid}`);
-    
-    const handleRequestsChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const requestsList = Object.entries(data).map(([chatId, requestData]: [string, any]) => ({
-          id: chatId,
-          ...requestData
-        }));
-        
-        // Filter only pending requests
-        const pendingRequests = requestsList.filter(req => req.status === 'pending');
-        setRequests(pendingRequests);
-      } else {
-        setRequests([]);
-      }
-    };
+    const unsubscribe = subscribeToChatRequests(user.uid, (requestsList) => {
+      // Filter only pending requests
+      const pendingRequests = requestsList.filter(req => req.status === 'pending');
+      setRequests(pendingRequests);
+    });
 
-    onValue(requestsRef, handleRequestsChange);
-
-    return () => {
-      off(requestsRef, 'value', handleRequestsChange);
-    };
+    return unsubscribe;
   }, [user]);
 
   const handleAcceptRequest = async (request: ChatRequest) => {
     if (!user) return;
 
     try {
-      // Update request status
-      const requestRef = ref(database, `chatRequests/${user.uid}/${request.id}`);
-      await update(requestRef, { status: 'accepted' });
-
-      // Also notify the sender
-      const senderRequestRef = ref(database, `chatRequests/${request.from}/${request.id}`);
-      await update(senderRequestRef, { status: 'accepted' });
+      // Update request status for both sides
+      await respondToChatRequest(user.uid, request, 'accepted', userProfile?.displayName || user.displayName || 'Unknown User');
 
       toast({
         title: "Chat request accepted",
@@ -89,13 +58,8 @@ export const ChatRequestHandler: React.FC<ChatRequestHandlerProps> = ({ onReques
     if (!user) return;
 
     try {
-      // Update request status
-      const requestRef = ref(database, `chatRequests/${user.uid}/${request.id}`);
-      await update(requestRef, { status: 'rejected' });
-
-      // Also notify the sender
-      const senderRequestRef = ref(database, `chatRequests/${request.from}/${request.id}`);
-      await update(senderRequestRef, { status: 'rejected' });
+      // Update request status for both sides
+      await respondToChatRequest(user.uid, request, 'rejected', userProfile?.displayName || user.displayName || 'Unknown User');
 
       toast({
         title: "Chat request rejected",
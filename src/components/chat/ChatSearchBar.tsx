@@ -0,0 +1,102 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface ChatSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  // Position of the current match, -1 when there is none
+  activeIndex: number;
+  matchCount: number;
+  hasMore: boolean;
+  isSeeking: boolean;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+export const ChatSearchBar: React.FC<ChatSearchBarProps> = ({
+  query,
+  onQueryChange,
+  activeIndex,
+  matchCount,
+  hasMore,
+  isSeeking,
+  onNext,
+  onPrevious,
+  onClose
+}) => {
+  // Enter and arrow up go to older matches, Shift+Enter and arrow down to newer ones
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'ArrowUp') {
+      e.preventDefault();
+      onNext();
+    } else if ((e.key === 'Enter' && e.shiftKey) || e.key === 'ArrowDown') {
+      e.preventDefault();
+      onPrevious();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  // Matches found so far can be stepped through while older history is still
+  // being searched; the count is marked incomplete until then
+  const status = !query.trim()
+    ? ''
+    : isSeeking && matchCount === 0
+      ? 'Searching...'
+      : matchCount === 0
+        ? 'No results'
+        : `${activeIndex + 1} of ${matchCount}${hasMore ? '+' : ''}`;
+
+  return (
+    <div className="flex items-center gap-2 px-3 md:px-4 py-2 border-b border-border bg-card">
+      <Input
+        type="text"
+        placeholder="Search in conversation"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="flex-1 h-8 text-sm"
+        autoFocus
+      />
+      <span className="text-xs text-muted-foreground whitespace-nowrap min-w-[4.5rem] text-right">
+        {status}
+      </span>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onNext}
+        disabled={matchCount === 0 || activeIndex === matchCount - 1}
+        className="h-8 w-8 p-0"
+        title="Older match (Enter)"
+      >
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onPrevious}
+        disabled={activeIndex <= 0}
+        className="h-8 w-8 p-0"
+        title="Newer match (Shift+Enter)"
+      >
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onClose}
+        className="h-8 w-8 p-0"
+        title="Close search (Esc)"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -1,143 +1,233 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { ref, onValue, off, push, get } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import {
+  subscribeToUserChats,
+  subscribeToUser,
+  subscribeToPresence,
+  formatLastSeen,
+  getPresenceLabel,
+  getVisiblePresence,
+  getVisiblePhotoURL,
+  subscribeToChatRequests,
+  sendChatRequest,
+  subscribeToChatActivity,
+  getDirectChatId,
+  getOtherParticipantId,
+  directChat,
+  hasMessages,
+  isChatArchived,
+  isChatMuted,
+  isChatPinned,
+  sortPinnedFirst,
+  type ChatActivity,
+  type ChatSettingsMap,
+  type LastMessage,
+  type Presence,
+  type UnreadCounts,
+  type UserChat,
+  type UserProfile
+} from '@/lib/chat';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { CheckCircle, Clock } from 'lucide-react';
+import { BellOff, CheckCircle, Clock, MessageSquarePlus, Pin } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface User {
-  uid: string;
-  displayName: string;
-  email: string;
-  photoURL?: string;
-  isOnline: boolean;
-  lastSeen: any;
-  isVerified?: boolean;
-}
+import { cacheKeys, readCache, writeCache } from '@/lib/cache';
+import { usePrivacyViewer } from '@/hooks/usePrivacy';
+import { UnreadBadge } from './UnreadBadge';
+import { NewChatDialog } from './NewChatDialog';
+import { PresenceDot } from './PresenceDot';
+import { TypingPreview } from './TypingIndicator';
+import { ConversationMenu } from './ConversationMenu';
+import { ArchivedSection } from './ArchivedSection';
 
 interface ChatItem {
   id: string;
   type: 'user';
-  user: User;
+  user: UserProfile;
+  presence?: Presence;
   lastActivity: number;
-  lastMessage?: {
-    text: string;
-    timestamp: number;
-    sender: string;
-    senderName: string;
-  };
-  hasUnread?: boolean;
+  lastMessage?: LastMessage;
+  unreadCount: number;
   isPendingRequest?: boolean;
 }
 
+// What the list is built from, cached so it can be shown before the live data
+interface CachedChatList {
+  userChats: UserChat[];
+  profiles: Record<string, UserProfile | null>;
+  activity: Record<string, ChatActivity | null>;
+}
+
+// Writes to the cache are batched while subscriptions are still settling
+const CACHE_WRITE_DELAY = 1000;
+
 interface ChatSidebarProps {
   selectedChat: string | null;
+  unreadCounts: UnreadCounts;
+  chatSettings: ChatSettingsMap;
   onSelectChat: (chatId: string) => void;
 }
 
 export const ChatSidebar: React.FC<ChatSidebarProps> = ({
   selectedChat,
+  unreadCounts,
+  chatSettings,
   onSelectChat
 }) => {
   const { user, userProfile } = useAuth();
-  const [users, setUsers] = useState<User[]>([]);
+  const viewer = usePrivacyViewer();
+  const [userChats, setUserChats] = useState<UserChat[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, UserProfile | null>>({});
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
+  const [isLive, setIsLive] = useState(false);
   const [chatItems, setChatItems] = useState<ChatItem[]>([]);
   const [pendingRequests, setPendingRequests] = useState<string[]>([]);
+  const [activity, setActivity] = useState<Record<string, ChatActivity | null>>({});
+  const [showNewChat, setShowNewChat] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     if (!user) return;
 
-    const usersRef = ref(database, 'users');
-    const requestsRef = ref(database, `chatRequests/${user.uid}`);
-    
-    const handleUsersChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const usersList = Object.values(data) as User[];
-        // Filter out current user
-        const otherUsers = usersList.filter(u => u.uid !== user.uid);
-        setUsers(otherUsers);
-      }
+    let cancelled = false;
+    let live = false;
+
+    readCache<CachedChatList>(user.uid, cacheKeys.chatList()).then((cached) => {
+      if (cancelled || live || !cached) return;
+      setUserChats(cached.userChats);
+      setProfiles(cached.profiles);
+      setActivity(cached.activity);
       setLoading(false);
-    };
+    });
 
-    const handleRequestsChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const requests = Object.keys(data).filter(chatId => data[chatId].status === 'pending');
-        setPendingRequests(requests);
-      } else {
-        setPendingRequests([]);
-      }
-    };
+    // Groups are listed separately
+    const unsubscribeChats = subscribeToUserChats(user.uid, (chats) => {
+      live = true;
+      setUserChats(chats.filter(chat => !chat.isGroup));
+      setIsLive(true);
+      setLoading(false);
+    });
 
-    onValue(usersRef, handleUsersChange);
-    onValue(requestsRef, handleRequestsChange);
+    const unsubscribeRequests = subscribeToChatRequests(user.uid, (requests) => {
+      setPendingRequests(requests.filter(request => request.status === 'pending').map(request => request.id));
+    });
 
     return () => {
-      off(usersRef, 'value', handleUsersChange);
-      off(requestsRef, 'value', handleRequestsChange);
+      cancelled = true;
+      unsubscribeChats();
+      unsubscribeRequests();
     };
   }, [user]);
 
-  // Create combined chat items with last activity (only users, no groups)
+  // Profiles of the people in the listed conversations, for names and avatars
+  const otherUserIdsKey = user
+    ? userChats.map(chat => getOtherParticipantId(chat.chatId, user.uid)).filter(Boolean).join(',')
+    : '';
+
+  useEffect(() => {
+    if (!otherUserIdsKey) return;
+
+    const unsubscribers = otherUserIdsKey.split(',').flatMap(uid => [
+      subscribeToUser(uid, (profile) => {
+        setProfiles(prev => ({ ...prev, [uid]: profile }));
+      }),
+      subscribeToPresence(uid, (userPresence) => {
+        setPresence(prev => ({ ...prev, [uid]: userPresence }));
+      })
+    ]);
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [otherUserIdsKey]);
+
+  // Last message and activity time of each conversation in the list
+  const chatIdsKey = userChats.map(chat => chat.chatId).join(',');
+
+  useEffect(() => {
+    if (!chatIdsKey) return;
+
+    const unsubscribers = chatIdsKey.split(',').map(chatId =>
+      subscribeToChatActivity(chatId, (chatActivity) => {
+        setActivity(prev => ({ ...prev, [chatId]: chatActivity }));
+      })
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [chatIdsKey]);
+
+  useEffect(() => {
+    if (!user || !isLive) return;
+
+    const timeout = setTimeout(() => {
+      // Only what the current list needs, so removed chats don't linger
+      const chatIds = new Set(userChats.map(chat => chat.chatId));
+      const otherUserIds = new Set(userChats.map(chat => getOtherParticipantId(chat.chatId, user.uid)));
+      writeCache<CachedChatList>(user.uid, cacheKeys.chatList(), {
+        userChats,
+        profiles: Object.fromEntries(Object.entries(profiles).filter(([uid]) => otherUserIds.has(uid))),
+        activity: Object.fromEntries(Object.entries(activity).filter(([chatId]) => chatIds.has(chatId)))
+      });
+    }, CACHE_WRITE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [user, isLive, userChats, profiles, activity]);
+
+  // Create chat items for the user's conversations (only users, no groups)
   useEffect(() => {
     if (!user) return;
 
     const items: ChatItem[] = [];
 
-    // Add users with chat activity
-    users.forEach(otherUser => {
-      const chatId = [user.uid, otherUser.uid].sort().join('_');
+    userChats.forEach(({ chatId, lastActivity }) => {
+      const otherUserId = getOtherParticipantId(chatId, user.uid);
+      const otherUser = profiles[otherUserId];
+      if (!otherUser) return;
+
       items.push({
         id: chatId,
         type: 'user',
         user: otherUser,
-        lastActivity: otherUser.lastSeen || 0,
+        presence: getVisiblePresence(presence[otherUserId] || null, otherUser, viewer),
+        lastActivity: activity[chatId]?.lastActivity || lastActivity,
+        lastMessage: activity[chatId]?.lastMessage,
+        unreadCount: unreadCounts[chatId]?.count || 0,
         isPendingRequest: pendingRequests.includes(chatId)
       });
     });
 
-    // Sort by last activity (most recent first)
-    items.sort((a, b) => (b.lastActivity || 0) - (a.lastActivity || 0));
+    // Most recent conversations first, then people who were online recently
+    const lastSeen = (item: ChatItem) => item.presence?.lastSeen || 0;
+    items.sort((a, b) => (b.lastActivity - a.lastActivity) || (lastSeen(b) - lastSeen(a)));
 
-    setChatItems(items);
-  }, [users, user, pendingRequests]);
+    setChatItems(sortPinnedFirst(items, chatSettings, item => item.id));
+  }, [userChats, profiles, presence, viewer, user, pendingRequests, activity, unreadCounts, chatSettings]);
 
   const filteredChatItems = chatItems.filter(item => {
     return item.user.displayName.toLowerCase().includes(searchQuery.toLowerCase()) ||
            item.user.email.toLowerCase().includes(searchQuery.toLowerCase());
   });
+  const activeChatItems = filteredChatItems.filter(item => !isChatArchived(chatSettings, item.id));
+  const archivedChatItems = filteredChatItems.filter(item => isChatArchived(chatSettings, item.id));
 
-  const handleStartChat = async (otherUser: User) => {
+  const handleStartChat = async (otherUser: UserProfile) => {
     if (!user) return;
     
-    const chatId = [user.uid, otherUser.uid].sort().join('_');
+    const chatId = getDirectChatId(user.uid, otherUser.uid);
     
     // Check if the other user is verified and this is first contact
     if (otherUser.isVerified && !userProfile?.isVerified) {
       // Check if there are existing messages
-      const chatRef = ref(database, `chats/${chatId}/messages`);
-      const chatSnapshot = await get(chatRef);
-      
-      if (!chatSnapshot.exists()) {
+      if (!(await hasMessages(directChat(chatId)))) {
         // Send chat request
-        const requestRef = ref(database, `chatRequests/${otherUser.uid}/${chatId}`);
-        await push(requestRef, {
+        await sendChatRequest(otherUser.uid, chatId, {
           from: user.uid,
           fromName: user.displayName || 'Unknown User',
-          fromAvatar: user.photoURL || '',
-          status: 'pending',
-          timestamp: Date.now()
+          fromAvatar: user.photoURL
         });
         
         toast({
@@ -151,30 +241,123 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     onSelectChat(chatId);
   };
 
-  const formatLastSeen = (lastSeen: any) => {
-    if (!lastSeen) return 'Never';
-    
-    const now = Date.now();
-    const lastSeenTime = typeof lastSeen === 'number' ? lastSeen : Date.now();
-    const diff = now - lastSeenTime;
-    
-    if (diff < 60000) return 'Just now';
-    if (diff < 3600000) return `${Math.floor(diff / 60000)}m ago`;
-    if (diff < 86400000) return `${Math.floor(diff / 3600000)}h ago`;
-    return `${Math.floor(diff / 86400000)}d ago`;
+  const handleNewChat = async (otherUser: UserProfile) => {
+    setShowNewChat(false);
+    await handleStartChat(otherUser);
+  };
+
+  const renderChatItem = (item: ChatItem) => {
+    const isSelected = selectedChat === item.id;
+    const isPending = item.isPendingRequest;
+    const isMuted = isChatMuted(chatSettings, item.id);
+
+    return (
+      <div
+        key={item.id}
+        className={`
+          flex items-center space-x-3 p-2 md:p-3 rounded-lg cursor-pointer transition-colors group/item
+          ${isSelected 
+            ? 'bg-primary/20 border border-primary/30' 
+            : 'hover:bg-secondary/50'
+          }
+          ${isPending ? 'opacity-60' : ''}
+        `}
+        onClick={() => handleStartChat(item.user)}
+      >
+        <div className="relative">
+          <Avatar className="h-10 w-10 md:h-12 md:w-12">
+            <AvatarImage src={getVisiblePhotoURL(item.user, viewer)} />
+            <AvatarFallback className="bg-primary text-primary-foreground text-sm">
+              {item.user.displayName[0]?.toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          {!isPending && (
+            <PresenceDot
+              presence={item.presence}
+              className="absolute -bottom-1 -right-1 w-3 h-3 md:w-4 md:h-4 border-2 border-chat-sidebar"
+            />
+          )}
+          {isPending && (
+            <div className="absolute -bottom-1 -right-1 w-3 h-3 md:w-4 md:h-4 bg-orange-500 rounded-full border-2 border-chat-sidebar flex items-center justify-center">
+              <Clock className="h-2 w-2 text-white" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <h3 className="font-medium text-foreground truncate text-sm md:text-base">
+                {item.user.displayName}
+              </h3>
+              {item.user.isVerified && (
+                <CheckCircle className="h-3 w-3 md:h-4 md:w-4 text-blue-500 flex-shrink-0" />
+              )}
+            </div>
+            {isPending ? (
+              <Badge variant="secondary" className="text-xs bg-orange-500/20 text-orange-500">
+                Pending
+              </Badge>
+            ) : item.lastMessage ? (
+              <span className={`text-xs flex-shrink-0 ${item.unreadCount ? 'text-primary font-medium' : 'text-muted-foreground'}`}>
+                {formatLastSeen(item.lastMessage.timestamp)}
+              </span>
+            ) : item.presence?.state === 'online' ? (
+              <Badge variant="secondary" className="text-xs bg-status-online/20 text-status-online">
+                Online
+              </Badge>
+            ) : null}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <TypingPreview chatId={item.id} showNames={false}>
+              <p className={`text-xs md:text-sm truncate flex-1 ${item.unreadCount ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>
+                {isPending 
+                  ? 'Chat request pending...'
+                  : item.lastMessage
+                    ? `${item.lastMessage.sender === user?.uid ? 'You: ' : ''}${item.lastMessage.text}`
+                    : getPresenceLabel(item.presence)
+                }
+              </p>
+            </TypingPreview>
+            {isMuted && <BellOff className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
+            {isChatPinned(chatSettings, item.id) && <Pin className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
+            {item.unreadCount > 0 && (
+              <UnreadBadge count={item.unreadCount} muted={isMuted} />
+            )}
+          </div>
+        </div>
+
+        {!isPending && (
+          <ConversationMenu
+            chatId={item.id}
+            chatSettings={chatSettings}
+            className="text-muted-foreground md:opacity-0 md:group-hover/item:opacity-100 focus-visible:opacity-100 transition-opacity"
+          />
+        )}
+      </div>
+    );
   };
 
   return (
     <div className="flex flex-col h-full">
       {/* Search */}
-      <div className="p-3 md:p-4">
+      <div className="p-3 md:p-4 flex space-x-2">
         <Input
           type="text"
-          placeholder="Search users..."
+          placeholder="Search chats..."
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
           className="bg-secondary border-border text-sm"
         />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowNewChat(true)}
+          className="px-2 flex-shrink-0"
+          title="New chat"
+        >
+          <MessageSquarePlus className="h-4 w-4" />
+        </Button>
       </div>
 
       {/* Chats List */}
@@ -187,81 +370,41 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
           <div className="px-2 md:px-3">
             {filteredChatItems.length === 0 ? (
               <div className="p-4 text-center text-muted-foreground">
-                {searchQuery ? 'No chats found' : 'No chats available'}
-              </div>
-            ) : (
-              <div className="space-y-1">
-                {filteredChatItems.map((item) => {
-                  const isSelected = selectedChat === item.id;
-                  const isPending = item.isPendingRequest;
-                  
-                  return (
-                    <div
-                      key={item.id}
-                      className={`
-                        flex items-center space-x-3 p-2 md:p-3 rounded-lg cursor-pointer transition-colors
-                        ${isSelected 
-                          ? 'bg-primary/20 border border-primary/30' 
-                          : 'hover:bg-secondary/50'
-                        }
-                        ${isPending ? 'opacity-60' : ''}
-                      `}
-                      onClick={() => handleStartChat(item.user)}
+                {searchQuery ? 'No chats found' : (
+                  <>
+                    <p>No conversations yet</p>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      onClick={() => setShowNewChat(true)}
                     >
-                      <div className="relative">
-                        <Avatar className="h-10 w-10 md:h-12 md:w-12">
-                          <AvatarImage src={item.user.photoURL} />
-                          <AvatarFallback className="bg-primary text-primary-foreground text-sm">
-                            {item.user.displayName[0]?.toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                        {item.user.isOnline && !isPending && (
-                          <div className="absolute -bottom-1 -right-1 w-3 h-3 md:w-4 md:h-4 bg-status-online rounded-full border-2 border-chat-sidebar"></div>
-                        )}
-                        {isPending && (
-                          <div className="absolute -bottom-1 -right-1 w-3 h-3 md:w-4 md:h-4 bg-orange-500 rounded-full border-2 border-chat-sidebar flex items-center justify-center">
-                            <Clock className="h-2 w-2 text-white" />
-                          </div>
-                        )}
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <h3 className="font-medium text-foreground truncate text-sm md:text-base">
-                              {item.user.displayName}
-                            </h3>
-                            {item.user.isVerified && (
-                              <CheckCircle className="h-3 w-3 md:h-4 md:w-4 text-blue-500 flex-shrink-0" />
-                            )}
-                          </div>
-                          {isPending ? (
-                            <Badge variant="secondary" className="text-xs bg-orange-500/20 text-orange-500">
-                              Pending
-                            </Badge>
-                          ) : item.user.isOnline ? (
-                            <Badge variant="secondary" className="text-xs bg-status-online/20 text-status-online">
-                              Online
-                            </Badge>
-                          ) : null}
-                        </div>
-                        <p className="text-xs md:text-sm text-muted-foreground truncate">
-                          {isPending 
-                            ? 'Chat request pending...'
-                            : item.user.isOnline 
-                              ? 'Online' 
-                              : `Last seen ${formatLastSeen(item.user.lastSeen)}`
-                          }
-                        </p>
-                      </div>
-                    </div>
-                  );
-                })}
+                      Start a new chat
+                    </Button>
+                  </>
+                )}
               </div>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  {activeChatItems.map(renderChatItem)}
+                </div>
+                <ArchivedSection
+                  count={archivedChatItems.length}
+                  unreadCount={archivedChatItems.reduce((total, item) => total + item.unreadCount, 0)}
+                >
+                  {archivedChatItems.map(renderChatItem)}
+                </ArchivedSection>
+              </>
             )}
           </div>
         )}
       </ScrollArea>
+
+      <NewChatDialog
+        isOpen={showNewChat}
+        onClose={() => setShowNewChat(false)}
+        onSelectUser={handleNewChat}
+      />
     </div>
   );
 };
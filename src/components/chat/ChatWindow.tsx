@@ -1,179 +1,508 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { ref, push, onValue, off, serverTimestamp, get, update } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { useAdmin } from '@/contexts/AdminContext';
+import { useOutbox } from '@/hooks/useOutbox';
+import {
+  getGroupInfo,
+  groupChat,
+  directChat,
+  isGroupAdmin,
+  getUser,
+  getOtherParticipantId,
+  getPresenceLabel,
+  getVisiblePresence,
+  getVisiblePhotoURL,
+  canView,
+  hideReadReceipts,
+  indexUserChat,
+  isMessageVisibleTo,
+  getParticipants,
+  getRecipientIds,
+  editMessage,
+  canEditMessage,
+  toMessageReference,
+  getMessagePreview,
+  decodeMentions,
+  encodeMentions,
+  MENTION_ALL,
+  validateAttachment,
+  uploadAttachment,
+  uploadVoiceNote,
+  formatDuration,
+  isChatMuted,
+  unstarMessage,
+  type ChatRef,
+  type ChatSettingsMap,
+  type Message,
+  type NewMessage,
+  type Participants,
+  type UserProfile
+} from '@/lib/chat';
+import { useMessageHistory } from '@/hooks/useMessageHistory';
+import { usePresence } from '@/hooks/usePresence';
+import { usePrivacyViewer, useProfiles } from '@/hooks/usePrivacy';
+import { useReadReceipts } from '@/hooks/useReceipts';
+import { useMarkChatRead } from '@/hooks/useUnread';
+import { useSearchIndexing } from '@/hooks/useSearchIndexing';
+import { useConversationSearch } from '@/hooks/useConversationSearch';
+import { useVoiceRecorder, type VoiceRecording } from '@/hooks/useVoiceRecorder';
+import { useMentionAutocomplete, type MentionCandidate } from '@/hooks/useMentionAutocomplete';
+import { useStarredMessages } from '@/hooks/useStarredMessages';
+import { isRecordingSupported } from '@/lib/audio';
+import { toOutboxMessage, type OutboxStatus } from '@/lib/outbox';
+import { cacheKeys, readCache, writeCache } from '@/lib/cache';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useTypingIndicator, TypingDisplay } from './TypingIndicator';
-import { MessageActions } from './MessageActions';
-import { Check, CheckCheck, ArrowLeft } from 'lucide-react';
-
-interface Message {
-  id: string;
-  text: string;
-  senderId: string;
-  timestamp: any;
-  senderName: string;
-  senderAvatar?: string;
-  status?: 'sent' | 'delivered' | 'seen';
-  reactions?: { [userId: string]: string };
-  deletedForEveryone?: boolean;
-  deletedFor?: string[];
+import { MessageList } from './MessageList';
+import { VoiceNotePlayer } from './VoiceNotePlayer';
+import { ChatSearchBar } from './ChatSearchBar';
+import { PresenceDot } from './PresenceDot';
+import { ConversationMenu } from './ConversationMenu';
+import { MentionSuggestions } from './MentionSuggestions';
+import { EmojiPicker } from './EmojiPicker';
+import { StarredMessagesDialog } from './StarredMessagesDialog';
+import { ArrowLeft, BellOff, Mic, Paperclip, Pencil, Reply, Search, Send, Smile, Star, Trash2, X } from 'lucide-react';
+
+// How long a message stays highlighted after jumping to it
+const HIGHLIGHT_DURATION = 2000;
+
+const NO_MESSAGES: Message[] = [];
+
+type MessageContent = Partial<Pick<NewMessage, 'type' | 'attachment' | 'voice' | 'mentions'>>;
+
+type ChatHeaderInfo = Partial<Pick<UserProfile, 'displayName'>> & { isGroup?: boolean };
+
+interface CachedChatInfo {
+  chat: ChatRef;
+  header: ChatHeaderInfo | null;
+  participants: Participants;
+}
+
+interface PendingUpload {
+  name: string;
+  progress: number;
+  cancel: () => void;
 }
 
 interface ChatWindowProps {
   chatId: string;
+  // The current user's pin, mute and archive settings
+  chatSettings: ChatSettingsMap;
+  // A message to scroll to and highlight once the chat has loaded
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
   onBack?: () => void;
 }
 
-export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack }) => {
+export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, chatSettings, focusMessageId, onFocusHandled, onBack }) => {
   const { user, userProfile } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { adminSettings } = useAdmin();
+  const outbox = useOutbox();
   const [newMessage, setNewMessage] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [otherUser, setOtherUser] = useState<any>(null);
-  const [isGroup, setIsGroup] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const { handleTyping, handleStopTyping } = useTypingIndicator({ chatId, isGroup });
+  const [otherUser, setOtherUser] = useState<ChatHeaderInfo | null>(null);
+  const [chat, setChat] = useState<ChatRef | null>(null);
+  const [participants, setParticipants] = useState<Participants>({});
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isStarredOpen, setIsStarredOpen] = useState(false);
+  const [voicePreview, setVoicePreview] = useState<VoiceRecording & { url: string } | null>(null);
+  // Only group admins can mention @all
+  const [canMentionAll, setCanMentionAll] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const isGroup = chat?.isGroup ?? false;
+  const history = useMessageHistory(chat, user?.uid);
+  const otherUserId = isGroup || !user ? undefined : getOtherParticipantId(chatId, user.uid);
+  const viewer = usePrivacyViewer();
+  const participantProfiles = useProfiles(Object.keys(participants).filter(uid => uid !== user?.uid));
+  const otherProfile = otherUserId ? participantProfiles[otherUserId] : null;
+  const rawPresence = usePresence(otherUserId);
+  const otherUserPresence = getVisiblePresence(rawPresence, otherProfile, viewer);
+  const voiceRecorder = useVoiceRecorder();
+  // Read after uploads finish, when the settings may have changed
+  const featureFlags = useRef(adminSettings.featureFlags);
+  featureFlags.current = adminSettings.featureFlags;
+  const { handleTyping, handleStopTyping, setRecording } = useTypingIndicator({ chatId });
+  const isMuted = isChatMuted(chatSettings, chatId);
+  const starred = useStarredMessages(user?.uid);
+  const starredIds = useMemo(
+    () => new Set(starred.filter(entry => entry.chatId === chatId).map(entry => entry.messageId)),
+    [starred, chatId]
+  );
+
+  const memberNames = useMemo(() => Object.fromEntries(
+    Object.entries(participantProfiles)
+      .filter(([, profile]) => profile?.displayName)
+      .map(([uid, profile]) => [uid, profile.displayName])
+  ), [participantProfiles]);
+
+  const mentionCandidates = useMemo<MentionCandidate[]>(() => {
+    if (!isGroup) return [];
+    const members = Object.entries(memberNames)
+      .map(([uid, name]) => ({ uid, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return canMentionAll ? [{ uid: MENTION_ALL, name: MENTION_ALL }, ...members] : members;
+  }, [isGroup, memberNames, canMentionAll]);
+  const mentionAutocomplete = useMentionAutocomplete(mentionCandidates);
+  const { reset: resetMentions } = mentionAutocomplete;
+
+  // Others see "recording voice…" while the mic button is held
+  useEffect(() => {
+    setRecording(voiceRecorder.isRecording);
+  }, [voiceRecorder.isRecording, setRecording]);
 
-  // Check if it's a group chat
+  // Check if it's a group chat. What was cached the last time the chat was
+  // open is shown until the live lookups come back.
   useEffect(() => {
+    if (!chatId) return;
+
+    let cancelled = false;
+    let resolvedLive = false;
+    // Keep the same ref when nothing changed so the history isn't reloaded
+    const applyChat = (next: ChatRef) => {
+      setChat(prev => (prev?.id === next.id && prev.isGroup === next.isGroup ? prev : next));
+    };
+
+    if (user) {
+      readCache<CachedChatInfo>(user.uid, cacheKeys.chatInfo(chatId)).then((cached) => {
+        if (cancelled || resolvedLive || !cached) return;
+        applyChat(cached.chat);
+        setOtherUser(cached.header);
+        setParticipants(cached.participants);
+      });
+    }
+
     const checkChatType = async () => {
-      if (!chatId) return;
-      
-      // Check if it's a group
-      const groupRef = ref(database, `groups/${chatId}`);
-      const groupSnapshot = await get(groupRef);
-      
-      if (groupSnapshot.exists()) {
-        setIsGroup(true);
-        setOtherUser({ displayName: groupSnapshot.val().name, isGroup: true });
+      // One read tells whether it's a group and, if so, who is in it
+      const group = await getGroupInfo(chatId);
+      if (cancelled) return;
+
+      const resolved = group ? groupChat(chatId) : directChat(chatId);
+      let header: ChatHeaderInfo | null = null;
+      let chatParticipants: Participants;
+      let isAdmin = false;
+      if (group) {
+        header = { displayName: group.name, isGroup: true };
+        chatParticipants = getParticipants(resolved, group);
+        isAdmin = !!user && isGroupAdmin(group, user.uid);
       } else {
-        setIsGroup(false);
+        chatParticipants = getParticipants(resolved);
         // Get other user info for one-to-one chat
         if (user) {
-          const otherUserId = chatId.split('_').find(id => id !== user.uid);
+          indexUserChat(user.uid, chatId).catch((error) => {
+            console.error('Error indexing chat:', error);
+          });
+          const otherUserId = getOtherParticipantId(chatId, user.uid);
           if (otherUserId) {
-            const otherUserRef = ref(database, `users/${otherUserId}`);
-            const snapshot = await get(otherUserRef);
-            if (snapshot.exists()) {
-              setOtherUser(snapshot.val());
+            const profile = await getUser(otherUserId);
+            if (profile) {
+              header = profile;
             }
           }
         }
       }
+      if (cancelled) return;
+
+      resolvedLive = true;
+      applyChat(resolved);
+      setParticipants(chatParticipants);
+      setCanMentionAll(isAdmin);
+      if (header) {
+        setOtherUser(header);
+      }
+      if (user) {
+        writeCache<CachedChatInfo>(user.uid, cacheKeys.chatInfo(chatId), {
+          chat: resolved,
+          header: header && { displayName: header.displayName, isGroup: header.isGroup },
+          participants: chatParticipants
+        });
+      }
     };
 
-    checkChatType();
-  }, [chatId, user]);
+    checkChatType().catch((error) => {
+      console.error('Error loading chat:', error);
+    });
+    setReplyingTo(null);
+    setEditingMessage(null);
+    setHighlightedMessageId(null);
+    setVoicePreview(null);
+    setIsSearchOpen(false);
+    setCanMentionAll(false);
+    resetMentions();
 
-  // Load messages
-  useEffect(() => {
-    if (!chatId) return;
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, user, resetMentions]);
 
-    const messagesPath = isGroup ? `groups/${chatId}/messages` : `chats/${chatId}/messages`;
-    const messagesRef = ref(database, messagesPath);
-    
-    const handleMessagesChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const messagesList = Object.entries(data).map(([id, msg]: [string, any]) => ({
-          id,
-          ...msg
-        }));
-        messagesList.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
-        
-        // Filter out messages deleted for current user
-        const filteredMessages = messagesList.filter((msg: Message) => {
-          if (msg.deletedForEveryone) return false;
-          if (msg.deletedFor?.includes(user?.uid || '')) return false;
-          return true;
-        });
-        
-        setMessages(filteredMessages);
-        
-        // Mark messages as seen
-        markMessagesAsSeen(filteredMessages);
-      } else {
-        setMessages([]);
+  // Ctrl/Cmd+F searches the open conversation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setIsSearchOpen(true);
       }
-      setLoading(false);
     };
 
-    onValue(messagesRef, handleMessagesChange);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
-    return () => {
-      off(messagesRef, 'value', handleMessagesChange);
+  useEffect(() => {
+    if (!voicePreview) return;
+    return () => URL.revokeObjectURL(voicePreview.url);
+  }, [voicePreview]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Nothing from the previous conversation while the next one loads
+  const loadedMessages = history.loading ? NO_MESSAGES : history.messages;
+
+  const unsent = useMemo(
+    () => outbox.entries.filter(entry => entry.chat.id === chat?.id),
+    [outbox.entries, chat]
+  );
+  const sendStates = useMemo(
+    () => Object.fromEntries(unsent.map(entry => [entry.id, entry.status])) as Record<string, OutboxStatus>,
+    [unsent]
+  );
+
+  // Read receipts and photos of the people in the chat, as far as their
+  // privacy settings let this user see them; hidden until their profile loads
+  const privacyView = useMemo(() => {
+    const others = Object.keys(participants).filter(uid => uid !== user?.uid);
+    return {
+      hiddenReaders: new Set(others.filter(uid => !canView(participantProfiles[uid], 'readReceipts', viewer))),
+      photoOf: (uid: string) => (uid === user?.uid ? userProfile?.photoURL : getVisiblePhotoURL(participantProfiles[uid], viewer))
     };
-  }, [chatId, isGroup, user]);
+  }, [participants, participantProfiles, viewer, user, userProfile]);
 
-  // Mark messages as seen
-  const markMessagesAsSeen = async (messagesList: Message[]) => {
-    if (!user) return;
-    
-    const unseenMessages = messagesList.filter(
-      msg => msg.senderId !== user.uid && msg.status !== 'seen'
-    );
-    
-    for (const message of unseenMessages) {
-      const messagePath = isGroup 
-        ? `groups/${chatId}/messages/${message.id}/status`
-        : `chats/${chatId}/messages/${message.id}/status`;
-      
-      await update(ref(database, messagePath), { seen: true });
-    }
-  };
+  // Filter out messages deleted for current user, and add the ones still
+  // waiting in the outbox; ids sort chronologically so they land in place
+  const messages = useMemo(() => {
+    const visible = loadedMessages
+      .filter(msg => isMessageVisibleTo(msg, user?.uid || ''))
+      .map(msg => msg.senderId === user?.uid
+        ? hideReadReceipts(msg, privacyView.hiddenReaders)
+        : { ...msg, senderAvatar: privacyView.photoOf(msg.senderId) });
+    if (history.loading || unsent.length === 0) return visible;
 
-  // Scroll to bottom when messages change
+    const loadedIds = new Set(visible.map(message => message.id));
+    const pending = unsent.filter(entry => !loadedIds.has(entry.id)).map(toOutboxMessage);
+    if (pending.length === 0) return visible;
+    return [...visible, ...pending].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }, [loadedMessages, unsent, history.loading, user, privacyView]);
+
+  const { markSeen } = useReadReceipts(chat, messages, user?.uid, viewer);
+  useMarkChatRead(chat, user?.uid, messages[messages.length - 1]?.id);
+  useSearchIndexing(chat, loadedMessages, user?.uid);
+  const search = useConversationSearch(messages, history);
+  const { setQuery: setSearchQuery } = search;
+
+  // A search doesn't carry over to the next conversation
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    setSearchQuery('');
+  }, [chatId, setSearchQuery]);
+
+  const isFileSharingEnabled = adminSettings.featureFlags.enableFileSharing;
+  const isVoiceEnabled = adminSettings.featureFlags.enableVoiceMessages && isRecordingSupported();
+
+  // Shows the message straight away; the outbox writes it in the background
+  const postMessage = (text: string, replyTo: Message | null, content: MessageContent = {}) => {
+    outbox.enqueue(chat, {
+      text,
+      senderId: user.uid,
+      senderName: userProfile.displayName,
+      senderAvatar: userProfile.photoURL,
+      replyTo: replyTo ? toMessageReference(replyTo) : undefined,
+      ...content
+    }, getRecipientIds({ senderId: user.uid, timestamp: 0 }, participants));
+  };
+
+  // The composer's text with the picked people turned into mention tokens
+  const withMentions = (text: string) => {
+    const { [MENTION_ALL]: all, ...people } = mentionAutocomplete.picked;
+    return encodeMentions(text, canMentionAll && all ? { ...people, [MENTION_ALL]: all } : people);
+  };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newMessage.trim() || !user || !userProfile) return;
+    if (!newMessage.trim() || !user || !userProfile || !chat) return;
 
-    const messagesPath = isGroup ? `groups/${chatId}/messages` : `chats/${chatId}/messages`;
-    const messagesRef = ref(database, messagesPath);
+    if (editingMessage) {
+      await handleSaveEdit(editingMessage, newMessage.trim());
+      return;
+    }
     
+    const { text, mentions } = withMentions(newMessage.trim());
+    postMessage(text, replyingTo, mentions ? { mentions } : {});
+    setNewMessage('');
+    mentionAutocomplete.reset();
+    setReplyingTo(null);
+    handleStopTyping();
+  };
+
+  // Uploads the chosen file and sends it with whatever is typed as its caption
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user || !userProfile || !chat || pendingUpload) return;
+
+    const error = validateAttachment(file, adminSettings.attachmentLimits);
+    if (error) {
+      toast({
+        title: "Can't attach file",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const caption = withMentions(newMessage.trim());
+    const replyTo = replyingTo;
+    const upload = uploadAttachment(chat, file, (progress) => {
+      setPendingUpload(prev => prev && { ...prev, progress });
+    });
+    setPendingUpload({ name: file.name, progress: 0, cancel: upload.cancel });
+    setNewMessage('');
+    mentionAutocomplete.reset();
+    setReplyingTo(null);
+    handleStopTyping();
+
     try {
-      await push(messagesRef, {
-        text: newMessage.trim(),
-        senderId: user.uid,
-        senderName: userProfile.displayName,
-        senderAvatar: userProfile.photoURL || '',
-        timestamp: serverTimestamp(),
-        status: 'sent'
+      const attachment = await upload.result;
+      if (!featureFlags.current.enableFileSharing) {
+        throw new Error('File sharing is disabled');
+      }
+      postMessage(caption.text, replyTo, {
+        type: 'attachment',
+        attachment,
+        ...(caption.mentions && { mentions: caption.mentions })
       });
+    } catch (error) {
+      console.error('Error sending attachment:', error);
+      if (error?.message !== 'Upload cancelled') {
+        toast({
+          title: "Error",
+          description: "Failed to send attachment",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setPendingUpload(null);
+    }
+  };
 
-      // Update last activity for chat ordering
-      if (!isGroup) {
-        const otherUserId = chatId.split('_').find(id => id !== user.uid);
-        if (otherUserId) {
-          const chatActivityRef = ref(database, `chatActivity/${chatId}`);
-          await update(chatActivityRef, {
-            lastMessage: {
-              text: newMessage.trim(),
-              timestamp: Date.now(),
-              sender: user.uid,
-              senderName: userProfile.displayName
-            },
-            lastActivity: Date.now()
-          });
-        }
+  // Press and hold the mic to record; letting go shows a preview to send
+  const handleRecordStart = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (voiceRecorder.isRecording || pendingUpload) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    voiceRecorder.start().catch(() => {
+      toast({
+        title: "Can't record",
+        description: "Microphone access is needed for voice messages",
+        variant: "destructive"
+      });
+    });
+  };
+
+  const handleRecordEnd = async () => {
+    const recording = await voiceRecorder.stop();
+    if (recording) {
+      setVoicePreview({ ...recording, url: URL.createObjectURL(recording.blob) });
+    }
+  };
+
+  const handleSendVoice = async () => {
+    if (!voicePreview || !user || !userProfile || !chat) return;
+
+    const recording = voicePreview;
+    const replyTo = replyingTo;
+    setVoicePreview(null);
+    setReplyingTo(null);
+
+    try {
+      if (!featureFlags.current.enableVoiceMessages) {
+        throw new Error('Voice messages are disabled');
+      }
+      const upload = uploadVoiceNote(chat, recording.blob, recording, (progress) => {
+        setPendingUpload(prev => prev && { ...prev, progress });
+      });
+      setPendingUpload({ name: 'voice message', progress: 0, cancel: upload.cancel });
+
+      const voice = await upload.result;
+      if (!featureFlags.current.enableVoiceMessages) {
+        throw new Error('Voice messages are disabled');
+      }
+      postMessage('', replyTo, { type: 'voice', voice });
+    } catch (error) {
+      console.error('Error sending voice message:', error);
+      if (error?.message !== 'Upload cancelled') {
+        toast({
+          title: "Error",
+          description: error?.message === 'Voice messages are disabled'
+            ? "Voice messages have been turned off"
+            : "Failed to send voice message",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setPendingUpload(null);
+    }
+  };
+
+  const handleSaveEdit = async (message: Message, text: string) => {
+    if (!user || !chat) return;
+
+    if (!canEditMessage(message, user.uid, adminSettings.messageEditWindowMinutes)) {
+      toast({
+        title: "Can't edit message",
+        description: "The time allowed for editing this message has passed",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const edited = withMentions(text);
+      if (edited.text !== message.text) {
+        await editMessage(chat, message, edited.text, edited.mentions || null, getRecipientIds(message, participants));
       }
-      
       setNewMessage('');
+      mentionAutocomplete.reset();
+      setEditingMessage(null);
       handleStopTyping();
     } catch (error) {
-      console.error('Error sending message:', error);
+      console.error('Error editing message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to edit message",
+        variant: "destructive"
+      });
     }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setNewMessage(e.target.value);
+    if (isGroup) {
+      mentionAutocomplete.update(e.target.value, e.target.selectionStart ?? e.target.value.length);
+    }
     if (e.target.value.trim()) {
       handleTyping();
     } else {
@@ -181,26 +510,123 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack }) => {
     }
   };
 
-  const formatMessageTime = (timestamp: any) => {
-    if (!timestamp) return '';
-    
-    const date = new Date(typeof timestamp === 'number' ? timestamp : Date.now());
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+    mentionAutocomplete.reset();
   };
 
-  const getMessageStatusIcon = (message: Message) => {
-    if (message.senderId !== user?.uid) return null;
-    
-    if (message.status === 'seen') {
-      return <CheckCheck className="h-3 w-3 text-blue-500" />;
-    } else if (message.status === 'delivered') {
-      return <CheckCheck className="h-3 w-3 text-muted-foreground" />;
-    } else {
-      return <Check className="h-3 w-3 text-muted-foreground" />;
+  const handleReply = (message: Message) => {
+    if (editingMessage) cancelEdit();
+    setReplyingTo(message);
+    inputRef.current?.focus();
+  };
+
+  const handleEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(decodeMentions(message.text, message.mentions));
+    mentionAutocomplete.reset(message.mentions || {});
+    inputRef.current?.focus();
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    search.reset();
+    inputRef.current?.focus();
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    const { text, caret } = mentionAutocomplete.pick(newMessage, candidate);
+    setNewMessage(text);
+    inputRef.current?.focus();
+    // Once the new text is in the input
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret));
+  };
+
+  // Puts the emoji where the caret was, keeping the picker open for more
+  const insertEmoji = (emoji: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? newMessage.length;
+    const end = input?.selectionEnd ?? start;
+    const caret = start + emoji.length;
+    setNewMessage(newMessage.slice(0, start) + emoji + newMessage.slice(end));
+    requestAnimationFrame(() => input?.setSelectionRange(caret, caret));
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const mentionKey = mentionAutocomplete.handleKeyDown(e);
+    if (typeof mentionKey === 'object') {
+      insertMention(mentionKey);
+      return;
+    }
+    if (mentionKey || e.key !== 'Escape') return;
+    if (editingMessage) {
+      cancelEdit();
+    } else if (replyingTo) {
+      setReplyingTo(null);
+    }
+  };
+
+  const handleUnstar = async (messageId: string) => {
+    try {
+      await unstarMessage(user.uid, messageId);
+    } catch (error) {
+      console.error('Error unstarring message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unstar message",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Scroll to a message, loading older pages until it is in the list.
+  // Messages deleted for everyone or for this user aren't shown, so there is
+  // nothing to scroll to; a star left on one can be removed from the toast
+  const jumpToMessage = async (messageId: string) => {
+    let target: Message | null;
+    try {
+      target = await history.loadUntil(messageId);
+    } catch (error) {
+      console.error('Error loading message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the message",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!target || !isMessageVisibleTo(target, user?.uid || '')) {
+      toast({
+        title: "Message unavailable",
+        description: target ? "This message was deleted" : "The original message could not be found",
+        variant: "destructive",
+        action: user && starredIds.has(messageId) ? (
+          <ToastAction altText="Unstar message" onClick={() => handleUnstar(messageId)}>
+            Unstar
+          </ToastAction>
+        ) : undefined
+      });
+      return;
     }
+    setHighlightedMessageId(messageId);
   };
 
-  if (loading) {
+  // Kept current for the effect below, which should only run for a new focus
+  // request rather than for every new callback
+  const focusHandlers = useRef({ jumpToMessage, onFocusHandled });
+  focusHandlers.current = { jumpToMessage, onFocusHandled };
+
+  useEffect(() => {
+    if (!focusMessageId || chat?.id !== chatId || history.loading) return;
+
+    focusHandlers.current.jumpToMessage(focusMessageId);
+    focusHandlers.current.onFocusHandled?.();
+  }, [focusMessageId, chat, chatId, history.loading]);
+
+  if (!chat || history.loading) {
     return (
       <div className="flex-1 flex items-center justify-center bg-background">
         <div className="text-center">
@@ -227,109 +653,271 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack }) => {
             </Button>
           )}
           <Avatar className="h-8 w-8 md:h-10 md:w-10">
-            <AvatarImage src={otherUser?.photoURL} />
+            <AvatarImage src={isGroup ? undefined : getVisiblePhotoURL(otherProfile, viewer)} />
             <AvatarFallback className="bg-primary text-primary-foreground">
               {otherUser?.displayName?.[0]?.toUpperCase()}
             </AvatarFallback>
           </Avatar>
           <div className="flex-1">
-            <h3 className="font-semibold text-foreground text-sm md:text-base">
+            <h3 className="font-semibold text-foreground text-sm md:text-base flex items-center gap-1">
               {otherUser?.displayName || 'Unknown User'}
+              {isMuted && <BellOff className="h-3 w-3 text-muted-foreground" aria-label="Muted" />}
             </h3>
             <div className="flex items-center space-x-2">
-              {!isGroup && otherUser?.isOnline && (
-                <div className="w-2 h-2 bg-status-online rounded-full"></div>
-              )}
+              {!isGroup && <PresenceDot presence={otherUserPresence} className="w-2 h-2" />}
               <p className="text-xs md:text-sm text-muted-foreground">
                 {isGroup 
                   ? 'Group Chat' 
-                  : (otherUser?.isOnline ? 'Online' : 'Offline')
+                  : getPresenceLabel(otherUserPresence)
                 }
               </p>
             </div>
           </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => isSearchOpen ? closeSearch() : setIsSearchOpen(true)}
+            className="p-2"
+            title="Search in conversation (Ctrl+F)"
+          >
+            <Search className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsStarredOpen(true)}
+            className="p-2"
+            title="Starred messages"
+          >
+            <Star className="h-4 w-4" />
+          </Button>
+          <ConversationMenu chatId={chatId} chatSettings={chatSettings} />
         </div>
       </div>
 
+      {isSearchOpen && (
+        <ChatSearchBar
+          query={search.query}
+          onQueryChange={search.setQuery}
+          activeIndex={search.activeIndex}
+          matchCount={search.matchCount}
+          hasMore={search.hasMore}
+          isSeeking={search.isSeeking}
+          onNext={search.next}
+          onPrevious={search.previous}
+          onClose={closeSearch}
+        />
+      )}
+
+      <StarredMessagesDialog
+        isOpen={isStarredOpen}
+        onClose={() => setIsStarredOpen(false)}
+        chatId={chatId}
+        onSelect={(entry) => {
+          setIsStarredOpen(false);
+          jumpToMessage(entry.messageId);
+        }}
+      />
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-3 md:p-4 space-y-4">
-        {messages.length === 0 ? (
-          <div className="text-center text-muted-foreground py-8">
-            <p className="text-sm md:text-base">No messages yet. Start the conversation!</p>
-          </div>
-        ) : (
-          messages.map((message) => {
-            const isOwn = message.senderId === user?.uid;
-            
-            return (
-              <div
-                key={message.id}
-                className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
-              >
-                <div className={`flex space-x-2 max-w-[280px] md:max-w-xs lg:max-w-md ${isOwn ? 'flex-row-reverse space-x-reverse' : ''}`}>
-                  {!isOwn && (
-                    <Avatar className="h-6 w-6 md:h-8 md:w-8 mt-auto flex-shrink-0">
-                      <AvatarImage src={message.senderAvatar} />
-                      <AvatarFallback className="bg-primary text-primary-foreground text-xs">
-                        {message.senderName?.[0]?.toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
-                  
-                  <MessageActions 
-                    message={message} 
-                    chatId={chatId} 
-                    isGroup={isGroup}
-                  >
-                    <div className={`
-                      rounded-lg px-3 py-2 relative
-                      ${isOwn 
-                        ? 'bg-message-own text-primary-foreground' 
-                        : 'bg-message-bubble text-foreground'
-                      }
-                    `}>
-                      {isGroup && !isOwn && (
-                        <p className="text-xs font-medium mb-1 text-primary">
-                          {message.senderName}
-                        </p>
-                      )}
-                      <p className="text-sm break-words">{message.text}</p>
-                      <div className="flex items-center justify-end space-x-1 mt-1">
-                        <p className={`text-xs ${isOwn ? 'text-primary-foreground/70' : 'text-message-timestamp'}`}>
-                          {formatMessageTime(message.timestamp)}
-                        </p>
-                        {getMessageStatusIcon(message)}
-                      </div>
-                    </div>
-                  </MessageActions>
-                </div>
-              </div>
-            );
-          })
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+      <MessageList
+        chat={chat}
+        messages={messages}
+        participants={participants}
+        currentUserId={user?.uid || ''}
+        memberNames={memberNames}
+        hasMore={history.hasMore}
+        loadingOlder={history.loadingOlder}
+        onLoadOlder={history.loadOlder}
+        onMessagesSeen={markSeen}
+        highlightedMessageId={highlightedMessageId || search.activeMessageId}
+        starredIds={starredIds}
+        sendStates={sendStates}
+        onRetry={outbox.retry}
+        onDiscard={outbox.discard}
+        searchTerm={isSearchOpen ? search.term : undefined}
+        onReply={handleReply}
+        onEdit={handleEdit}
+        onQuoteClick={jumpToMessage}
+      />
 
       {/* Typing Indicator */}
       <TypingDisplay chatId={chatId} />
 
       {/* Message Input */}
       <div className="p-3 md:p-4 border-t border-border bg-card">
+        {replyingTo && (
+          <div className="flex items-start gap-2 mb-2 rounded-md border-l-4 border-primary bg-secondary px-3 py-2">
+            <Reply className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-primary">
+                Replying to {replyingTo.senderId === user?.uid ? 'yourself' : replyingTo.senderName}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">{getMessagePreview(replyingTo)}</p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setReplyingTo(null)}
+              className="h-6 w-6 p-0"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        {editingMessage && (
+          <div className="flex items-start gap-2 mb-2 rounded-md border-l-4 border-primary bg-secondary px-3 py-2">
+            <Pencil className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-primary">Editing message</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {decodeMentions(editingMessage.text, editingMessage.mentions)}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={cancelEdit}
+              className="h-6 w-6 p-0"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        {pendingUpload && (
+          <div className="flex items-center gap-2 mb-2 rounded-md bg-secondary px-3 py-2">
+            <Paperclip className="h-4 w-4 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-xs text-muted-foreground truncate">Uploading {pendingUpload.name}</p>
+              <Progress value={pendingUpload.progress * 100} className="h-1" />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={pendingUpload.cancel}
+              className="h-6 w-6 p-0"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        {voicePreview && (
+          <div className="flex items-center gap-2 mb-2 rounded-md bg-secondary px-3 py-2">
+            <div className="flex-1 min-w-0">
+              <VoiceNotePlayer
+                src={voicePreview.url}
+                duration={voicePreview.duration}
+                waveform={voicePreview.waveform}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setVoicePreview(null)}
+              className="h-8 w-8 p-0"
+              title="Discard"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleSendVoice}
+              disabled={!!pendingUpload}
+              className="h-8 w-8 p-0"
+              title="Send voice message"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <MentionSuggestions
+          suggestions={mentionAutocomplete.suggestions}
+          activeIndex={mentionAutocomplete.activeIndex}
+          photoOf={privacyView.photoOf}
+          onHover={mentionAutocomplete.setActiveIndex}
+          onPick={insertMention}
+        />
         <form onSubmit={handleSendMessage} className="flex space-x-2">
-          <Input
-            type="text"
-            placeholder="Type a message..."
-            value={newMessage}
-            onChange={handleInputChange}
-            className="flex-1 text-sm md:text-base"
-          />
+          {isFileSharingEnabled && !editingMessage && (
+            <>
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleFileSelected}
+                accept={adminSettings.attachmentLimits.allowedTypes.join(',')}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!!pendingUpload}
+                className="px-2"
+                title="Attach a file"
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {!voiceRecorder.isRecording && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button type="button" variant="ghost" size="sm" className="px-2" title="Emoji">
+                  <Smile className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" side="top" className="w-auto p-2">
+                <EmojiPicker onSelect={insertEmoji} />
+              </PopoverContent>
+            </Popover>
+          )}
+          {voiceRecorder.isRecording ? (
+            <div className="flex flex-1 items-center gap-2 px-3 text-sm text-muted-foreground">
+              <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+              <span className="text-foreground">{formatDuration(voiceRecorder.elapsed)}</span>
+              <span className="truncate">Release to stop recording</span>
+            </div>
+          ) : (
+            <Input
+              type="text"
+              placeholder="Type a message..."
+              ref={inputRef}
+              value={newMessage}
+              onChange={handleInputChange}
+              onKeyDown={handleInputKeyDown}
+              onBlur={mentionAutocomplete.close}
+              className="flex-1 text-sm md:text-base"
+            />
+          )}
+          {isVoiceEnabled && !editingMessage && (
+            <Button
+              type="button"
+              variant={voiceRecorder.isRecording ? 'destructive' : 'ghost'}
+              size="sm"
+              onPointerDown={handleRecordStart}
+              onPointerUp={handleRecordEnd}
+              onPointerCancel={voiceRecorder.cancel}
+              onContextMenu={(e) => e.preventDefault()}
+              disabled={!!pendingUpload || !!voicePreview}
+              className="px-2 touch-none select-none"
+              title="Hold to record a voice message"
+            >
+              <Mic className="h-4 w-4" />
+            </Button>
+          )}
           <Button 
             type="submit" 
             disabled={!newMessage.trim()}
             className="bg-primary hover:bg-primary-glow px-3 md:px-4"
             size="sm"
           >
-            <span className="text-xs md:text-sm">Send</span>
+            <span className="text-xs md:text-sm">{editingMessage ? 'Save' : 'Send'}</span>
           </Button>
         </form>
       </div>
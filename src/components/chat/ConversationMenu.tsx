@@ -0,0 +1,121 @@
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  MAX_PINNED_CHATS,
+  MUTE_OPTIONS,
+  getMutedUntil,
+  getPinnedCount,
+  isChatArchived,
+  isChatMuted,
+  isChatPinned,
+  setChatArchived,
+  setChatMuted,
+  setChatPinned,
+  type ChatSettingsMap
+} from '@/lib/chat';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { Archive, ArchiveRestore, Bell, BellOff, MoreVertical, Pin, PinOff } from 'lucide-react';
+
+interface ConversationMenuProps {
+  chatId: string;
+  chatSettings: ChatSettingsMap;
+  className?: string;
+}
+
+// Pin, mute and archive for one conversation; these only affect the current user
+export const ConversationMenu: React.FC<ConversationMenuProps> = ({ chatId, chatSettings, className = '' }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isPinned = isChatPinned(chatSettings, chatId);
+  const isMuted = isChatMuted(chatSettings, chatId);
+  const isArchived = isChatArchived(chatSettings, chatId);
+
+  const run = async (update: (uid: string) => Promise<void>) => {
+    if (!user) return;
+
+    try {
+      await update(user.uid);
+    } catch (error) {
+      console.error('Error updating chat settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update this conversation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePin = () => {
+    if (!isPinned && getPinnedCount(chatSettings) >= MAX_PINNED_CHATS) {
+      toast({
+        title: "Can't pin conversation",
+        description: `You can pin up to ${MAX_PINNED_CHATS} conversations`,
+        variant: "destructive"
+      });
+      return;
+    }
+    run(uid => setChatPinned(uid, chatId, !isPinned));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => e.stopPropagation()}
+          className={`h-8 w-8 p-0 ${className}`}
+          title="Conversation options"
+        >
+          <MoreVertical className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      {/* Keeps clicks from reaching the list item behind the menu */}
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        {!isArchived && (
+          <DropdownMenuItem onClick={handlePin}>
+            {isPinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+            {isPinned ? 'Unpin' : 'Pin'}
+          </DropdownMenuItem>
+        )}
+        {isMuted ? (
+          <DropdownMenuItem onClick={() => run(uid => setChatMuted(uid, chatId, null))}>
+            <Bell className="h-4 w-4 mr-2" />
+            Unmute
+          </DropdownMenuItem>
+        ) : (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <BellOff className="h-4 w-4 mr-2" />
+              Mute
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {MUTE_OPTIONS.map(({ label, duration }) => (
+                <DropdownMenuItem
+                  key={label}
+                  onClick={() => run(uid => setChatMuted(uid, chatId, getMutedUntil(duration)))}
+                >
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+        <DropdownMenuItem onClick={() => run(uid => setChatArchived(uid, chatId, !isArchived))}>
+          {isArchived ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+          {isArchived ? 'Unarchive' : 'Archive'}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useMemo, useState } from 'react';
+import { EMOJI_CATEGORIES, searchEmoji } from '@/lib/emoji';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Search } from 'lucide-react';
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  // Emoji shown as already chosen, e.g. the user's reactions
+  selected?: string[];
+}
+
+// Searchable emoji grid, meant to sit inside a popover
+export const EmojiPicker: React.FC<EmojiPickerProps> = ({ onSelect, selected = [] }) => {
+  const [query, setQuery] = useState('');
+  const [categoryId, setCategoryId] = useState(EMOJI_CATEGORIES[0].id);
+
+  const results = useMemo(() => (query.trim() ? searchEmoji(query) : null), [query]);
+  const category = EMOJI_CATEGORIES.find(({ id }) => id === categoryId) || EMOJI_CATEGORIES[0];
+  const emojis = results || category.emojis;
+
+  return (
+    <div className="w-72 space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          autoFocus
+          placeholder="Search emoji"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="h-8 pl-8 text-sm"
+        />
+      </div>
+
+      {!results && (
+        <div className="flex justify-between border-b border-border pb-1">
+          {EMOJI_CATEGORIES.map(({ id, label, icon }) => (
+            <button
+              key={id}
+              type="button"
+              title={label}
+              onClick={() => setCategoryId(id)}
+              className={`h-7 w-7 rounded text-base transition-colors ${
+                id === categoryId ? 'bg-accent' : 'opacity-60 hover:opacity-100'
+              }`}
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">{results ? 'Search results' : category.label}</p>
+      <ScrollArea className="h-48">
+        {emojis.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No emoji found</p>
+        ) : (
+          <div className="grid grid-cols-8 gap-0.5">
+            {emojis.map(({ emoji, name }) => (
+              <button
+                key={emoji}
+                type="button"
+                title={name}
+                onClick={() => onSelect(emoji)}
+                className={`h-8 w-8 rounded text-lg hover:bg-accent ${selected.includes(emoji) ? 'bg-primary/20' : ''}`}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
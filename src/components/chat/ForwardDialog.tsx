@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAdmin } from '@/contexts/AdminContext';
+import { useOutbox } from '@/hooks/useOutbox';
+import {
+  subscribeToUserChats,
+  getGroupInfo,
+  getOtherParticipantId,
+  getVisiblePhotoURL,
+  directChat,
+  groupChat,
+  getParticipants,
+  getRecipientIds,
+  getForwardLimit,
+  getForwardBlockReason,
+  getForwardAllowance,
+  recordForwards,
+  toForwardedMessage,
+  type ForwardTarget,
+  type Group,
+  type Message,
+  type UserChat
+} from '@/lib/chat';
+import { usePrivacyViewer, useProfiles } from '@/hooks/usePrivacy';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { Forward, Users } from 'lucide-react';
+
+interface ForwardDialogProps {
+  message: Message;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Lists the user's conversations only while open
+const ForwardTargets: React.FC<Omit<ForwardDialogProps, 'isOpen'>> = ({ message, onClose }) => {
+  const { user, userProfile } = useAuth();
+  const { adminSettings } = useAdmin();
+  const outbox = useOutbox();
+  const viewer = usePrivacyViewer();
+  const { toast } = useToast();
+  const [userChats, setUserChats] = useState<UserChat[]>([]);
+  // Group details by id, null for groups that no longer exist
+  const [groups, setGroups] = useState<Record<string, Group | null>>({});
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isForwarding, setIsForwarding] = useState(false);
+  const limit = getForwardLimit(message);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToUserChats(user.uid, setUserChats);
+  }, [user]);
+
+  // Groups come from the same index; only the details of the user's own are
+  // read, and again only when the list of groups changes
+  const groupIdList = userChats.filter(chat => chat.isGroup).map(chat => chat.chatId).join(',');
+  const groupIds = useMemo(() => (groupIdList ? groupIdList.split(',') : []), [groupIdList]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(groupIds.map(getGroupInfo))
+      .then((infos) => {
+        if (!cancelled) setGroups(Object.fromEntries(groupIds.map((id, i) => [id, infos[i]])));
+      })
+      .catch((error) => {
+        console.error('Error loading groups:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupIds]);
+
+  const otherUserIds = user
+    ? userChats.filter(chat => !chat.isGroup).map(chat => getOtherParticipantId(chat.chatId, user.uid)).filter(Boolean)
+    : [];
+  const profiles = useProfiles(otherUserIds);
+
+  // Most recently active first
+  const targets = useMemo(() => {
+    const uid = user?.uid || '';
+    const entries = userChats.flatMap(({ chatId, isGroup, lastActivity }) => {
+      if (isGroup) {
+        const group = groups[chatId];
+        if (!group || group.isDeleted || !group.members?.[uid] || group.members[uid].isBanned) return [];
+        return [{ target: { chat: groupChat(chatId), name: group.name, group } as ForwardTarget, activity: lastActivity }];
+      }
+
+      const profile = profiles[getOtherParticipantId(chatId, uid)];
+      if (!profile) return [];
+      const target: ForwardTarget = {
+        chat: directChat(chatId),
+        name: profile.displayName,
+        photoURL: getVisiblePhotoURL(profile, viewer),
+        user: profile
+      };
+      return [{ target, activity: lastActivity }];
+    });
+
+    return entries
+      .sort((a, b) => b.activity - a.activity)
+      .map(({ target }) => target);
+  }, [userChats, groups, profiles, user, viewer]);
+
+  const shown = targets.filter(target => target.name?.toLowerCase().includes(query.trim().toLowerCase()));
+
+  const toggle = (chatId: string) => {
+    setSelected(prev => (prev.includes(chatId)
+      ? prev.filter(id => id !== chatId)
+      : prev.length < limit ? [...prev, chatId] : prev));
+  };
+
+  const handleForward = async () => {
+    if (!user || !userProfile) return;
+
+    const chosen = targets.filter(target => selected.includes(target.chat.id));
+    // Settings may have changed since the list was drawn
+    const allowed = chosen.filter(target => !getForwardBlockReason(message, target, adminSettings));
+    const forwarded = toForwardedMessage(message, {
+      senderId: user.uid,
+      senderName: userProfile.displayName,
+      senderAvatar: userProfile.photoURL
+    });
+
+    setIsForwarding(true);
+    try {
+      const allowance = await getForwardAllowance(user.uid);
+      if (allowance < allowed.length) {
+        toast({
+          title: "Forwarding limit reached",
+          description: allowance === 0
+            ? "You've forwarded a lot of messages recently. Try again later."
+            : `You can forward to ${allowance} more ${allowance === 1 ? 'chat' : 'chats'} right now.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      await recordForwards(user.uid, allowed.length);
+    } catch (error) {
+      console.error('Error forwarding message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to forward message",
+        variant: "destructive"
+      });
+      return;
+    } finally {
+      setIsForwarding(false);
+    }
+
+    allowed.forEach(({ chat, group }) => {
+      const participants = getParticipants(chat, group);
+      outbox.enqueue(chat, forwarded, getRecipientIds({ senderId: user.uid, timestamp: 0 }, participants));
+    });
+
+    if (allowed.length < chosen.length) {
+      toast({
+        title: "Some chats were skipped",
+        description: "The message can't be forwarded there right now",
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Message forwarded",
+        description: `Sent to ${allowed.length === 1 ? allowed[0].name : `${allowed.length} chats`}`
+      });
+    }
+    onClose();
+  };
+
+  return (
+    <>
+      <Input
+        placeholder="Search chats and groups"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        autoFocus
+      />
+
+      <ScrollArea className="max-h-80">
+        {shown.length === 0 ? (
+          <p className="p-4 text-center text-sm text-muted-foreground">No conversations found</p>
+        ) : (
+          <div className="space-y-1">
+            {shown.map((target) => {
+              const blockReason = getForwardBlockReason(message, target, adminSettings);
+              const isSelected = selected.includes(target.chat.id);
+              const isFull = !isSelected && selected.length >= limit;
+
+              return (
+                <label
+                  key={target.chat.id}
+                  className={`flex items-center space-x-3 rounded-lg p-2 ${
+                    blockReason || isFull ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-secondary/50'
+                  }`}
+                >
+                  <Checkbox
+                    checked={isSelected}
+                    disabled={!!blockReason || isFull}
+                    onCheckedChange={() => toggle(target.chat.id)}
+                  />
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={target.photoURL} />
+                    <AvatarFallback className="bg-primary text-primary-foreground text-sm">
+                      {target.chat.isGroup ? <Users className="h-4 w-4" /> : target.name?.[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{target.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {blockReason || (target.chat.isGroup ? 'Group' : 'Chat')}
+                    </p>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {selected.length}/{limit} selected
+        </p>
+        <Button onClick={handleForward} disabled={selected.length === 0 || isForwarding} size="sm">
+          <Forward className="h-4 w-4 mr-2" />
+          Forward
+        </Button>
+      </div>
+    </>
+  );
+};
+
+export const ForwardDialog: React.FC<ForwardDialogProps> = ({ message, isOpen, onClose }) => (
+  <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="max-w-md">
+      <DialogHeader>
+        <DialogTitle>Forward message</DialogTitle>
+        <DialogDescription>
+          {getForwardLimit(message) === 1
+            ? 'This message has been forwarded many times, so it can only go to one chat at a time.'
+            : `Choose up to ${getForwardLimit(message)} chats.`}
+        </DialogDescription>
+      </DialogHeader>
+      {isOpen && <ForwardTargets message={message} onClose={onClose} />}
+    </DialogContent>
+  </Dialog>
+);
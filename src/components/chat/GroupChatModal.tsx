@@ -1,21 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { ref, push, get, serverTimestamp } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { getUsers, createGroup as createGroupRecord, type UserProfile } from '@/lib/chat';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Checkbox } from '@/components/ui/checkbox';
 
-interface User {
-  uid: string;
-  displayName: string;
-  email: string;
-  photoURL?: string;
-}
-
 interface GroupChatModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -29,7 +21,7 @@ export const GroupChatModal: React.FC<GroupChatModalProps> = ({
 }) => {
   const { user, userProfile } = useAuth();
   const [groupName, setGroupName] = useState('');
-  const [users, setUsers] = useState<User[]>([]);
+  const [users, setUsers] = useState<UserProfile[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -42,14 +34,8 @@ export const GroupChatModal: React.FC<GroupChatModalProps> = ({
   const loadUsers = async () => {
     if (!user) return;
     
-    const usersRef = ref(database, 'users');
-    const snapshot = await get(usersRef);
-    
-    if (snapshot.exists()) {
-      const usersData = snapshot.val();
-      const usersList = Object.values(usersData) as User[];
-      setUsers(usersList.filter(u => u.uid !== user.uid));
-    }
+    const usersList = await getUsers();
+    setUsers(usersList.filter(u => u.uid !== user.uid));
   };
 
   const handleUserSelect = (userId: string) => {
@@ -65,26 +51,9 @@ export const GroupChatModal: React.FC<GroupChatModalProps> = ({
     
     setLoading(true);
     try {
-      const groupsRef = ref(database, 'groups');
-      const groupRef = await push(groupsRef, {
-        name: groupName.trim(),
-        createdBy: user.uid,
-        createdAt: serverTimestamp(),
-        members: {
-          [user.uid]: {
-            role: 'admin',
-            joinedAt: serverTimestamp()
-          },
-          ...Object.fromEntries(
-            selectedUsers.map(userId => [
-              userId,
-              { role: 'member', joinedAt: serverTimestamp() }
-            ])
-          )
-        }
-      });
+      const groupId = await createGroupRecord(groupName.trim(), user.uid, selectedUsers);
       
-      onGroupCreated(groupRef.key!);
+      onGroupCreated(groupId);
       onClose();
       setGroupName('');
       setSelectedUsers([]);
@@ -2,42 +2,49 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAdmin } from '@/contexts/AdminContext';
-import { ref, onValue, off, get } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import {
+  subscribeToGroups,
+  isGroupMember,
+  isChatArchived,
+  isChatMuted,
+  isChatPinned,
+  sortPinnedFirst,
+  type ChatSettingsMap,
+  type Group,
+  type UnreadCounts
+} from '@/lib/chat';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
-import { Users, Crown, Trash2, Settings } from 'lucide-react';
+import { Users, Crown, Trash2, Settings, BellOff, Pin } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { cacheKeys, readCache, writeCache } from '@/lib/cache';
 import { GroupMemberManager } from '@/components/admin/GroupMemberManager';
 import { UserProfile } from './UserProfile';
+import { UnreadBadge } from './UnreadBadge';
+import { TypingPreview } from './TypingIndicator';
+import { ConversationMenu } from './ConversationMenu';
+import { ArchivedSection } from './ArchivedSection';
 
-interface Group {
-  id: string;
-  name: string;
-  members: { [key: string]: { role: string; joinedAt: number } };
-  createdBy: string;
-  createdAt: number;
-  lastMessage?: {
-    text: string;
-    timestamp: number;
-    sender: string;
-    senderName: string;
-  };
-  isDeleted?: boolean;
-  isDisabled?: boolean;
-  disabledUntil?: number;
-}
+// The group node also holds its messages, which the list doesn't need
+const toCachedGroup = (group: Group): Group => {
+  const { messages: _messages, ...rest } = group as Group & { messages?: unknown };
+  return rest;
+};
 
 interface GroupListProps {
   selectedChat: string | null;
+  unreadCounts: UnreadCounts;
+  chatSettings: ChatSettingsMap;
   onSelectChat: (chatId: string) => void;
 }
 
 export const GroupList: React.FC<GroupListProps> = ({
   selectedChat,
+  unreadCounts,
+  chatSettings,
   onSelectChat
 }) => {
   const { user } = useAuth();
@@ -50,50 +57,50 @@ export const GroupList: React.FC<GroupListProps> = ({
   useEffect(() => {
     if (!user) return;
 
-    const groupsRef = ref(database, 'groups');
-    
-    const handleGroupsChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const groupsList = Object.entries(data)
-          .map(([id, group]: [string, any]) => ({
-            id,
-            ...group
-          }))
-          .filter((group: Group) => !group.isDeleted) as Group[];
-        
-        // For admin, show all groups. For users, show only groups they're members of
-        const userGroups = isAdmin 
-          ? groupsList 
-          : groupsList.filter(group => {
-              if (!group.members) return false;
-              return Object.keys(group.members).includes(user.uid);
-            });
-        
-        // Sort by last activity
-        userGroups.sort((a, b) => {
-          const aTime = a.lastMessage?.timestamp || a.createdAt || 0;
-          const bTime = b.lastMessage?.timestamp || b.createdAt || 0;
-          return bTime - aTime;
-        });
-        
-        setGroups(userGroups);
-      } else {
-        setGroups([]);
-      }
+    let cancelled = false;
+    let live = false;
+
+    // Show the groups from the last visit until the live list arrives
+    readCache<Group[]>(user.uid, cacheKeys.groups()).then((cached) => {
+      if (cancelled || live || !cached) return;
+      setGroups(cached);
       setLoading(false);
-    };
+    });
 
-    onValue(groupsRef, handleGroupsChange);
+    const unsubscribe = subscribeToGroups((allGroups) => {
+      live = true;
+      const groupsList = allGroups.filter(group => !group.isDeleted);
+      
+      // For admin, show all groups. For users, show only groups they're members of
+      const userGroups = isAdmin 
+        ? groupsList 
+        : groupsList.filter(group => isGroupMember(group, user.uid));
+      
+      // Sort by last activity
+      userGroups.sort((a, b) => {
+        const aTime = a.lastMessage?.timestamp || a.createdAt || 0;
+        const bTime = b.lastMessage?.timestamp || b.createdAt || 0;
+        return bTime - aTime;
+      });
+      
+      setGroups(userGroups);
+      setLoading(false);
+      writeCache(user.uid, cacheKeys.groups(), userGroups.map(toCachedGroup));
+    });
 
     return () => {
-      off(groupsRef, 'value', handleGroupsChange);
+      cancelled = true;
+      unsubscribe();
     };
   }, [user, isAdmin]);
 
-  const filteredGroups = groups.filter(group =>
-    group.name.toLowerCase().includes(searchQuery.toLowerCase())
+  const filteredGroups = sortPinnedFirst(
+    groups.filter(group => group.name.toLowerCase().includes(searchQuery.toLowerCase())),
+    chatSettings,
+    group => group.id
   );
+  const activeGroups = filteredGroups.filter(group => !isChatArchived(chatSettings, group.id));
+  const archivedGroups = filteredGroups.filter(group => isChatArchived(chatSettings, group.id));
 
   const handleDeleteGroup = async (groupId: string, groupName: string) => {
     if (!isAdmin) return;
@@ -125,11 +132,131 @@ export const GroupList: React.FC<GroupListProps> = ({
     return `${Math.floor(diff / 86400000)}d ago`;
   };
 
-  const getMemberCount = (members: { [key: string]: any }) => {
+  const getMemberCount = (members: Group['members']) => {
     if (!members) return 0;
     return Object.keys(members).length;
   };
 
+  const renderGroup = (group: Group) => {
+    const isSelected = selectedChat === group.id;
+    const memberCount = getMemberCount(group.members);
+    const isCreator = group.createdBy === user?.uid;
+    const unreadCount = unreadCounts[group.id]?.count || 0;
+    const isMuted = isChatMuted(chatSettings, group.id);
+
+    return (
+      <div
+        key={group.id}
+        className={`
+          flex items-center space-x-3 p-2 md:p-3 rounded-lg cursor-pointer transition-colors relative group/item
+          ${isSelected 
+            ? 'bg-primary/20 border border-primary/30' 
+            : 'hover:bg-secondary/50'
+          }
+        `}
+        onClick={() => onSelectChat(group.id)}
+      >
+        <div className="relative">
+          <Avatar className="h-10 w-10 md:h-12 md:w-12">
+            <AvatarFallback className="bg-primary text-primary-foreground text-sm">
+              <Users className="h-5 w-5" />
+            </AvatarFallback>
+          </Avatar>
+          {isCreator && (
+            <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-yellow-500 rounded-full border-2 border-background flex items-center justify-center">
+              <Crown className="h-2 w-2 text-white" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <h3 className="font-medium text-foreground truncate text-sm md:text-base">
+                {group.name}
+              </h3>
+              <Badge variant="secondary" className="text-xs">
+                {memberCount} members
+              </Badge>
+              {group.isDisabled && (
+                <Badge variant="destructive" className="text-xs">
+                  Disabled
+                </Badge>
+              )}
+            </div>
+            {group.lastMessage && (
+              <span className={`text-xs flex-shrink-0 ${unreadCount ? 'text-primary font-medium' : 'text-muted-foreground'}`}>
+                {formatLastSeen(group.lastMessage.timestamp)}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <TypingPreview chatId={group.id}>
+              <p className={`text-xs md:text-sm truncate flex-1 ${unreadCount ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>
+                {group.lastMessage ? (
+                  <>
+                    <UserProfile
+                      userId={group.lastMessage.sender}
+                      trigger={
+                        <span className="hover:underline cursor-pointer">
+                          {group.lastMessage.senderName}:
+                        </span>
+                      }
+                    />
+                    {' '}{group.lastMessage.text}
+                  </>
+                ) : (
+                  'No messages yet'
+                )}
+              </p>
+            </TypingPreview>
+            {isMuted && <BellOff className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
+            {isChatPinned(chatSettings, group.id) && <Pin className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
+            {unreadCount > 0 && (
+              <UnreadBadge count={unreadCount} muted={isMuted} />
+            )}
+          </div>
+        </div>
+
+        <ConversationMenu
+          chatId={group.id}
+          chatSettings={chatSettings}
+          className="text-muted-foreground md:opacity-0 md:group-hover/item:opacity-100 focus-visible:opacity-100 transition-opacity"
+        />
+
+        {/* Admin Controls */}
+        {isAdmin && (
+          <div className="opacity-0 group-hover/item:opacity-100 transition-opacity flex space-x-1">
+            <GroupMemberManager
+              group={group}
+              trigger={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => e.stopPropagation()}
+                  className="h-8 w-8 p-0 text-primary hover:text-primary hover:bg-primary/10"
+                >
+                  <Settings className="h-4 w-4" />
+                </Button>
+              }
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDeleteGroup(group.id, group.name);
+              }}
+              className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full">
       {/* Search */}
@@ -156,112 +283,17 @@ export const GroupList: React.FC<GroupListProps> = ({
                 {searchQuery ? 'No groups found' : 'No groups available'}
               </div>
             ) : (
-              <div className="space-y-1">
-                {filteredGroups.map((group) => {
-                  const isSelected = selectedChat === group.id;
-                  const memberCount = getMemberCount(group.members);
-                  const isCreator = group.createdBy === user?.uid;
-                  
-                  return (
-                    <div
-                      key={group.id}
-                      className={`
-                        flex items-center space-x-3 p-2 md:p-3 rounded-lg cursor-pointer transition-colors relative group/item
-                        ${isSelected 
-                          ? 'bg-primary/20 border border-primary/30' 
-                          : 'hover:bg-secondary/50'
-                        }
-                      `}
-                      onClick={() => onSelectChat(group.id)}
-                    >
-                      <div className="relative">
-                        <Avatar className="h-10 w-10 md:h-12 md:w-12">
-                          <AvatarFallback className="bg-primary text-primary-foreground text-sm">
-                            <Users className="h-5 w-5" />
-                          </AvatarFallback>
-                        </Avatar>
-                        {isCreator && (
-                          <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-yellow-500 rounded-full border-2 border-background flex items-center justify-center">
-                            <Crown className="h-2 w-2 text-white" />
-                          </div>
-                        )}
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <h3 className="font-medium text-foreground truncate text-sm md:text-base">
-                              {group.name}
-                            </h3>
-                            <Badge variant="secondary" className="text-xs">
-                              {memberCount} members
-                            </Badge>
-                            {group.isDisabled && (
-                              <Badge variant="destructive" className="text-xs">
-                                Disabled
-                              </Badge>
-                            )}
-                          </div>
-                          {group.lastMessage && (
-                            <span className="text-xs text-muted-foreground">
-                              {formatLastSeen(group.lastMessage.timestamp)}
-                            </span>
-                          )}
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <p className="text-xs md:text-sm text-muted-foreground truncate flex-1">
-                            {group.lastMessage ? (
-                              <>
-                                <UserProfile
-                                  userId={group.lastMessage.sender}
-                                  trigger={
-                                    <span className="hover:underline cursor-pointer">
-                                      {group.lastMessage.senderName}:
-                                    </span>
-                                  }
-                                />
-                                {' '}{group.lastMessage.text}
-                              </>
-                            ) : (
-                              'No messages yet'
-                            )}
-                          </p>
-                        </div>
-                      </div>
-
-                      {/* Admin Controls */}
-                      {isAdmin && (
-                        <div className="opacity-0 group-hover/item:opacity-100 transition-opacity flex space-x-1">
-                          <GroupMemberManager
-                            group={group}
-                            trigger={
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={(e) => e.stopPropagation()}
-                                className="h-8 w-8 p-0 text-primary hover:text-primary hover:bg-primary/10"
-                              >
-                                <Settings className="h-4 w-4" />
-                              </Button>
-                            }
-                          />
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleDeleteGroup(group.id, group.name);
-                            }}
-                            className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
+              <>
+                <div className="space-y-1">
+                  {activeGroups.map(renderGroup)}
+                </div>
+                <ArchivedSection
+                  count={archivedGroups.length}
+                  unreadCount={archivedGroups.reduce((total, group) => total + (unreadCounts[group.id]?.count || 0), 0)}
+                >
+                  {archivedGroups.map(renderGroup)}
+                </ArchivedSection>
+              </>
             )}
           </div>
         )}
@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  // Case-insensitive substrings to mark
+  terms: string[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  const searchTerms = terms.filter(Boolean);
+  if (!text || searchTerms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${searchTerms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-300/80 text-black rounded-sm">{part}</mark>
+          : part
+      )}
+    </>
+  );
+};
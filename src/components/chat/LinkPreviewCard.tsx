@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { useLinkPreview } from '@/hooks/useLinkPreview';
+
+interface LinkPreviewCardProps {
+  url: string;
+  isOwn: boolean;
+}
+
+export const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url, isOwn }) => {
+  const preview = useLinkPreview(url);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  if (!preview) return null;
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`block mt-2 overflow-hidden rounded-md border-l-4 ${
+        isOwn ? 'border-primary-foreground/60 bg-primary-foreground/10' : 'border-primary bg-background/60'
+      }`}
+    >
+      {preview.image && !imageFailed && (
+        <img
+          src={preview.image}
+          alt=""
+          loading="lazy"
+          onError={() => setImageFailed(true)}
+          className="w-full max-h-40 object-cover"
+        />
+      )}
+      <div className="px-3 py-2 space-y-0.5">
+        {preview.siteName && (
+          <p className={`text-xs truncate ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+            {preview.siteName}
+          </p>
+        )}
+        {preview.title && <p className="text-sm font-medium line-clamp-2">{preview.title}</p>}
+        {preview.description && (
+          <p className={`text-xs line-clamp-3 ${isOwn ? 'text-primary-foreground/80' : 'text-muted-foreground'}`}>
+            {preview.description}
+          </p>
+        )}
+      </div>
+    </a>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/hooks/useOutbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+interface LogoutDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const LogoutDialog: React.FC<LogoutDialogProps> = ({ isOpen, onClose }) => {
+  const { logout } = useAuth();
+  const { entries } = useOutbox();
+  const [clearLocalData, setClearLocalData] = useState(false);
+
+  const handleLogout = async () => {
+    try {
+      await logout({ clearLocalData });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Log out?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Cached messages, the search index and unsent messages are kept on this device unless you clear them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="logout-clear-local-data"
+              checked={clearLocalData}
+              onCheckedChange={(checked) => setClearLocalData(checked === true)}
+            />
+            <Label htmlFor="logout-clear-local-data">Clear local data on this device</Label>
+          </div>
+          {clearLocalData && entries.length > 0 && (
+            <p className="text-sm text-destructive">
+              {entries.length === 1 ? '1 unsent message' : `${entries.length} unsent messages`} will be lost.
+            </p>
+          )}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleLogout}>Log out</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
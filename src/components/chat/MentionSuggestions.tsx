@@ -0,0 +1,61 @@
+import React from 'react';
+import { MENTION_ALL } from '@/lib/chat';
+import type { MentionCandidate } from '@/hooks/useMentionAutocomplete';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Users } from 'lucide-react';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  photoOf: (uid: string) => string | undefined;
+  onHover: (index: number) => void;
+  onPick: (candidate: MentionCandidate) => void;
+}
+
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({
+  suggestions,
+  activeIndex,
+  photoOf,
+  onHover,
+  onPick
+}) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div role="listbox" className="mb-2 rounded-md border border-border bg-popover py-1 shadow-md">
+      {suggestions.map((candidate, index) => (
+        <button
+          key={candidate.uid}
+          type="button"
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keeps focus in the input
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHover(index)}
+          onClick={() => onPick(candidate)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${
+            index === activeIndex ? 'bg-accent text-accent-foreground' : ''
+          }`}
+        >
+          {candidate.uid === MENTION_ALL ? (
+            <>
+              <span className="h-6 w-6 flex items-center justify-center rounded-full bg-secondary">
+                <Users className="h-3 w-3" />
+              </span>
+              <span className="font-medium">@all</span>
+              <span className="text-xs text-muted-foreground">Notify everyone in the group</span>
+            </>
+          ) : (
+            <>
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={photoOf(candidate.uid)} />
+                <AvatarFallback className="text-xs">{candidate.name[0]?.toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="truncate">{candidate.name}</span>
+            </>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
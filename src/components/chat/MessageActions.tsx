@@ -2,8 +2,19 @@
 import React, { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAdmin } from '@/contexts/AdminContext';
-import { ref, update, remove, push } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import {
+  toggleReaction,
+  getUserReactions,
+  deleteMessageForMe,
+  deleteMessageForEveryone,
+  pushNotification,
+  canEditMessage,
+  starMessage,
+  unstarMessage,
+  type ChatRef,
+  type Message,
+  type Participants
+} from '@/lib/chat';
 import { Button } from '@/components/ui/button';
 import { 
   ContextMenu,
@@ -13,47 +24,51 @@ import {
   ContextMenuSeparator
 } from '@/components/ui/context-menu';
 import { useToast } from '@/hooks/use-toast';
-import { Heart, Smile, ThumbsUp, Trash2 } from 'lucide-react';
-
-interface Message {
-  id: string;
-  text: string;
-  senderId: string;
-  timestamp: any;
-  senderName: string;
-  senderAvatar?: string;
-  status?: 'sent' | 'delivered' | 'seen';
-  reactions?: { [userId: string]: string };
-  deletedForEveryone?: boolean;
-  deletedFor?: string[];
-}
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { MessageInfoDialog } from './MessageInfoDialog';
+import { ForwardDialog } from './ForwardDialog';
+import { MessageReactions } from './MessageReactions';
+import { EmojiPicker } from './EmojiPicker';
+import { Forward, Info, Pencil, Plus, Reply, Star, StarOff, Trash2 } from 'lucide-react';
 
 interface MessageActionsProps {
   message: Message;
-  chatId: string;
-  isGroup: boolean;
+  chat: ChatRef;
+  participants: Participants;
+  isStarred?: boolean;
+  onReply?: () => void;
+  onEdit?: () => void;
   children: React.ReactNode;
 }
 
-const REACTIONS = ['❤️', '👍', '😂', '😮', '😢', '😡'];
-
 export const MessageActions: React.FC<MessageActionsProps> = ({ 
   message, 
-  chatId, 
-  isGroup, 
+  chat, 
+  participants,
+  isStarred = false,
+  onReply,
+  onEdit,
   children 
 }) => {
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
   const { adminSettings } = useAdmin();
   const { toast } = useToast();
+  const [showInfo, setShowInfo] = useState(false);
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+  const [showForward, setShowForward] = useState(false);
 
-  const canDeleteForEveryone = message.senderId === user?.uid;
+  const isOwn = message.senderId === user?.uid;
+  const canDeleteForEveryone = isOwn;
+  const canEdit = !!onEdit && !!user && canEditMessage(message, user.uid, adminSettings.messageEditWindowMinutes);
+  const myReactions = user ? getUserReactions(message, user.uid) : [];
   const isDeleted = message.deletedForEveryone || message.deletedFor?.includes(user?.uid || '');
 
   // Check if there are any actions available
   const hasReactions = adminSettings.featureFlags.enableMessageReactions;
   const hasDeletion = adminSettings.featureFlags.enableMessageDeletion;
-  const hasAnyActions = hasReactions || hasDeletion;
+  const canForward = !!user;
+  const canStar = !!user;
+  const hasAnyActions = hasReactions || hasDeletion || isOwn || !!onReply || canForward || canStar;
 
   const handleReaction = async (emoji: string) => {
     if (!user || !adminSettings.featureFlags.enableMessageReactions) {
@@ -65,45 +80,30 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
       return;
     }
 
-    const messagePath = isGroup 
-      ? `groups/${chatId}/messages/${message.id}`
-      : `chats/${chatId}/messages/${message.id}`;
+    setShowReactionPicker(false);
 
     try {
-      const currentReaction = message.reactions?.[user.uid];
-      const updates: any = {};
-      
-      if (currentReaction === emoji) {
-        // Remove reaction
-        updates[`reactions/${user.uid}`] = null;
-      } else {
-        // Add/change reaction
-        updates[`reactions/${user.uid}`] = emoji;
-      }
-
-      await update(ref(database, messagePath), updates);
+      // Tapping one of your reactions takes it back
+      const isAdded = await toggleReaction(chat, message, user.uid, emoji, adminSettings.reactions.allowMultiple);
 
-      // Send reaction notification to other users in chat
-      if (!isGroup) {
-        const otherUserId = chatId.split('_').find(id => id !== user.uid);
-        if (otherUserId) {
-          const notificationRef = ref(database, `notifications/${otherUserId}`);
-          await push(notificationRef, {
-            type: 'reaction',
-            from: user.uid,
-            fromName: user.displayName || 'Unknown User',
-            chatId,
-            messageId: message.id,
-            emoji,
-            timestamp: Date.now(),
-            action: currentReaction === emoji ? 'removed' : 'added'
-          });
-        }
+      // Let the sender know, unless it's their own message or the reaction was taken back
+      if (isAdded && message.senderId !== user.uid) {
+        await pushNotification(message.senderId, {
+          type: 'reaction',
+          from: user.uid,
+          fromName: userProfile?.displayName || user.displayName || 'Unknown User',
+          chatId: chat.id,
+          isGroup: chat.isGroup,
+          messageId: message.id,
+          emoji,
+          timestamp: Date.now(),
+          action: 'added'
+        });
       }
       
       toast({
-        title: currentReaction === emoji ? "Reaction removed" : "Reaction added",
-        description: `${emoji} reaction ${currentReaction === emoji ? 'removed' : 'added'}`
+        title: isAdded ? "Reaction added" : "Reaction removed",
+        description: `${emoji} reaction ${isAdded ? 'added' : 'removed'}`
       });
     } catch (error) {
       console.error('Error updating reaction:', error);
@@ -115,6 +115,30 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
     }
   };
 
+  const handleToggleStar = async () => {
+    if (!user) return;
+
+    try {
+      if (isStarred) {
+        await unstarMessage(user.uid, message.id);
+      } else {
+        await starMessage(user.uid, chat, message);
+      }
+
+      toast({
+        title: isStarred ? "Message unstarred" : "Message starred",
+        description: isStarred ? "Removed from your starred messages" : "Added to your starred messages"
+      });
+    } catch (error) {
+      console.error('Error updating starred message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update starred message",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleDeleteForMe = async () => {
     if (!user || !adminSettings.featureFlags.enableMessageDeletion) {
       toast({
@@ -125,17 +149,8 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
       return;
     }
 
-    const messagePath = isGroup 
-      ? `groups/${chatId}/messages/${message.id}`
-      : `chats/${chatId}/messages/${message.id}`;
-
     try {
-      const deletedFor = message.deletedFor || [];
-      const updatedDeletedFor = [...deletedFor, user.uid];
-      
-      await update(ref(database, messagePath), { 
-        deletedFor: updatedDeletedFor 
-      });
+      await deleteMessageForMe(chat, message, user.uid);
       
       toast({
         title: "Message deleted",
@@ -161,15 +176,8 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
       return;
     }
 
-    const messagePath = isGroup 
-      ? `groups/${chatId}/messages/${message.id}`
-      : `chats/${chatId}/messages/${message.id}`;
-
     try {
-      await update(ref(database, messagePath), { 
-        deletedForEveryone: true,
-        text: "This message was deleted"
-      });
+      await deleteMessageForEveryone(chat, message.id, user.uid);
       
       toast({
         title: "Message deleted",
@@ -199,99 +207,132 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
       <div className="relative group">
         {children}
         
-        {/* Reaction Display */}
-        {message.reactions && Object.keys(message.reactions).length > 0 && (
-          <div className="flex flex-wrap gap-1 mt-1">
-            {Object.entries(
-              Object.values(message.reactions).reduce((acc: any, emoji) => {
-                acc[emoji] = (acc[emoji] || 0) + 1;
-                return acc;
-              }, {})
-            ).map(([emoji, count]) => (
-              <div
-                key={emoji}
-                className="text-xs px-2 py-1 rounded-full border bg-background border-border"
-              >
-                {emoji} {String(count)}
-              </div>
-            ))}
-          </div>
-        )}
+        <MessageReactions message={message} currentUserId={user?.uid} />
       </div>
     );
   }
 
   return (
-    <ContextMenu>
-      <ContextMenuTrigger asChild>
-        <div className="relative group">
-          {children}
-          
-          {/* Reaction Display */}
-          {adminSettings.featureFlags.enableMessageReactions && message.reactions && Object.keys(message.reactions).length > 0 && (
-            <div className="flex flex-wrap gap-1 mt-1">
-              {Object.entries(
-                Object.values(message.reactions).reduce((acc: any, emoji) => {
-                  acc[emoji] = (acc[emoji] || 0) + 1;
-                  return acc;
-                }, {})
-              ).map(([emoji, count]) => (
-                <button
-                  key={emoji}
-                  onClick={() => handleReaction(emoji)}
-                  className={`text-xs px-2 py-1 rounded-full border transition-colors ${
-                    message.reactions?.[user?.uid || ''] === emoji
-                      ? 'bg-primary text-primary-foreground border-primary'
-                      : 'bg-background hover:bg-accent border-border'
-                  }`}
-                >
-                  {emoji} {String(count)}
-                </button>
-              ))}
+    <Popover open={showReactionPicker} onOpenChange={setShowReactionPicker}>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          {/* The full emoji picker opens next to the message */}
+          <PopoverAnchor asChild>
+            <div className="relative group">
+              {children}
+
+              {hasReactions && (
+                <MessageReactions message={message} currentUserId={user?.uid} onToggle={handleReaction} />
+              )}
             </div>
-          )}
-        </div>
-      </ContextMenuTrigger>
+          </PopoverAnchor>
+        </ContextMenuTrigger>
       
-      <ContextMenuContent className="w-48">
-        {adminSettings.featureFlags.enableMessageReactions && (
-          <>
-            <div className="p-2">
-              <div className="text-xs text-muted-foreground mb-2">React with</div>
-              <div className="flex gap-1">
-                {REACTIONS.map((emoji) => (
-                  <Button
-                    key={emoji}
-                    variant="ghost"
-                    size="sm"
-                    className="h-8 w-8 p-0 text-base hover:bg-accent"
-                    onClick={() => handleReaction(emoji)}
+        <ContextMenuContent
+          className="w-48"
+          // Focus goes to the emoji picker instead, which would otherwise close it
+          onCloseAutoFocus={(e) => showReactionPicker && e.preventDefault()}
+        >
+          {adminSettings.featureFlags.enableMessageReactions && (
+            <>
+              <div className="p-2">
+                <div className="text-xs text-muted-foreground mb-2">React with</div>
+                <div className="flex flex-wrap gap-1">
+                  {adminSettings.reactions.quickReactions.map((emoji) => (
+                    <Button
+                      key={emoji}
+                      variant={myReactions.includes(emoji) ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-8 w-8 p-0 text-base hover:bg-accent"
+                      onClick={() => handleReaction(emoji)}
+                    >
+                      {emoji}
+                    </Button>
+                  ))}
+                  <ContextMenuItem
+                    className="h-8 w-8 p-0 justify-center"
+                    onSelect={() => setShowReactionPicker(true)}
+                    title="More reactions"
                   >
-                    {emoji}
-                  </Button>
-                ))}
+                    <Plus className="h-4 w-4" />
+                  </ContextMenuItem>
+                </div>
               </div>
-            </div>
-            {adminSettings.featureFlags.enableMessageDeletion && <ContextMenuSeparator />}
-          </>
-        )}
-        
-        {adminSettings.featureFlags.enableMessageDeletion && (
-          <>
-            <ContextMenuItem onClick={handleDeleteForMe}>
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete for me
+              {(onReply || canForward || canStar || isOwn || adminSettings.featureFlags.enableMessageDeletion) && <ContextMenuSeparator />}
+            </>
+          )}
+
+          {onReply && (
+            <ContextMenuItem onClick={onReply}>
+              <Reply className="h-4 w-4 mr-2" />
+              Reply
             </ContextMenuItem>
-            
-            {canDeleteForEveryone && (
-              <ContextMenuItem onClick={handleDeleteForEveryone}>
+          )}
+
+          {canForward && (
+            <ContextMenuItem onClick={() => setShowForward(true)}>
+              <Forward className="h-4 w-4 mr-2" />
+              Forward
+            </ContextMenuItem>
+          )}
+
+          {canStar && (
+            <ContextMenuItem onClick={handleToggleStar}>
+              {isStarred ? <StarOff className="h-4 w-4 mr-2" /> : <Star className="h-4 w-4 mr-2" />}
+              {isStarred ? 'Unstar' : 'Star'}
+            </ContextMenuItem>
+          )}
+
+          {canEdit && (
+            <ContextMenuItem onClick={onEdit}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </ContextMenuItem>
+          )}
+
+          {isOwn && (
+            <ContextMenuItem onClick={() => setShowInfo(true)}>
+              <Info className="h-4 w-4 mr-2" />
+              Message info
+            </ContextMenuItem>
+          )}
+        
+          {adminSettings.featureFlags.enableMessageDeletion && (
+            <>
+              <ContextMenuItem onClick={handleDeleteForMe}>
                 <Trash2 className="h-4 w-4 mr-2" />
-                Delete for everyone
+                Delete for me
               </ContextMenuItem>
-            )}
-          </>
-        )}
-      </ContextMenuContent>
-    </ContextMenu>
+            
+              {canDeleteForEveryone && (
+                <ContextMenuItem onClick={handleDeleteForEveryone}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete for everyone
+                </ContextMenuItem>
+              )}
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+
+      {hasReactions && (
+        <PopoverContent align={isOwn ? 'end' : 'start'} className="w-auto p-2">
+          <EmojiPicker onSelect={handleReaction} selected={myReactions} />
+        </PopoverContent>
+      )}
+
+      {canForward && (
+        <ForwardDialog message={message} isOpen={showForward} onClose={() => setShowForward(false)} />
+      )}
+
+      {isOwn && (
+        <MessageInfoDialog
+          message={message}
+          participants={participants}
+          isOpen={showInfo}
+          onClose={() => setShowInfo(false)}
+        />
+      )}
+    </Popover>
   );
 };
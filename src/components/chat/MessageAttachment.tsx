@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { formatFileSize, type Attachment } from '@/lib/chat';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Download, FileText } from 'lucide-react';
+
+interface MessageAttachmentProps {
+  attachment: Attachment;
+  isOwn: boolean;
+}
+
+// Longest side of an inline image preview, in pixels
+const PREVIEW_SIZE = 240;
+
+export const MessageAttachment: React.FC<MessageAttachmentProps> = ({ attachment, isOwn }) => {
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+
+  if (attachment.kind === 'image') {
+    // Reserve the preview's space up front so the list doesn't jump when it loads
+    const scale = attachment.width && attachment.height
+      ? Math.min(1, PREVIEW_SIZE / Math.max(attachment.width, attachment.height))
+      : 1;
+    const width = attachment.width ? Math.round(attachment.width * scale) : PREVIEW_SIZE;
+    const height = attachment.height ? Math.round(attachment.height * scale) : PREVIEW_SIZE;
+
+    return (
+      <>
+        <button
+          type="button"
+          onClick={() => setIsLightboxOpen(true)}
+          className="block mb-1 overflow-hidden rounded-md bg-background/40 max-w-full"
+          style={{ width, aspectRatio: `${width} / ${height}` }}
+        >
+          <img
+            src={attachment.thumbnailUrl || attachment.url}
+            alt={attachment.name}
+            loading="lazy"
+            className="h-full w-full object-cover"
+          />
+        </button>
+
+        <Dialog open={isLightboxOpen} onOpenChange={setIsLightboxOpen}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle className="truncate pr-6">{attachment.name}</DialogTitle>
+            </DialogHeader>
+            <img
+              src={attachment.url}
+              alt={attachment.name}
+              className="max-h-[75vh] w-full object-contain rounded-md"
+            />
+            <div className="flex justify-end">
+              <Button asChild variant="outline" size="sm">
+                <a href={attachment.url} download={attachment.name} target="_blank" rel="noopener noreferrer">
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </>
+    );
+  }
+
+  return (
+    <a
+      href={attachment.url}
+      download={attachment.name}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`
+        flex items-center gap-3 mb-1 rounded-md px-3 py-2
+        ${isOwn ? 'bg-primary-foreground/10' : 'bg-background/60'}
+      `}
+    >
+      <FileText className="h-8 w-8 flex-shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium truncate">{attachment.name}</p>
+        <p className={`text-xs ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+          {formatFileSize(attachment.size)}
+        </p>
+      </div>
+      <Download className="h-4 w-4 flex-shrink-0" />
+    </a>
+  );
+};
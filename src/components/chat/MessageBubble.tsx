@@ -0,0 +1,196 @@
+import React from 'react';
+import { findLinks, getMessageStatus, isFrequentlyForwarded, type ChatRef, type Message, type MessageStatus, type Participants } from '@/lib/chat';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { MessageActions } from './MessageActions';
+import { MessageAttachment } from './MessageAttachment';
+import { VoiceNotePlayer } from './VoiceNotePlayer';
+import { MessageText } from './MessageText';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import type { OutboxStatus } from '@/lib/outbox';
+import { AlertCircle, Check, CheckCheck, Clock, Forward, Star } from 'lucide-react';
+
+interface MessageBubbleProps {
+  message: Message;
+  chat: ChatRef;
+  participants: Participants;
+  isOwn: boolean;
+  currentUserId?: string;
+  // Current display names of the people in the chat, for mentions
+  memberNames?: Record<string, string>;
+  isHighlighted?: boolean;
+  isStarred?: boolean;
+  // Marked wherever it appears in the text, while searching the conversation
+  searchTerm?: string;
+  // Set while the message is still in the outbox
+  sendState?: OutboxStatus;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+  onReply?: (message: Message) => void;
+  onEdit?: (message: Message) => void;
+  onQuoteClick?: (messageId: string) => void;
+}
+
+const formatMessageTime = (timestamp: number) => {
+  if (!timestamp) return '';
+
+  const date = new Date(typeof timestamp === 'number' ? timestamp : Date.now());
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const getMessageStatusIcon = (status: MessageStatus) => {
+  if (status === 'seen') {
+    return <CheckCheck className="h-3 w-3 text-blue-500" />;
+  } else if (status === 'delivered') {
+    return <CheckCheck className="h-3 w-3 text-muted-foreground" />;
+  } else {
+    return <Check className="h-3 w-3 text-muted-foreground" />;
+  }
+};
+
+export const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  chat,
+  participants,
+  isOwn,
+  currentUserId,
+  memberNames,
+  isHighlighted,
+  isStarred,
+  searchTerm,
+  sendState,
+  onRetry,
+  onDiscard,
+  onReply,
+  onEdit,
+  onQuoteClick
+}) => {
+  const statusIcon = sendState === 'failed'
+    ? <AlertCircle className="h-3 w-3 text-destructive" />
+    : sendState === 'pending'
+      ? <Clock className="h-3 w-3 text-primary-foreground/70" />
+      : getMessageStatusIcon(getMessageStatus(message, participants));
+  const previewUrl = message.attachment || message.voice ? undefined : findLinks(message.text)[0];
+
+  const bubble = (
+    <div className={`
+      rounded-lg px-3 py-2 relative
+      ${isOwn
+        ? 'bg-message-own text-primary-foreground'
+        : 'bg-message-bubble text-foreground'
+      }
+    `}>
+      {chat.isGroup && !isOwn && (
+        <p className="text-xs font-medium mb-1 text-primary">
+          {message.senderName}
+        </p>
+      )}
+      {!!message.forwardCount && (
+        <p className={`flex items-center gap-1 text-xs italic mb-1 ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+          <Forward className="h-3 w-3" />
+          {isFrequentlyForwarded(message) ? 'Forwarded many times' : 'Forwarded'}
+        </p>
+      )}
+      {message.replyTo && (
+        <button
+          type="button"
+          onClick={() => onQuoteClick?.(message.replyTo.id)}
+          className={`
+            block w-full text-left mb-1 rounded border-l-4 px-2 py-1 text-xs
+            ${isOwn
+              ? 'border-primary-foreground/60 bg-primary-foreground/10'
+              : 'border-primary bg-background/60'
+            }
+          `}
+        >
+          <p className="font-medium truncate">{message.replyTo.senderName}</p>
+          <p className="opacity-80 line-clamp-2 break-words">{message.replyTo.snippet}</p>
+        </button>
+      )}
+      {message.attachment && (
+        <MessageAttachment attachment={message.attachment} isOwn={isOwn} />
+      )}
+      {message.voice && (
+        <VoiceNotePlayer
+          src={message.voice.url}
+          duration={message.voice.duration}
+          waveform={message.voice.waveform || []}
+          isOwn={isOwn}
+        />
+      )}
+      {message.text && (
+        <div className="text-sm break-words space-y-1">
+          <MessageText
+            text={message.text}
+            mentions={message.mentions}
+            memberNames={memberNames}
+            currentUserId={currentUserId}
+            isOwn={isOwn}
+            searchTerm={searchTerm}
+          />
+        </div>
+      )}
+      {/* Only the first link gets a card, and not next to a photo or file */}
+      {previewUrl && <LinkPreviewCard url={previewUrl} isOwn={isOwn} />}
+      <div className="flex items-center justify-end space-x-1 mt-1">
+        {isStarred && (
+          <Star className={`h-3 w-3 fill-current ${isOwn ? 'text-primary-foreground/70' : 'text-message-timestamp'}`} />
+        )}
+        <p className={`text-xs ${isOwn ? 'text-primary-foreground/70' : 'text-message-timestamp'}`}>
+          {message.editedAt && <span className="italic mr-1">edited</span>}
+          {formatMessageTime(message.timestamp)}
+        </p>
+        {isOwn && statusIcon}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={`flex rounded-lg transition-colors duration-500 ${isOwn ? 'justify-end' : 'justify-start'} ${isHighlighted ? 'bg-primary/15' : ''}`}>
+      <div className={`flex space-x-2 max-w-[280px] md:max-w-xs lg:max-w-md ${isOwn ? 'flex-row-reverse space-x-reverse' : ''}`}>
+        {!isOwn && (
+          <Avatar className="h-6 w-6 md:h-8 md:w-8 mt-auto flex-shrink-0">
+            <AvatarImage src={message.senderAvatar} />
+            <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+              {message.senderName?.[0]?.toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        )}
+
+        {sendState ? (
+          <div className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+            {bubble}
+            {sendState === 'failed' && (
+              <div className="flex items-center gap-2 mt-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => onRetry?.(message.id)}
+                  className="text-destructive hover:underline"
+                >
+                  Failed — tap to retry
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDiscard?.(message.id)}
+                  className="text-muted-foreground hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <MessageActions
+            message={message}
+            chat={chat}
+            participants={participants}
+            isStarred={isStarred}
+            onReply={onReply && (() => onReply(message))}
+            onEdit={onEdit && (() => onEdit(message))}
+          >
+            {bubble}
+          </MessageActions>
+        )}
+      </div>
+    </div>
+  );
+};
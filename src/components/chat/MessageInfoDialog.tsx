@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { getUser, getReceipts, getMessagePreview, type Message, type Participants, type Receipt, type UserProfile } from '@/lib/chat';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, CheckCheck, Clock } from 'lucide-react';
+
+interface MessageInfoDialogProps {
+  message: Message;
+  participants: Participants;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatReceiptTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : '';
+
+export const MessageInfoDialog: React.FC<MessageInfoDialogProps> = ({
+  message,
+  participants,
+  isOpen,
+  onClose
+}) => {
+  const [profiles, setProfiles] = useState<Record<string, UserProfile>>({});
+  const receipts = getReceipts(message, participants);
+  const recipientKey = receipts.map(receipt => receipt.uid).join(',');
+
+  useEffect(() => {
+    if (!isOpen || !recipientKey) return;
+
+    const loadProfiles = async () => {
+      try {
+        const loaded = await Promise.all(recipientKey.split(',').map(uid => getUser(uid)));
+        setProfiles(Object.fromEntries(loaded.filter(Boolean).map(profile => [profile.uid, profile])));
+      } catch (error) {
+        console.error('Error loading message info:', error);
+      }
+    };
+
+    loadProfiles();
+  }, [isOpen, recipientKey]);
+
+  const readReceipts = receipts.filter(receipt => receipt.readAt);
+  const deliveredReceipts = receipts.filter(receipt => !receipt.readAt && receipt.deliveredAt);
+  const pendingReceipts = receipts.filter(receipt => !receipt.deliveredAt);
+
+  const renderSection = (title: string, icon: React.ReactNode, items: Receipt[], time: (receipt: Receipt) => number | undefined) => {
+    if (items.length === 0) return null;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground uppercase">
+          {icon}
+          {title}
+        </div>
+        {items.map((receipt) => {
+          const profile = profiles[receipt.uid];
+
+          return (
+            <div key={receipt.uid} className="flex items-center space-x-3">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={profile?.photoURL} />
+                <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                  {profile?.displayName?.[0]?.toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{profile?.displayName || 'Unknown User'}</p>
+                {time(receipt) && (
+                  <p className="text-xs text-muted-foreground">{formatReceiptTime(time(receipt))}</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Message info</DialogTitle>
+        </DialogHeader>
+
+        <div className="rounded-lg bg-message-own text-primary-foreground px-3 py-2">
+          <p className="text-sm break-words">{getMessagePreview(message)}</p>
+          <p className="text-xs text-primary-foreground/70 mt-1">{formatReceiptTime(message.timestamp)}</p>
+        </div>
+
+        <ScrollArea className="max-h-80">
+          <div className="space-y-4">
+            {renderSection('Read by', <CheckCheck className="h-3 w-3 text-blue-500" />, readReceipts, receipt => receipt.readAt)}
+            {renderSection('Delivered to', <CheckCheck className="h-3 w-3" />, deliveredReceipts, receipt => receipt.deliveredAt)}
+            {renderSection('Not delivered yet', <Clock className="h-3 w-3" />, pendingReceipts, () => undefined)}
+            {receipts.length === 0 && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Check className="h-4 w-4" />
+                Sent
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
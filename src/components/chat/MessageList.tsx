@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useCallback } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import type { ChatRef, Message, Participants } from '@/lib/chat';
+import type { OutboxStatus } from '@/lib/outbox';
+import { MessageBubble } from './MessageBubble';
+
+// Distance from the bottom, in pixels, still treated as "at the bottom"
+const NEAR_BOTTOM_PX = 120;
+// How close to the top the user scrolls before the previous page is loaded
+const LOAD_OLDER_PX = 200;
+// Share of a bubble that has to be on screen before it counts as seen
+const SEEN_THRESHOLD = 0.6;
+
+interface MessageListProps {
+  chat: ChatRef;
+  messages: Message[];
+  participants: Participants;
+  currentUserId: string;
+  // Current display names by uid, for mentions
+  memberNames?: Record<string, string>;
+  hasMore: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  onMessagesSeen: (messageIds: string[]) => void;
+  highlightedMessageId?: string | null;
+  starredIds?: Set<string>;
+  searchTerm?: string;
+  // Messages not yet confirmed written, by id
+  sendStates?: Record<string, OutboxStatus>;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+  onReply?: (message: Message) => void;
+  onEdit?: (message: Message) => void;
+  onQuoteClick?: (messageId: string) => void;
+}
+
+export const MessageList: React.FC<MessageListProps> = ({
+  chat,
+  messages,
+  participants,
+  currentUserId,
+  memberNames,
+  hasMore,
+  loadingOlder,
+  onLoadOlder,
+  onMessagesSeen,
+  highlightedMessageId,
+  starredIds,
+  searchTerm,
+  sendStates = {},
+  onRetry,
+  onDiscard,
+  onReply,
+  onEdit,
+  onQuoteClick
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const initialScrollDone = useRef(false);
+  const seenObserver = useRef<IntersectionObserver | null>(null);
+  const observedElements = useRef(new Map<string, Element>());
+  const visibleIds = useRef(new Set<string>());
+  const bubbleRefs = useRef(new Map<string, (element: HTMLDivElement | null) => void>());
+  const lastMessage = messages[messages.length - 1];
+  const isEmpty = messages.length === 0;
+  const highlightedIndex = highlightedMessageId ? messages.findIndex(message => message.id === highlightedMessageId) : -1;
+  const isHighlightLoaded = highlightedIndex >= 0;
+
+  // Anchoring to the end keeps the visible bubbles in place when older pages
+  // are prepended, and follows new messages only while the user is already
+  // near the bottom
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 72,
+    getItemKey: (index) => messages[index].id,
+    overscan: 8,
+    paddingStart: 16,
+    paddingEnd: 16,
+    anchorTo: 'end',
+    followOnAppend: true,
+    scrollEndThreshold: NEAR_BOTTOM_PX
+  });
+
+  // Start at the newest message, and jump back down when the user sends one.
+  // Only a new last message counts, not updates to the same one.
+  const scrolledToId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!lastMessage || lastMessage.id === scrolledToId.current) return;
+    scrolledToId.current = lastMessage.id;
+    if (!initialScrollDone.current || lastMessage.senderId === currentUserId) {
+      virtualizer.scrollToEnd();
+      initialScrollDone.current = true;
+    }
+  }, [lastMessage, currentUserId, virtualizer]);
+
+  // Bring the highlighted message into view once it has been loaded, but
+  // not again when older pages shift its index
+  const scrolledHighlightId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isHighlightLoaded) {
+      scrolledHighlightId.current = null;
+      return;
+    }
+    if (scrolledHighlightId.current === highlightedMessageId) return;
+    scrolledHighlightId.current = highlightedMessageId;
+    virtualizer.scrollToIndex(highlightedIndex, { align: 'center' });
+  }, [highlightedMessageId, highlightedIndex, isHighlightLoaded, virtualizer]);
+
+  // Keep loading while the loaded history doesn't fill the viewport yet
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || !initialScrollDone.current) return;
+    if (hasMore && !loadingOlder && element.scrollHeight <= element.clientHeight) {
+      onLoadOlder();
+    }
+  }, [messages.length, hasMore, loadingOlder, onLoadOlder]);
+
+  // Bubbles only count as seen while they are on screen in a visible tab
+  const reportSeen = useCallback(() => {
+    if (document.visibilityState === 'visible' && visibleIds.current.size > 0) {
+      onMessagesSeen([...visibleIds.current]);
+    }
+  }, [onMessagesSeen]);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach((entry) => {
+        const messageId = (entry.target as HTMLElement).dataset.messageId;
+        if (!messageId) return;
+        if (entry.isIntersecting) visibleIds.current.add(messageId);
+        else visibleIds.current.delete(messageId);
+      });
+      reportSeen();
+    }, { root: scrollRef.current, threshold: SEEN_THRESHOLD });
+
+    observedElements.current.forEach(element => observer.observe(element));
+    seenObserver.current = observer;
+    document.addEventListener('visibilitychange', reportSeen);
+
+    return () => {
+      observer.disconnect();
+      seenObserver.current = null;
+      document.removeEventListener('visibilitychange', reportSeen);
+    };
+  }, [reportSeen, isEmpty]);
+
+  const observeBubble = (messageId: string, element: Element | null) => {
+    const previous = observedElements.current.get(messageId);
+    if (previous === element) return;
+    if (previous) {
+      seenObserver.current?.unobserve(previous);
+      observedElements.current.delete(messageId);
+      visibleIds.current.delete(messageId);
+    }
+    if (element) {
+      observedElements.current.set(messageId, element);
+      seenObserver.current?.observe(element);
+    }
+  };
+
+  // One stable ref per bubble so re-renders don't re-observe every element
+  const bubbleRef = (messageId: string) => {
+    let ref = bubbleRefs.current.get(messageId);
+    if (!ref) {
+      ref = (element: HTMLDivElement | null) => {
+        virtualizer.measureElement(element);
+        observeBubble(messageId, element);
+      };
+      bubbleRefs.current.set(messageId, ref);
+    }
+    return ref;
+  };
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element || !initialScrollDone.current) return;
+    if (hasMore && !loadingOlder && element.scrollTop < LOAD_OLDER_PX) {
+      onLoadOlder();
+    }
+  };
+
+  if (isEmpty) {
+    return (
+      <div className="flex-1 overflow-y-auto p-3 md:p-4">
+        <div className="text-center text-muted-foreground py-8">
+          <p className="text-sm md:text-base">No messages yet. Start the conversation!</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex-1 min-h-0">
+      {loadingOlder && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 rounded-full bg-card border border-border p-1.5 shadow">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="h-full overflow-y-auto px-3 md:px-4"
+        style={{ overflowAnchor: 'none' }}
+      >
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map((item) => {
+            const message = messages[item.index];
+
+            return (
+              <div
+                key={item.key}
+                data-index={item.index}
+                data-message-id={message.id}
+                ref={bubbleRef(message.id)}
+                className="absolute left-0 top-0 w-full pb-4"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                <MessageBubble
+                  message={message}
+                  chat={chat}
+                  participants={participants}
+                  isOwn={message.senderId === currentUserId}
+                  currentUserId={currentUserId}
+                  memberNames={memberNames}
+                  isHighlighted={message.id === highlightedMessageId}
+                  isStarred={starredIds?.has(message.id)}
+                  searchTerm={searchTerm}
+                  sendState={sendStates[message.id]}
+                  onRetry={onRetry}
+                  onDiscard={onDiscard}
+                  onReply={onReply}
+                  onEdit={onEdit}
+                  onQuoteClick={onQuoteClick}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
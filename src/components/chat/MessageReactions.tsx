@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { summarizeReactions, type Message, type ReactionSummary } from '@/lib/chat';
+import { useProfiles } from '@/hooks/usePrivacy';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Users } from 'lucide-react';
+
+interface MessageReactionsProps {
+  message: Message;
+  currentUserId?: string;
+  // Left out when reactions can only be looked at
+  onToggle?: (emoji: string) => void;
+}
+
+const ALL = 'all';
+
+// Who reacted with what; profiles load only while it is open
+const ReactionDetails: React.FC<{ summary: ReactionSummary[]; currentUserId?: string }> = ({
+  summary,
+  currentUserId
+}) => {
+  const [filter, setFilter] = useState(ALL);
+  const userIds = [...new Set(summary.flatMap(({ userIds }) => userIds))];
+  const profiles = useProfiles(userIds.filter(uid => uid !== currentUserId));
+  const nameOf = (uid: string) => (uid === currentUserId ? 'You' : profiles[uid]?.displayName || 'Unknown User');
+
+  const rows = userIds
+    .map(uid => ({
+      uid,
+      emojis: summary.filter(({ emoji, userIds }) => userIds.includes(uid) && (filter === ALL || emoji === filter))
+    }))
+    .filter(({ emojis }) => emojis.length > 0);
+
+  const tabClassName = (value: string) =>
+    `px-2 py-1 rounded-full text-xs transition-colors ${value === filter ? 'bg-accent' : 'hover:bg-accent/50'}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1 border-b border-border pb-2">
+        <button type="button" onClick={() => setFilter(ALL)} className={tabClassName(ALL)}>
+          All {userIds.length}
+        </button>
+        {summary.map(({ emoji, userIds }) => (
+          <button key={emoji} type="button" onClick={() => setFilter(emoji)} className={tabClassName(emoji)}>
+            {emoji} {userIds.length}
+          </button>
+        ))}
+      </div>
+      <ScrollArea className="max-h-48">
+        {rows.map(({ uid, emojis }) => (
+          <div key={uid} className="flex items-center justify-between gap-2 py-1 text-sm">
+            <span className="truncate">{nameOf(uid)}</span>
+            <span>{emojis.map(({ emoji }) => emoji).join(' ')}</span>
+          </div>
+        ))}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export const MessageReactions: React.FC<MessageReactionsProps> = ({ message, currentUserId, onToggle }) => {
+  const summary = summarizeReactions(message);
+  if (summary.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {summary.map(({ emoji, userIds }) => {
+        const isMine = !!currentUserId && userIds.includes(currentUserId);
+        const className = `text-xs px-2 py-1 rounded-full border transition-colors ${
+          isMine && onToggle
+            ? 'bg-primary text-primary-foreground border-primary'
+            : `bg-background border-border ${onToggle ? 'hover:bg-accent' : ''}`
+        }`;
+
+        return onToggle ? (
+          <button key={emoji} type="button" onClick={() => onToggle(emoji)} className={className}>
+            {emoji} {userIds.length}
+          </button>
+        ) : (
+          <div key={emoji} className={className}>
+            {emoji} {userIds.length}
+          </div>
+        );
+      })}
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            title="See who reacted"
+            className="p-1 rounded-full text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+          >
+            <Users className="h-3 w-3" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 p-3">
+          <ReactionDetails summary={summary} currentUserId={currentUserId} />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
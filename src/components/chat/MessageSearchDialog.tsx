@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { searchMessages, tokenize, type SearchDocument, type SearchFilters } from '@/lib/search';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Paperclip, Users } from 'lucide-react';
+import { useChatNames } from '@/hooks/useChatNames';
+import { HighlightedText } from './HighlightedText';
+
+interface MessageSearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectResult: (result: SearchDocument) => void;
+}
+
+const SEARCH_DELAY = 250;
+const ANY_SENDER = 'any';
+
+const formatResultDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Start or end of a yyyy-mm-dd day in local time
+const dayBoundary = (value: string, end: boolean) =>
+  value ? new Date(`${value}T${end ? '23:59:59.999' : '00:00:00'}`).getTime() : undefined;
+
+export const MessageSearchDialog: React.FC<MessageSearchDialogProps> = ({
+  isOpen,
+  onClose,
+  onSelectResult
+}) => {
+  const { user } = useAuth();
+  const [query, setQuery] = useState('');
+  const [senderId, setSenderId] = useState(ANY_SENDER);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [hasAttachment, setHasAttachment] = useState(false);
+  const [results, setResults] = useState<SearchDocument[]>([]);
+  // Everyone who sent a matching message, offered in the sender filter
+  const [senders, setSenders] = useState<Record<string, string>>({});
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setQuery('');
+      setSenderId(ANY_SENDER);
+      setFromDate('');
+      setToDate('');
+      setHasAttachment(false);
+      setResults([]);
+      setSenders({});
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!user || !query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    const filters: SearchFilters = {
+      senderId: senderId === ANY_SENDER ? undefined : senderId,
+      from: dayBoundary(fromDate, false),
+      to: dayBoundary(toDate, true),
+      hasAttachment
+    };
+
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const matches = await searchMessages(user.uid, query, filters);
+        if (cancelled) return;
+        setResults(matches);
+        if (!filters.senderId) {
+          setSenders(Object.fromEntries(matches.map(match => [match.senderId, match.senderName])));
+        }
+      } catch (error) {
+        console.error('Error searching messages:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [user, query, senderId, fromDate, toDate, hasAttachment]);
+
+  // Results grouped by conversation, conversations ordered by their newest hit
+  const groupedResults = useMemo(() => {
+    const groups = new Map<string, SearchDocument[]>();
+    results.forEach((result) => {
+      groups.set(result.chatId, [...(groups.get(result.chatId) || []), result]);
+    });
+    return [...groups.entries()];
+  }, [results]);
+
+  const resultChats = useMemo(
+    () => groupedResults.map(([chatId, [first]]) => ({ id: chatId, isGroup: first.isGroup })),
+    [groupedResults]
+  );
+  const chatNames = useChatNames(user?.uid, resultChats);
+
+  const terms = tokenize(query);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Search Messages</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            placeholder="Search messages"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            autoFocus
+          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Select value={senderId} onValueChange={setSenderId}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_SENDER}>Anyone</SelectItem>
+                  {Object.entries(senders).map(([uid, name]) => (
+                    <SelectItem key={uid} value={uid}>
+                      {uid === user?.uid ? 'You' : name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">After</Label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Before</Label>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="flex items-center space-x-2 h-9">
+              <Checkbox
+                id="search-has-attachment"
+                checked={hasAttachment}
+                onCheckedChange={(checked) => setHasAttachment(checked === true)}
+              />
+              <Label htmlFor="search-has-attachment" className="text-xs">Has attachment</Label>
+            </div>
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-96">
+          {!query.trim() ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">
+              Search the conversations you have opened on this device
+            </p>
+          ) : searching && results.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">No messages found</p>
+          ) : (
+            <div className="space-y-4">
+              {groupedResults.map(([chatId, chatResults]) => (
+                <div key={chatId} className="space-y-1">
+                  <div className="flex items-center gap-2 px-2 text-xs font-medium uppercase text-muted-foreground">
+                    {chatResults[0].isGroup && <Users className="h-3 w-3" />}
+                    {chatNames[chatId] || '...'}
+                    <span className="normal-case font-normal">({chatResults.length})</span>
+                  </div>
+                  {chatResults.map((result) => (
+                    <button
+                      key={result.key}
+                      type="button"
+                      onClick={() => onSelectResult(result)}
+                      className="block w-full rounded-lg p-2 text-left hover:bg-secondary/50"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">
+                          {result.senderId === user?.uid ? 'You' : result.senderName}
+                        </span>
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0">
+                          {result.hasAttachment && <Paperclip className="h-3 w-3" />}
+                          {formatResultDate(result.timestamp)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+                        <HighlightedText text={result.text} terms={terms} />
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { parseMarkup, MENTION_ALL, type InlineNode, type MessageMentions } from '@/lib/chat';
+import { HighlightedText } from './HighlightedText';
+import { UserProfile } from './UserProfile';
+
+interface MessageTextProps {
+  text: string;
+  mentions?: MessageMentions;
+  // Current display names by uid, so mentions show renamed people's new name
+  memberNames?: Record<string, string>;
+  currentUserId?: string;
+  isOwn: boolean;
+  searchTerm?: string;
+}
+
+// A mention only loads the person's profile once it is clicked, so a message
+// full of mentions doesn't look each of them up
+const MentionChip: React.FC<{ uid: string; children: React.ReactNode }> = ({ uid, children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const open = (e: React.SyntheticEvent) => {
+    e.stopPropagation();
+    setIsOpen(true);
+  };
+
+  return (
+    <>
+      <span
+        role="button"
+        tabIndex={0}
+        onClick={open}
+        onKeyDown={(e) => {
+          if (e.key !== 'Enter' && e.key !== ' ') return;
+          e.preventDefault();
+          open(e);
+        }}
+      >
+        {children}
+      </span>
+      {isOpen && <UserProfile userId={uid} open onOpenChange={setIsOpen} />}
+    </>
+  );
+};
+
+type InlineProps = Omit<MessageTextProps, 'text' | 'mentions'> & { nodes: InlineNode[] };
+
+const Inline: React.FC<InlineProps> = ({ nodes, memberNames = {}, currentUserId, isOwn, searchTerm }) => (
+  <>
+    {nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <HighlightedText key={index} text={node.text} terms={[searchTerm]} />;
+        case 'code':
+          return (
+            <code key={index} className="rounded bg-black/10 px-1 font-mono text-[0.85em]">
+              <HighlightedText text={node.text} terms={[searchTerm]} />
+            </code>
+          );
+        case 'link':
+          return (
+            <a
+              key={index}
+              href={node.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              className="underline break-all"
+            >
+              <HighlightedText text={node.text} terms={[searchTerm]} />
+            </a>
+          );
+        case 'mention': {
+          const isAll = node.uid === MENTION_ALL;
+          const isSelf = isAll || node.uid === currentUserId;
+          const label = (
+            <span
+              className={`
+                font-medium rounded-sm px-0.5
+                ${isOwn ? 'text-primary-foreground underline' : 'text-primary'}
+                ${isSelf && !isOwn ? 'bg-primary/15' : ''}
+                ${isAll ? '' : 'cursor-pointer hover:underline'}
+              `}
+            >
+              @<HighlightedText text={memberNames[node.uid] || node.name} terms={[searchTerm]} />
+            </span>
+          );
+
+          return isAll ? (
+            <React.Fragment key={index}>{label}</React.Fragment>
+          ) : (
+            <MentionChip key={index} uid={node.uid}>{label}</MentionChip>
+          );
+        }
+        default: {
+          const Tag = node.type === 'bold' ? 'strong' : node.type === 'italic' ? 'em' : 's';
+          return (
+            <Tag key={index}>
+              <Inline
+                nodes={node.children}
+                memberNames={memberNames}
+                currentUserId={currentUserId}
+                isOwn={isOwn}
+                searchTerm={searchTerm}
+              />
+            </Tag>
+          );
+        }
+      }
+    })}
+  </>
+);
+
+// Message text with its markup applied; mentions are highlighted and each
+// opens the person's profile
+export const MessageText: React.FC<MessageTextProps> = ({ text, mentions, ...props }) => (
+  <>
+    {parseMarkup(text, mentions).map((block, index) => {
+      switch (block.type) {
+        case 'codeBlock':
+          return (
+            <pre key={index} className="rounded bg-black/10 px-2 py-1 font-mono text-xs whitespace-pre-wrap">
+              <HighlightedText text={block.text} terms={[props.searchTerm]} />
+            </pre>
+          );
+        case 'quote':
+          return (
+            <blockquote
+              key={index}
+              className={`border-l-2 pl-2 whitespace-pre-wrap ${
+                props.isOwn ? 'border-primary-foreground/60 opacity-90' : 'border-muted-foreground/50 text-muted-foreground'
+              }`}
+            >
+              <Inline nodes={block.children} {...props} />
+            </blockquote>
+          );
+        default:
+          return (
+            <p key={index} className="whitespace-pre-wrap">
+              <Inline nodes={block.children} {...props} />
+            </p>
+          );
+      }
+    })}
+  </>
+);
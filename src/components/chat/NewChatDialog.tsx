@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { searchUsers, getVisiblePhotoURL, type UserProfile } from '@/lib/chat';
+import { usePrivacyViewer } from '@/hooks/usePrivacy';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle } from 'lucide-react';
+
+interface NewChatDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectUser: (user: UserProfile) => void;
+}
+
+// Wait for a pause in typing before querying
+const SEARCH_DELAY = 250;
+
+export const NewChatDialog: React.FC<NewChatDialogProps> = ({
+  isOpen,
+  onClose,
+  onSelectUser
+}) => {
+  const { user } = useAuth();
+  const viewer = usePrivacyViewer();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserProfile[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setQuery('');
+      setResults([]);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const matches = await searchUsers(query);
+        if (!cancelled) {
+          setResults(matches.filter(match => match.uid !== user?.uid));
+        }
+      } catch (error) {
+        console.error('Error searching users:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, user]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Chat</DialogTitle>
+        </DialogHeader>
+
+        <Input
+          placeholder="Search by name or email"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          autoFocus
+        />
+
+        <ScrollArea className="max-h-80">
+          {!query.trim() ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">
+              Type the start of a name or email address
+            </p>
+          ) : searching && results.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">No people found</p>
+          ) : (
+            <div className="space-y-1">
+              {results.map((result) => (
+                <button
+                  key={result.uid}
+                  type="button"
+                  onClick={() => onSelectUser(result)}
+                  className="flex w-full items-center space-x-3 rounded-lg p-2 text-left hover:bg-secondary/50"
+                >
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={getVisiblePhotoURL(result, viewer)} />
+                    <AvatarFallback className="bg-primary text-primary-foreground text-sm">
+                      {result.displayName?.[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1">
+                      <p className="text-sm font-medium truncate">{result.displayName}</p>
+                      {result.isVerified && (
+                        <CheckCircle className="h-3 w-3 text-blue-500 flex-shrink-0" />
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{result.email}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/hooks/useNotifications';
+import { describeNotification, formatLastSeen, type NotificationEntry } from '@/lib/chat';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AtSign, Bell, Settings, Shield, SmilePlus, Trophy, UserPlus } from 'lucide-react';
+import { UnreadBadge } from './UnreadBadge';
+import { NotificationSettingsDialog } from './NotificationSettingsDialog';
+
+interface NotificationCenterProps {
+  // Takes the user to whatever the notification is about
+  onOpenNotification: (notification: NotificationEntry) => void;
+}
+
+const NotificationIcon: React.FC<{ notification: NotificationEntry }> = ({ notification }) => {
+  const className = 'h-4 w-4';
+  switch (notification.type) {
+    case 'reaction':
+      return <SmilePlus className={className} />;
+    case 'mention':
+      return <AtSign className={className} />;
+    case 'chatRequest':
+      return <UserPlus className={className} />;
+    case 'achievement':
+      return <Trophy className={className} />;
+    default:
+      return <Shield className={className} />;
+  }
+};
+
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ onOpenNotification }) => {
+  const { user } = useAuth();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(user?.uid);
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const handleSelect = (notification: NotificationEntry) => {
+    if (!notification.read) markRead([notification.id]);
+    setOpen(false);
+    onOpenNotification(notification);
+  };
+
+  const openSettings = () => {
+    setOpen(false);
+    setShowSettings(true);
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="relative text-muted-foreground hover:text-foreground p-1 md:p-2"
+            title="Notifications"
+          >
+            <Bell className="h-3 w-3 md:h-4 md:w-4" />
+            {unreadCount > 0 && (
+              <UnreadBadge count={unreadCount} className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px]" />
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+            <h3 className="font-semibold text-sm">Notifications</h3>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={unreadCount === 0}
+                onClick={markAllRead}
+              >
+                Mark all read
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={openSettings}
+                title="Notification settings"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+          ) : (
+            <ScrollArea className="max-h-96">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => handleSelect(notification)}
+                  className={`w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-accent transition-colors ${
+                    notification.read ? '' : 'bg-primary/5'
+                  }`}
+                >
+                  <span className="mt-0.5 text-muted-foreground">
+                    <NotificationIcon notification={notification} />
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm break-words">{describeNotification(notification)}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {formatLastSeen(notification.timestamp)}
+                    </span>
+                  </span>
+                  {!notification.read && <span className="mt-1.5 h-2 w-2 rounded-full bg-primary flex-shrink-0" />}
+                </button>
+              ))}
+            </ScrollArea>
+          )}
+        </PopoverContent>
+      </Popover>
+      <NotificationSettingsDialog isOpen={showSettings} onClose={() => setShowSettings(false)} />
+    </>
+  );
+};
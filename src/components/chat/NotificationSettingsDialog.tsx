@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import {
+  getNotificationPermission,
+  isNotificationSupported,
+  requestNotificationPermission
+} from '@/lib/desktopNotifications';
+import type { NotificationSettings } from '@/lib/chat';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+
+interface NotificationSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const NotificationSettingsDialog: React.FC<NotificationSettingsDialogProps> = ({ isOpen, onClose }) => {
+  const { settings, update } = useNotificationSettings();
+  const { toast } = useToast();
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  const save = async (changes: Partial<NotificationSettings>) => {
+    try {
+      await update(changes);
+    } catch (error) {
+      console.error('Error updating notification settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update notification settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDesktopChange = async (desktop: boolean) => {
+    if (desktop) {
+      setPermission(await requestNotificationPermission());
+    }
+    await save({ desktop });
+  };
+
+  const setQuietHours = (changes: Partial<NotificationSettings['quietHours']>) =>
+    save({ quietHours: { ...settings.quietHours, ...changes } });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Notification settings</DialogTitle>
+          <DialogDescription>Applies on every device you're signed in on.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="desktop-notifications">Desktop notifications</Label>
+              {settings.desktop && permission !== 'granted' && (
+                <p className="text-xs text-muted-foreground">
+                  {isNotificationSupported() && permission === 'default'
+                    ? 'Turn this on again to allow notifications in this browser.'
+                    : 'Notifications are blocked in this browser.'}
+                </p>
+              )}
+            </div>
+            <Switch
+              id="desktop-notifications"
+              checked={settings.desktop && permission === 'granted'}
+              onCheckedChange={handleDesktopChange}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="notification-sound">Sound</Label>
+            <Switch
+              id="notification-sound"
+              checked={settings.sound}
+              onCheckedChange={(sound) => save({ sound })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="quiet-hours">Do not disturb</Label>
+                <p className="text-xs text-muted-foreground">No sound or notifications during these hours.</p>
+              </div>
+              <Switch
+                id="quiet-hours"
+                checked={settings.quietHours.enabled}
+                onCheckedChange={(enabled) => setQuietHours({ enabled })}
+              />
+            </div>
+            {settings.quietHours.enabled && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  aria-label="Start"
+                  value={settings.quietHours.start}
+                  onChange={(e) => e.target.value && setQuietHours({ start: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  aria-label="End"
+                  value={settings.quietHours.end}
+                  onChange={(e) => e.target.value && setQuietHours({ end: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
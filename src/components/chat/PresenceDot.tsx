@@ -0,0 +1,19 @@
+import React from 'react';
+import { getPresenceLabel, type Presence } from '@/lib/chat';
+
+interface PresenceDotProps {
+  presence: Presence | null | undefined;
+  className?: string;
+}
+
+// Green while online, amber while idle, nothing while offline
+export const PresenceDot: React.FC<PresenceDotProps> = ({ presence, className = '' }) => {
+  if (!presence || presence.state === 'offline') return null;
+
+  return (
+    <div
+      title={getPresenceLabel(presence)}
+      className={`rounded-full ${presence.state === 'online' ? 'bg-status-online' : 'bg-status-warning'} ${className}`}
+    />
+  );
+};
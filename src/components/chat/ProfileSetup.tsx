@@ -5,7 +5,22 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { getPrivacySettings, type PrivacyAudience, type PrivacySetting, type PrivacySettings } from '@/lib/chat';
+
+const PRIVACY_OPTIONS: { setting: PrivacySetting; label: string }[] = [
+  { setting: 'lastSeen', label: 'Last seen' },
+  { setting: 'onlineStatus', label: 'Online status' },
+  { setting: 'profilePhoto', label: 'Profile photo' },
+  { setting: 'readReceipts', label: 'Read receipts' }
+];
+
+const AUDIENCE_LABELS: Record<PrivacyAudience, string> = {
+  everyone: 'Everyone',
+  contacts: 'My contacts',
+  nobody: 'Nobody'
+};
 
 interface ProfileSetupProps {
   onComplete: () => void;
@@ -20,6 +35,7 @@ export const ProfileSetup: React.FC<ProfileSetupProps> = ({ onComplete }) => {
     displayName: userProfile?.displayName || '',
     photoURL: userProfile?.photoURL || ''
   });
+  const [privacy, setPrivacy] = useState<PrivacySettings>(getPrivacySettings(userProfile));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,7 +54,8 @@ export const ProfileSetup: React.FC<ProfileSetupProps> = ({ onComplete }) => {
     try {
       await updateUserProfile({
         displayName: profileData.displayName.trim(),
-        photoURL: profileData.photoURL.trim()
+        photoURL: profileData.photoURL.trim(),
+        privacy
       });
       
       toast({
@@ -121,6 +138,33 @@ export const ProfileSetup: React.FC<ProfileSetupProps> = ({ onComplete }) => {
                 />
               </div>
 
+              <div className="space-y-3">
+                <div>
+                  <Label>Privacy</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Contacts are people you have a chat with. If you hide your last seen, online status or read receipts from everyone, you won't see other people's either.
+                  </p>
+                </div>
+                {PRIVACY_OPTIONS.map(({ setting, label }) => (
+                  <div key={setting} className="flex items-center justify-between gap-4">
+                    <span className="text-sm">{label}</span>
+                    <Select
+                      value={privacy[setting]}
+                      onValueChange={(value) => setPrivacy(prev => ({ ...prev, [setting]: value as PrivacyAudience }))}
+                    >
+                      <SelectTrigger className="h-9 w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(AUDIENCE_LABELS).map(([audience, audienceLabel]) => (
+                          <SelectItem key={audience} value={audience}>{audienceLabel}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
               <Button 
                 type="submit" 
                 className="w-full bg-primary hover:bg-primary-glow" 
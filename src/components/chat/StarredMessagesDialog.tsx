@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { unstarMessage, type StarredMessage } from '@/lib/chat';
+import { useStarredMessages, useStarredPreviews } from '@/hooks/useStarredMessages';
+import { useChatNames } from '@/hooks/useChatNames';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { StarOff, Users } from 'lucide-react';
+
+interface StarredMessagesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Only this conversation's stars; all of them when left out
+  chatId?: string;
+  onSelect: (entry: StarredMessage) => void;
+}
+
+const formatStarredDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Subscribes only while open
+const StarredMessageList: React.FC<Omit<StarredMessagesDialogProps, 'isOpen' | 'onClose'>> = ({ chatId, onSelect }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const starred = useStarredMessages(user?.uid);
+  const entries = useMemo(
+    () => (chatId ? starred.filter(entry => entry.chatId === chatId) : starred),
+    [starred, chatId]
+  );
+  const previews = useStarredPreviews(entries);
+
+  // Grouped by conversation, conversations ordered by their latest star
+  const grouped = useMemo(() => {
+    const groups = new Map<string, StarredMessage[]>();
+    entries.forEach((entry) => {
+      groups.set(entry.chatId, [...(groups.get(entry.chatId) || []), entry]);
+    });
+    return [...groups.entries()];
+  }, [entries]);
+
+  // Names are only shown when listing every conversation
+  const chats = useMemo(
+    () => (chatId ? [] : grouped.map(([id, [first]]) => ({ id, isGroup: first.isGroup }))),
+    [grouped, chatId]
+  );
+  const chatNames = useChatNames(user?.uid, chats);
+
+  const handleUnstar = async (entry: StarredMessage) => {
+    if (!user) return;
+
+    try {
+      await unstarMessage(user.uid, entry.messageId);
+    } catch (error) {
+      console.error('Error unstarring message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unstar message",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (entries.length === 0) {
+    return (
+      <p className="p-4 text-center text-sm text-muted-foreground">
+        Right-click a message and choose Star to find it here later
+      </p>
+    );
+  }
+
+  return (
+    <ScrollArea className="max-h-96">
+      <div className="space-y-4">
+        {grouped.map(([id, chatEntries]) => (
+          <div key={id} className="space-y-1">
+            {!chatId && (
+              <div className="flex items-center gap-2 px-2 text-xs font-medium uppercase text-muted-foreground">
+                {chatEntries[0].isGroup && <Users className="h-3 w-3" />}
+                {chatNames[id] || '...'}
+                <span className="normal-case font-normal">({chatEntries.length})</span>
+              </div>
+            )}
+            {chatEntries.map((entry) => {
+              const preview = previews[entry.messageId];
+              const sender = preview === undefined
+                ? '...'
+                : !preview ? 'Unknown User' : preview.senderId === user?.uid ? 'You' : preview.senderName;
+
+              return (
+                <div key={entry.messageId} className="flex items-start gap-1 rounded-lg hover:bg-secondary/50">
+                  <button
+                    type="button"
+                    onClick={() => onSelect(entry)}
+                    className="flex-1 min-w-0 p-2 text-left"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium truncate">{sender}</span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {formatStarredDate(entry.timestamp)}
+                      </span>
+                    </div>
+                    {preview?.snippet ? (
+                      <p className="text-sm text-muted-foreground line-clamp-2 break-words">{preview.snippet}</p>
+                    ) : preview !== undefined && (
+                      <p className="text-sm text-muted-foreground italic">
+                        {preview ? 'This message was deleted' : 'Message unavailable'}
+                      </p>
+                    )}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleUnstar(entry)}
+                    className="p-2 mt-1"
+                    title="Unstar"
+                  >
+                    <StarOff className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+};
+
+export const StarredMessagesDialog: React.FC<StarredMessagesDialogProps> = ({ isOpen, onClose, chatId, onSelect }) => (
+  <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="max-w-lg">
+      <DialogHeader>
+        <DialogTitle>Starred messages</DialogTitle>
+        <DialogDescription>
+          {chatId ? 'Messages you starred in this conversation.' : 'Messages you starred across all your conversations.'}
+        </DialogDescription>
+      </DialogHeader>
+      {isOpen && <StarredMessageList chatId={chatId} onSelect={onSelect} />}
+    </DialogContent>
+  </Dialog>
+);
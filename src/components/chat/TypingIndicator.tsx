@@ -1,111 +1,149 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { ref, onValue, off, set, remove } from 'firebase/database';
-import { database } from '@/lib/firebase';
-
-interface TypingIndicatorProps {
-  chatId: string;
-  isGroup?: boolean;
-}
+import {
+  subscribeToTyping,
+  subscribeToServerTimeOffset,
+  setTyping,
+  clearTyping,
+  getActiveTypers,
+  getTypingText,
+  type TypingActivity,
+  type TypingEntry
+} from '@/lib/chat';
+
+// Typing stops counting after this long without a keystroke
+const TYPING_IDLE = 3000;
+// How often an ongoing activity is written again, well within TYPING_TIMEOUT
+const TYPING_REFRESH = 4000;
+
+const reportError = (error: unknown) => {
+  console.error('Error updating typing status:', error);
+};
 
-// Custom hook for typing functionality
-export const useTypingIndicator = ({ chatId, isGroup = false }: TypingIndicatorProps) => {
+// Publishes what the current user is doing in `chatId`: typing while keys
+// are pressed, recording while a voice message is being recorded
+export const useTypingIndicator = ({ chatId }: { chatId: string }) => {
   const { user, userProfile } = useAuth();
-  const [typingUsers, setTypingUsers] = useState<string[]>([]);
-  const [isTyping, setIsTyping] = useState(false);
+  const [activity, setActivity] = useState<TypingActivity | null>(null);
+  const idleTimeout = useRef<ReturnType<typeof setTimeout>>();
+  const name = userProfile?.displayName;
 
   useEffect(() => {
-    if (!chatId) return;
+    setActivity(null);
+  }, [chatId]);
 
-    const typingRef = ref(database, `typing/${chatId}`);
-    
-    const handleTypingChange = (snapshot: any) => {
-      const data = snapshot.val();
-      if (data) {
-        const users = Object.keys(data).filter(uid => uid !== user?.uid);
-        setTypingUsers(users);
-      } else {
-        setTypingUsers([]);
-      }
-    };
+  // Written on every change and then periodically, so the entry doesn't go stale
+  useEffect(() => {
+    if (!activity || !user || !name) return;
 
-    onValue(typingRef, handleTypingChange);
+    const write = () => setTyping(chatId, user.uid, name, activity).catch(reportError);
+    write();
+    const interval = setInterval(write, TYPING_REFRESH);
 
     return () => {
-      off(typingRef, 'value', handleTypingChange);
-      // Clean up typing status on unmount
-      if (user) {
-        const userTypingRef = ref(database, `typing/${chatId}/${user.uid}`);
-        remove(userTypingRef);
-      }
+      clearInterval(interval);
+      clearTyping(chatId, user.uid).catch(reportError);
     };
-  }, [chatId, user]);
-
-  const setTypingStatus = (typing: boolean) => {
-    if (!user || !userProfile) return;
-
-    const userTypingRef = ref(database, `typing/${chatId}/${user.uid}`);
-    
-    if (typing) {
-      set(userTypingRef, {
-        name: userProfile.displayName,
-        timestamp: Date.now()
-      });
-    } else {
-      remove(userTypingRef);
-    }
-  };
-
-  // Auto-cleanup typing status after 3 seconds of inactivity
+  }, [activity, chatId, user, name]);
+
+  useEffect(() => () => clearTimeout(idleTimeout.current), []);
+
+  const handleTyping = useCallback(() => {
+    clearTimeout(idleTimeout.current);
+    setActivity(current => current || 'typing');
+    idleTimeout.current = setTimeout(() => {
+      setActivity(current => (current === 'typing' ? null : current));
+    }, TYPING_IDLE);
+  }, []);
+
+  const handleStopTyping = useCallback(() => {
+    clearTimeout(idleTimeout.current);
+    setActivity(current => (current === 'typing' ? null : current));
+  }, []);
+
+  const setRecording = useCallback((isRecording: boolean) => {
+    clearTimeout(idleTimeout.current);
+    setActivity(current => (isRecording ? 'recording' : current === 'recording' ? null : current));
+  }, []);
+
+  return { handleTyping, handleStopTyping, setRecording };
+};
+
+// Everyone else active in `chatId`. Re-checked every second so entries left
+// by clients that went away drop out without anything changing in the database.
+export const useTypingUsers = (chatId: string | undefined) => {
+  const { user } = useAuth();
+  const [typing, setTypingEntries] = useState<Record<string, TypingEntry>>({});
+  const [now, setNow] = useState(Date.now());
+  // Entries are stamped by the backend, so they're compared on its clock
+  const [serverOffset, setServerOffset] = useState(0);
+
+  useEffect(() => subscribeToServerTimeOffset(setServerOffset), []);
+
   useEffect(() => {
-    if (isTyping) {
-      const timeout = setTimeout(() => {
-        setTypingStatus(false);
-        setIsTyping(false);
-      }, 3000);
-
-      return () => clearTimeout(timeout);
-    }
-  }, [isTyping]);
-
-  const handleTyping = () => {
-    if (!isTyping) {
-      setIsTyping(true);
-      setTypingStatus(true);
-    }
-  };
-
-  const handleStopTyping = () => {
-    if (isTyping) {
-      setIsTyping(false);
-      setTypingStatus(false);
-    }
-  };
-
-  const getTypingText = () => {
-    if (typingUsers.length === 0) return '';
-    if (typingUsers.length === 1) return 'Someone is typing...';
-    return `${typingUsers.length} people are typing...`;
-  };
-
-  return {
-    typingText: getTypingText(),
-    isAnyoneTyping: typingUsers.length > 0,
-    handleTyping,
-    handleStopTyping
-  };
+    setTypingEntries({});
+    if (!chatId) return;
+
+    return subscribeToTyping(chatId, (entries) => {
+      setTypingEntries(entries);
+      setNow(Date.now());
+    });
+  }, [chatId]);
+
+  const hasEntries = Object.keys(typing).length > 0;
+  useEffect(() => {
+    if (!hasEntries) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasEntries]);
+
+  return getActiveTypers(typing, user?.uid, now + serverOffset);
 };
 
+const TypingDots: React.FC = () => (
+  <span className="inline-flex items-end gap-0.5 h-3" aria-hidden="true">
+    {[0, 150, 300].map(delay => (
+      <span
+        key={delay}
+        className="h-1.5 w-1.5 rounded-full bg-current animate-bounce"
+        style={{ animationDelay: `${delay}ms` }}
+      />
+    ))}
+  </span>
+);
+
 // Component for displaying typing indicator
 export const TypingDisplay: React.FC<{ chatId: string }> = ({ chatId }) => {
-  const { typingText, isAnyoneTyping } = useTypingIndicator({ chatId });
+  const typers = useTypingUsers(chatId);
 
-  if (!isAnyoneTyping) return null;
+  if (typers.length === 0) return null;
 
   return (
-    <div className="px-4 py-2 text-sm text-muted-foreground italic">
-      {typingText}
+    <div className="px-4 py-2 text-sm text-muted-foreground italic flex items-center gap-2">
+      <TypingDots />
+      {getTypingText(typers)}
     </div>
   );
 };
+
+interface TypingPreviewProps {
+  chatId: string;
+  showNames?: boolean;
+  // Shown while nobody is typing
+  children: React.ReactNode;
+}
+
+// Preview line of a chat list entry, replaced by the typing status while
+// someone is typing or recording
+export const TypingPreview: React.FC<TypingPreviewProps> = ({ chatId, showNames = true, children }) => {
+  const typers = useTypingUsers(chatId);
+
+  if (typers.length === 0) return <>{children}</>;
+
+  return (
+    <p className="text-xs md:text-sm truncate flex-1 text-primary italic">
+      {getTypingText(typers, showNames)}
+    </p>
+  );
+};
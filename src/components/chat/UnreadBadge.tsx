@@ -0,0 +1,18 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+
+interface UnreadBadgeProps {
+  count: number;
+  // Muted conversations get a quieter badge
+  muted?: boolean;
+  className?: string;
+}
+
+export const UnreadBadge: React.FC<UnreadBadgeProps> = ({ count, muted = false, className = '' }) => (
+  <Badge
+    variant={muted ? 'secondary' : 'default'}
+    className={`h-5 min-w-5 justify-center rounded-full px-1.5 text-xs flex-shrink-0 ${className}`}
+  >
+    {count > 99 ? '99+' : count}
+  </Badge>
+);
@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
-import { ref, get } from 'firebase/database';
-import { database } from '@/lib/firebase';
+import { getUser, getPresenceLabel, getVisiblePresence, getVisiblePhotoURL, type UserProfile as UserData } from '@/lib/chat';
+import { usePrivacyViewer } from '@/hooks/usePrivacy';
+import { usePresence } from '@/hooks/usePresence';
 import { useAuth } from '@/contexts/AuthContext';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -14,24 +15,9 @@ import { Trophy, Crown, MessageCircle, Book, Sun, Moon, Heart, Users, Zap, User,
 interface UserProfileProps {
   userId: string;
   trigger?: React.ReactNode;
-}
-
-interface Achievement {
-  awarded: boolean;
-  timestamp: number;
-  awardedBy?: string;
-}
-
-interface UserData {
-  uid: string;
-  displayName: string;
-  email: string;
-  photoURL?: string;
-  isVerified?: boolean;
-  isOnline?: boolean;
-  joinedAt?: number;
-  lastActive?: number;
-  achievements?: { [key: string]: Achievement };
+  // When given, the dialog is opened from outside and has no trigger of its own
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
 const achievementIcons = {
@@ -60,20 +46,28 @@ const achievementDescriptions = {
 
 export const UserProfile: React.FC<UserProfileProps> = ({ 
   userId, 
-  trigger 
+  trigger,
+  open,
+  onOpenChange
 }) => {
   const { user } = useAuth();
   const [userData, setUserData] = useState<UserData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [openState, setOpenState] = useState(false);
+  const isOpen = open ?? openState;
+  const setIsOpen = onOpenChange || setOpenState;
+  const viewer = usePrivacyViewer();
+  // Only followed while the profile is on screen
+  const rawPresence = usePresence(isOpen ? userId : undefined);
+  const presence = getVisiblePresence(rawPresence, userData, viewer);
 
   useEffect(() => {
     const fetchUserData = async () => {
       try {
-        const userRef = ref(database, `users/${userId}`);
-        const snapshot = await get(userRef);
+        const profile = await getUser(userId);
         
-        if (snapshot.exists()) {
-          setUserData({ uid: userId, ...snapshot.val() });
+        if (profile) {
+          setUserData(profile);
         }
       } catch (error) {
         console.error('Error fetching user data:', error);
@@ -99,12 +93,16 @@ export const UserProfile: React.FC<UserProfileProps> = ({
       .map(([name, achievement]) => ({ name, ...achievement }));
   };
 
+  const triggerButton = open === undefined && (
+    <DialogTrigger asChild>
+      {trigger || <Button variant="ghost" size="sm">View Profile</Button>}
+    </DialogTrigger>
+  );
+
   if (loading) {
     return (
-      <Dialog>
-        <DialogTrigger asChild>
-          {trigger || <Button variant="ghost" size="sm">View Profile</Button>}
-        </DialogTrigger>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        {triggerButton}
         <DialogContent>
           <div className="p-4 text-center">Loading...</div>
         </DialogContent>
@@ -114,10 +112,8 @@ export const UserProfile: React.FC<UserProfileProps> = ({
 
   if (!userData) {
     return (
-      <Dialog>
-        <DialogTrigger asChild>
-          {trigger || <Button variant="ghost" size="sm">View Profile</Button>}
-        </DialogTrigger>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        {triggerButton}
         <DialogContent>
           <div className="p-4 text-center text-muted-foreground">User not found</div>
         </DialogContent>
@@ -128,10 +124,8 @@ export const UserProfile: React.FC<UserProfileProps> = ({
   const achievements = getAchievements();
 
   return (
-    <Dialog>
-      <DialogTrigger asChild>
-        {trigger || <Button variant="ghost" size="sm">View Profile</Button>}
-      </DialogTrigger>
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      {triggerButton}
       <DialogContent className="max-w-md">
         <DialogHeader>
           <DialogTitle>User Profile</DialogTitle>
@@ -144,7 +138,7 @@ export const UserProfile: React.FC<UserProfileProps> = ({
               <CardContent className="pt-6">
                 <div className="flex items-center space-x-4">
                   <Avatar className="h-16 w-16">
-                    <AvatarImage src={userData.photoURL} />
+                    <AvatarImage src={getVisiblePhotoURL(userData, viewer)} />
                     <AvatarFallback className="text-lg">
                       {userData.displayName?.[0]?.toUpperCase() || 'U'}
                     </AvatarFallback>
@@ -158,8 +152,8 @@ export const UserProfile: React.FC<UserProfileProps> = ({
                     </div>
                     <p className="text-sm text-muted-foreground">{userData.email}</p>
                     <div className="mt-2">
-                      <Badge variant={userData.isOnline ? "default" : "secondary"}>
-                        {userData.isOnline ? "Online" : "Offline"}
+                      <Badge variant={presence?.state === 'online' ? "default" : presence?.state === 'idle' ? "outline" : "secondary"}>
+                        {getPresenceLabel(presence)}
                       </Badge>
                     </div>
                   </div>
@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { formatDuration } from '@/lib/chat';
+import { Button } from '@/components/ui/button';
+import { Pause, Play } from 'lucide-react';
+
+interface VoiceNotePlayerProps {
+  src: string;
+  duration: number;
+  waveform: number[];
+  isOwn?: boolean;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+// Bars drawn when a recording has no waveform
+const FLAT_WAVEFORM = Array(48).fill(0.3);
+
+export const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ src, duration, waveform, isOwn }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const bars = waveform.length ? waveform : FLAT_WAVEFORM;
+  const progress = duration ? Math.min(1, currentTime / duration) : 0;
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((error) => console.error('Error playing voice message:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    const time = Math.min(1, Math.max(0, (e.clientX - left) / width)) * duration;
+    audio.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const cyclePlaybackRate = () => {
+    setPlaybackRate(rate => PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+  };
+
+  return (
+    <div className="flex items-center gap-2 min-w-[200px]">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={togglePlayback}
+        className="h-8 w-8 p-0 flex-shrink-0"
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <div className="flex-1 min-w-0">
+        <div
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          onClick={handleSeek}
+          className="flex items-center gap-px h-8 cursor-pointer"
+        >
+          {bars.map((level, index) => (
+            <div
+              key={index}
+              className={`flex-1 rounded-full ${
+                index / bars.length < progress
+                  ? (isOwn ? 'bg-primary-foreground' : 'bg-primary')
+                  : (isOwn ? 'bg-primary-foreground/40' : 'bg-muted-foreground/40')
+              }`}
+              style={{ height: `${Math.max(12, level * 100)}%` }}
+            />
+          ))}
+        </div>
+        <p className={`text-xs ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+          {formatDuration(isPlaying || currentTime ? currentTime : duration)}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={cyclePlaybackRate}
+        className={`text-xs font-medium rounded-full px-2 py-0.5 flex-shrink-0 ${
+          isOwn ? 'bg-primary-foreground/20' : 'bg-background/60'
+        }`}
+      >
+        {playbackRate}×
+      </button>
+    </div>
+  );
+};
@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import { playNotificationSound } from '@/lib/desktopNotifications';
 import { Vibrate, Volume2, VolumeX, Download, Share } from 'lucide-react';
 
 export const MobileFeatures: React.FC = () => {
   const { toast } = useToast();
   const [isVibrationEnabled, setIsVibrationEnabled] = useState(true);
-  const [isNotificationSoundEnabled, setIsNotificationSoundEnabled] = useState(true);
+  const { settings: notificationSettings, update: updateNotificationSettings } = useNotificationSettings();
+  const isNotificationSoundEnabled = notificationSettings.sound;
 
   // Vibration feedback
   const vibrate = (pattern: number | number[] = 100) => {
@@ -73,15 +76,13 @@ export const MobileFeatures: React.FC = () => {
     }
   };
 
-  // Notification sound
-  const playNotificationSound = () => {
-    if (isNotificationSoundEnabled) {
-      const audio = new Audio('/notification.mp3');
-      audio.play().catch(() => {
-        // Fallback if audio file doesn't exist
-        console.log('Notification sound not available');
-      });
-    }
+  // Same setting the message notifications use
+  const toggleNotificationSound = () => {
+    const sound = !isNotificationSoundEnabled;
+    updateNotificationSettings({ sound }).catch((error) => {
+      console.error('Error updating notification settings:', error);
+    });
+    if (sound) playNotificationSound();
   };
 
   return (
@@ -127,10 +128,7 @@ export const MobileFeatures: React.FC = () => {
       <Button
         variant="outline"
         size="sm"
-        onClick={() => {
-          setIsNotificationSoundEnabled(!isNotificationSoundEnabled);
-          if (!isNotificationSoundEnabled) playNotificationSound();
-        }}
+        onClick={toggleNotificationSound}
         className="touch-target"
       >
         {isNotificationSoundEnabled ? (
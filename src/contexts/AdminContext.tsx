@@ -1,7 +1,54 @@
 import React, { createContext, useState, useEffect, useContext } from 'react';
-import { ref, update, get, onValue, off, remove, push, set } from 'firebase/database';
-import { database } from '@/lib/firebase';
 import { useAuth } from './AuthContext';
+import {
+  getAdmin,
+  hasAnyAdmin,
+  setAdmin,
+  subscribeToAdminSettings,
+  updateAdminSettings,
+  updateUser,
+  updateGroup,
+  getGroup,
+  updateGroupMember,
+  addGroupMember,
+  removeGroupMember,
+  banGroupMember,
+  awardAchievement,
+  revokeAchievement,
+  deleteChat as deleteChatRecord,
+  deleteMessageForEveryone as deleteMessageRecord,
+  resolveChat,
+  getUsers,
+  getGroups,
+  getChatIds,
+  getAllMessages,
+  backfillUserChats,
+  backfillSearchKeys,
+  pushNotification,
+  type AdminNotificationAction,
+  type AdminSettings,
+  type AttachmentLimits,
+  type ChatNotification,
+  type FeatureFlag,
+  type ReactionSettings,
+  type UserProfile
+} from '@/lib/chat';
+
+export interface UserAnalytics {
+  totalUsers: number;
+  onlineUsers: number;
+  verifiedUsers: number;
+  newUsersToday: number;
+  totalChats: number;
+  totalGroups: number;
+  totalMessages: number;
+  mostActiveUsers: (UserProfile & { messageCount: number })[];
+}
+
+export interface BackfillResult {
+  conversations: number;
+  users: number;
+}
 
 interface AdminContextProps {
   isAdmin: boolean;
@@ -9,7 +56,7 @@ interface AdminContextProps {
   giveBlueTickToUser: (userId: string) => Promise<void>;
   removeUser: (userId: string) => Promise<void>;
   disableUser: (userId: string, durationInDays: number) => Promise<void>;
-  toggleFeature: (feature: string) => Promise<void>;
+  toggleFeature: (feature: FeatureFlag) => Promise<void>;
   toggleMaintenanceMode: () => Promise<void>;
   removeGroup: (groupId: string) => Promise<void>;
   disableGroup: (groupId: string, durationInDays: number) => Promise<void>;
@@ -18,23 +65,15 @@ interface AdminContextProps {
   removeMemberFromGroup: (groupId: string, userId: string) => Promise<void>;
   giveAchievementToUser: (userId: string, achievement: string) => Promise<void>;
   removeAchievementFromUser: (userId: string, achievement: string) => Promise<void>;
-  getUserAnalytics: () => Promise<any>;
+  getUserAnalytics: () => Promise<UserAnalytics>;
   updateGroupMemberLimit: (limit: number) => Promise<void>;
+  updateMessageEditWindow: (minutes: number) => Promise<void>;
+  updateAttachmentLimits: (limits: AttachmentLimits) => Promise<void>;
+  updateReactionSettings: (settings: ReactionSettings) => Promise<void>;
   deleteMessageForEveryone: (chatId: string, messageId: string) => Promise<void>;
   banUserFromGroup: (groupId: string, userId: string) => Promise<void>;
   makeUserGroupAdmin: (groupId: string, userId: string) => Promise<void>;
-}
-
-interface AdminSettings {
-  maintenanceMode: boolean;
-  groupMemberLimit: number;
-  featureFlags: {
-    enableGroupChat: boolean;
-    enableFileSharing: boolean;
-    enableVoiceMessages: boolean;
-    enableMessageReactions: boolean;
-    enableMessageDeletion: boolean;
-  };
+  backfillIndexes: () => Promise<BackfillResult>;
 }
 
 const AdminContext = createContext<AdminContextProps | null>(null);
@@ -42,6 +81,25 @@ const AdminContext = createContext<AdminContextProps | null>(null);
 const initialSettings: AdminSettings = {
   maintenanceMode: false,
   groupMemberLimit: 10,
+  messageEditWindowMinutes: 15,
+  attachmentLimits: {
+    maxImageSizeMB: 20,
+    maxFileSizeMB: 10,
+    allowedTypes: [
+      'image/*',
+      'application/pdf',
+      'text/plain',
+      'application/zip',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    ]
+  },
+  reactions: {
+    quickReactions: ['❤️', '👍', '😂', '😮', '😢', '😡'],
+    allowMultiple: false
+  },
   featureFlags: {
     enableGroupChat: true,
     enableFileSharing: true,
@@ -52,7 +110,7 @@ const initialSettings: AdminSettings = {
 };
 
 export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
   const [isAdmin, setIsAdmin] = useState(false);
   const [adminSettings, setAdminSettings] = useState<AdminSettings>(initialSettings);
 
@@ -60,19 +118,15 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const checkAdminStatus = async () => {
       if (user) {
         try {
-          const adminRef = ref(database, `admins/${user.uid}`);
-          const snapshot = await get(adminRef);
+          const admin = await getAdmin(user.uid);
           
-          if (snapshot.exists()) {
+          if (admin) {
             setIsAdmin(true);
           } else {
             // Check if there are any admins in the system
-            const allAdminsRef = ref(database, 'admins');
-            const allAdminsSnapshot = await get(allAdminsRef);
-            
-            if (!allAdminsSnapshot.exists()) {
+            if (!(await hasAnyAdmin())) {
               // If no admins exist, make this user the first admin
-              await set(adminRef, {
+              await setAdmin(user.uid, {
                 email: user.email,
                 displayName: user.displayName,
                 createdAt: Date.now()
@@ -95,30 +149,51 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   }, [user]);
 
   useEffect(() => {
-    const settingsRef = ref(database, 'adminSettings');
-    
-    const handleSettingsChange = (snapshot: any) => {
-      const data = snapshot.val();
+    const unsubscribe = subscribeToAdminSettings((data) => {
       if (data) {
-        setAdminSettings(data);
+        // Settings saved before a field existed fall back to its default
+        setAdminSettings({
+          ...initialSettings,
+          ...data,
+          featureFlags: { ...initialSettings.featureFlags, ...data.featureFlags },
+          attachmentLimits: { ...initialSettings.attachmentLimits, ...data.attachmentLimits },
+          reactions: { ...initialSettings.reactions, ...data.reactions }
+        });
       } else {
         // Initialize with default settings if none exist
-        update(settingsRef, initialSettings);
+        updateAdminSettings(initialSettings);
         setAdminSettings(initialSettings);
       }
-    };
-
-    onValue(settingsRef, handleSettingsChange);
+    });
 
-    return () => {
-      off(settingsRef, 'value', handleSettingsChange);
-    };
+    return unsubscribe;
   }, []);
 
+  // Tells the affected user what happened. A failed notification is only
+  // logged, the action itself already went through.
+  const notifyUser = async (userId: string, notification: ChatNotification) => {
+    try {
+      await pushNotification(userId, notification);
+    } catch (error) {
+      console.error("Error sending notification:", error);
+    }
+  };
+
+  const fromAdmin = () => ({
+    from: user?.uid || '',
+    fromName: userProfile?.displayName || 'Admin',
+    timestamp: Date.now()
+  });
+
+  const notifyGroupMember = async (groupId: string, userId: string, action: AdminNotificationAction) => {
+    const group = await getGroup(groupId).catch(() => null);
+    await notifyUser(userId, { ...fromAdmin(), type: 'admin', action, groupId, groupName: group?.name });
+  };
+
   const giveBlueTickToUser = async (userId: string) => {
     try {
-      const userRef = ref(database, `users/${userId}`);
-      await update(userRef, { isVerified: true });
+      await updateUser(userId, { isVerified: true });
+      await notifyUser(userId, { ...fromAdmin(), type: 'admin', action: 'verified' });
     } catch (error) {
       console.error("Error giving blue tick:", error);
       throw error;
@@ -127,8 +202,7 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const removeUser = async (userId: string) => {
     try {
-      const userRef = ref(database, `users/${userId}`);
-      await update(userRef, { isDisabled: true, disabledAt: Date.now() });
+      await updateUser(userId, { isDisabled: true, disabledAt: Date.now() });
     } catch (error) {
       console.error("Error removing user:", error);
       throw error;
@@ -137,27 +211,26 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const disableUser = async (userId: string, durationInDays: number) => {
     try {
-      const userRef = ref(database, `users/${userId}`);
       const disableUntil = Date.now() + durationInDays * 24 * 60 * 60 * 1000;
-      await update(userRef, { 
+      await updateUser(userId, { 
         isDisabled: true, 
         disabledUntil: disableUntil,
         disabledAt: Date.now(),
         disabledBy: user?.uid
       });
+      await notifyUser(userId, { ...fromAdmin(), type: 'admin', action: 'disabled', until: disableUntil });
     } catch (error) {
       console.error("Error disabling user:", error);
       throw error;
     }
   };
 
-  const toggleFeature = async (feature: string) => {
+  const toggleFeature = async (feature: FeatureFlag) => {
     try {
-      const currentValue = adminSettings.featureFlags[feature as keyof typeof adminSettings.featureFlags];
+      const currentValue = adminSettings.featureFlags[feature];
       const newValue = !currentValue;
       
-      const settingsRef = ref(database, 'adminSettings');
-      await update(settingsRef, { 
+      await updateAdminSettings({ 
         featureFlags: {
           ...adminSettings.featureFlags,
           [feature]: newValue
@@ -172,8 +245,7 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const toggleMaintenanceMode = async () => {
     try {
       const newValue = !adminSettings.maintenanceMode;
-      const settingsRef = ref(database, 'adminSettings');
-      await update(settingsRef, { 
+      await updateAdminSettings({ 
         maintenanceMode: newValue 
       });
     } catch (error) {
@@ -184,8 +256,7 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const removeGroup = async (groupId: string) => {
     try {
-      const groupRef = ref(database, `groups/${groupId}`);
-      await update(groupRef, { 
+      await updateGroup(groupId, { 
         isDeleted: true, 
         deletedAt: Date.now(),
         deletedBy: user?.uid
@@ -198,9 +269,8 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const disableGroup = async (groupId: string, durationInDays: number) => {
     try {
-      const groupRef = ref(database, `groups/${groupId}`);
       const disableUntil = Date.now() + durationInDays * 24 * 60 * 60 * 1000;
-      await update(groupRef, { 
+      await updateGroup(groupId, { 
         isDisabled: true, 
         disabledUntil: disableUntil,
         disabledAt: Date.now(),
@@ -214,16 +284,8 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const deleteChat = async (chatId: string) => {
     try {
-      const chatRef = ref(database, `chats/${chatId}`);
-      await update(chatRef, { 
-        isDeleted: true,
-        deletedAt: Date.now(),
-        deletedBy: user?.uid
-      });
-      
-      // Also delete associated messages
-      const messagesRef = ref(database, `messages/${chatId}`);
-      await remove(messagesRef);
+      // Marks the chat deleted and removes its messages
+      await deleteChatRecord(chatId, user?.uid);
     } catch (error) {
       console.error("Error deleting chat:", error);
       throw error;
@@ -232,13 +294,8 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const deleteMessageForEveryone = async (chatId: string, messageId: string) => {
     try {
-      const messageRef = ref(database, `messages/${chatId}/${messageId}`);
-      await update(messageRef, {
-        isDeleted: true,
-        deletedAt: Date.now(),
-        deletedBy: user?.uid,
-        deletedForEveryone: true
-      });
+      const chat = await resolveChat(chatId);
+      await deleteMessageRecord(chat, messageId, user?.uid);
     } catch (error) {
       console.error("Error deleting message:", error);
       throw error;
@@ -248,9 +305,7 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const addMemberToGroup = async (groupId: string, userId: string) => {
     try {
       // Check current member count
-      const groupRef = ref(database, `groups/${groupId}`);
-      const snapshot = await get(groupRef);
-      const groupData = snapshot.val();
+      const groupData = await getGroup(groupId);
       
       if (!groupData) throw new Error("Group not found");
       
@@ -259,12 +314,18 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         throw new Error(`Group member limit of ${adminSettings.groupMemberLimit} reached`);
       }
 
-      const memberRef = ref(database, `groups/${groupId}/members/${userId}`);
-      await update(memberRef, {
+      await addGroupMember(groupId, userId, {
         role: 'member',
         joinedAt: Date.now(),
         addedBy: user?.uid
       });
+      await notifyUser(userId, {
+        ...fromAdmin(),
+        type: 'admin',
+        action: 'addedToGroup',
+        groupId,
+        groupName: groupData.name
+      });
     } catch (error) {
       console.error("Error adding member to group:", error);
       throw error;
@@ -273,8 +334,8 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const removeMemberFromGroup = async (groupId: string, userId: string) => {
     try {
-      const memberRef = ref(database, `groups/${groupId}/members/${userId}`);
-      await remove(memberRef);
+      await removeGroupMember(groupId, userId);
+      await notifyGroupMember(groupId, userId, 'removedFromGroup');
     } catch (error) {
       console.error("Error removing member from group:", error);
       throw error;
@@ -283,12 +344,8 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const banUserFromGroup = async (groupId: string, userId: string) => {
     try {
-      const memberRef = ref(database, `groups/${groupId}/members/${userId}`);
-      await update(memberRef, {
-        isBanned: true,
-        bannedAt: Date.now(),
-        bannedBy: user?.uid
-      });
+      await banGroupMember(groupId, userId, user?.uid);
+      await notifyGroupMember(groupId, userId, 'bannedFromGroup');
     } catch (error) {
       console.error("Error banning user from group:", error);
       throw error;
@@ -297,12 +354,12 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const makeUserGroupAdmin = async (groupId: string, userId: string) => {
     try {
-      const memberRef = ref(database, `groups/${groupId}/members/${userId}`);
-      await update(memberRef, {
+      await updateGroupMember(groupId, userId, {
         role: 'admin',
         promotedAt: Date.now(),
         promotedBy: user?.uid
       });
+      await notifyGroupMember(groupId, userId, 'promotedInGroup');
     } catch (error) {
       console.error("Error making user group admin:", error);
       throw error;
@@ -311,15 +368,13 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const giveAchievementToUser = async (userId: string, achievement: string) => {
     try {
-      const userRef = ref(database, `users/${userId}/achievements`);
       const timestamp = Date.now();
-      await update(userRef, { 
-        [achievement]: {
-          awarded: true,
-          timestamp,
-          awardedBy: user?.uid
-        }
+      await awardAchievement(userId, achievement, {
+        awarded: true,
+        timestamp,
+        awardedBy: user?.uid
       });
+      await notifyUser(userId, { ...fromAdmin(), type: 'achievement', achievement });
     } catch (error) {
       console.error("Error giving achievement:", error);
       throw error;
@@ -328,8 +383,7 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const removeAchievementFromUser = async (userId: string, achievement: string) => {
     try {
-      const achievementRef = ref(database, `users/${userId}/achievements/${achievement}`);
-      await remove(achievementRef);
+      await revokeAchievement(userId, achievement);
     } catch (error) {
       console.error("Error removing achievement:", error);
       throw error;
@@ -338,50 +392,76 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const updateGroupMemberLimit = async (limit: number) => {
     try {
-      const settingsRef = ref(database, 'adminSettings');
-      await update(settingsRef, { groupMemberLimit: limit });
+      await updateAdminSettings({ groupMemberLimit: limit });
     } catch (error) {
       console.error("Error updating group member limit:", error);
       throw error;
     }
   };
 
+  const updateMessageEditWindow = async (minutes: number) => {
+    try {
+      await updateAdminSettings({ messageEditWindowMinutes: minutes });
+    } catch (error) {
+      console.error("Error updating message edit window:", error);
+      throw error;
+    }
+  };
+
+  const updateAttachmentLimits = async (limits: AttachmentLimits) => {
+    try {
+      await updateAdminSettings({ attachmentLimits: limits });
+    } catch (error) {
+      console.error("Error updating attachment limits:", error);
+      throw error;
+    }
+  };
+
+  const updateReactionSettings = async (settings: ReactionSettings) => {
+    try {
+      await updateAdminSettings({ reactions: settings });
+    } catch (error) {
+      console.error("Error updating reaction settings:", error);
+      throw error;
+    }
+  };
+
+  // Brings data from before the conversation list and people search indexes up to date
+  const backfillIndexes = async () => {
+    try {
+      const [conversations, users] = await Promise.all([backfillUserChats(), backfillSearchKeys()]);
+      return { conversations, users };
+    } catch (error) {
+      console.error("Error backfilling indexes:", error);
+      throw error;
+    }
+  };
+
   const getUserAnalytics = async () => {
     try {
-      const usersRef = ref(database, 'users');
-      const chatsRef = ref(database, 'chats');
-      const messagesRef = ref(database, 'messages');
-      const groupsRef = ref(database, 'groups');
-
-      const [usersSnapshot, chatsSnapshot, messagesSnapshot, groupsSnapshot] = await Promise.all([
-        get(usersRef),
-        get(chatsRef),
-        get(messagesRef),
-        get(groupsRef)
+      const [users, chatIds, groups, messages] = await Promise.all([
+        getUsers(),
+        getChatIds(),
+        getGroups(),
+        getAllMessages()
       ]);
 
-      const users = usersSnapshot.val() || {};
-      const chats = chatsSnapshot.val() || {};
-      const messages = messagesSnapshot.val() || {};
-      const groups = groupsSnapshot.val() || {};
-
-      const analytics = {
-        totalUsers: Object.keys(users).length,
-        onlineUsers: Object.values(users).filter((u: any) => u.isOnline).length,
-        verifiedUsers: Object.values(users).filter((u: any) => u.isVerified).length,
-        newUsersToday: Object.values(users).filter((u: any) => {
-          const userCreated = u.createdAt || u.joinedAt || 0;
+      const analytics: UserAnalytics = {
+        totalUsers: users.length,
+        onlineUsers: users.filter(u => u.isOnline).length,
+        verifiedUsers: users.filter(u => u.isVerified).length,
+        newUsersToday: users.filter(u => {
+          const userCreated = u.joinedAt || 0;
           const today = new Date().setHours(0, 0, 0, 0);
           return userCreated >= today;
         }).length,
-        totalChats: Object.keys(chats).length,
-        totalGroups: Object.keys(groups).length,
-        totalMessages: Object.keys(messages).length,
-        mostActiveUsers: Object.entries(users)
-          .map(([uid, userData]: [string, any]) => ({
-            uid,
+        totalChats: chatIds.length,
+        totalGroups: groups.length,
+        totalMessages: messages.length,
+        mostActiveUsers: users
+          .map(userData => ({
             ...userData,
-            messageCount: Object.values(messages).filter((msg: any) => msg.senderId === uid).length
+            messageCount: messages.filter(msg => msg.senderId === userData.uid).length
           }))
           .sort((a, b) => b.messageCount - a.messageCount)
           .slice(0, 10)
@@ -411,9 +491,13 @@ export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     removeAchievementFromUser,
     getUserAnalytics,
     updateGroupMemberLimit,
+    updateMessageEditWindow,
+    updateAttachmentLimits,
+    updateReactionSettings,
     deleteMessageForEveryone,
     banUserFromGroup,
     makeUserGroupAdmin,
+    backfillIndexes,
   };
 
   return (
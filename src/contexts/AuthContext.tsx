@@ -1,37 +1,23 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { 
-  User, 
-  signInWithEmailAndPassword, 
-  createUserWithEmailAndPassword,
-  signOut,
-  onAuthStateChanged,
-  updateProfile
-} from 'firebase/auth';
-import { ref, set, get, serverTimestamp } from 'firebase/database';
-import { auth, database } from '@/lib/firebase';
-
-interface UserProfile {
-  uid: string;
-  email: string;
-  displayName: string;
-  photoURL?: string;
-  lastSeen: any;
-  isOnline: boolean;
-  isVerified?: boolean;
-  isDisabled?: boolean;
-  disabledUntil?: number;
-  totalSessions?: number;
-  joinedAt?: number;
-  lastActive?: number;
+import { getBackend, type AuthUser } from '@/lib/backend';
+import { getUser, saveUserProfile, updateUser, type UserProfile } from '@/lib/chat';
+import { usePresenceConnection } from '@/hooks/usePresence';
+import { clearCache } from '@/lib/cache';
+import { clearSearchIndex } from '@/lib/search';
+import { clearOutbox } from '@/lib/outbox';
+
+interface LogoutOptions {
+  // Also remove the message cache, search index and outbox kept in this browser
+  clearLocalData?: boolean;
 }
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   userProfile: UserProfile | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, displayName: string) => Promise<void>;
-  logout: () => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<void>;
   updateUserProfile: (data: Partial<UserProfile>) => Promise<void>;
 }
 
@@ -50,31 +36,30 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  // Starts once the profile is saved, so a disabled account never shows up online
+  const presence = usePresenceConnection(userProfile?.uid);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+    const { auth } = getBackend();
+    const unsubscribe = auth.onAuthStateChanged(async (user) => {
       setUser(user);
       
       if (user) {
         // Check if user is disabled
-        const userRef = ref(database, `users/${user.uid}`);
-        const snapshot = await get(userRef);
+        const userData = await getUser(user.uid);
         
-        if (snapshot.exists()) {
-          const userData = snapshot.val();
-          
+        if (userData) {
           // Check if user is currently disabled
           if (userData.isDisabled && userData.disabledUntil && userData.disabledUntil > Date.now()) {
             // User is still disabled, log them out
-            await signOut(auth);
+            await auth.signOut();
             return;
           } else if (userData.isDisabled && userData.disabledUntil && userData.disabledUntil <= Date.now()) {
             // Disable period has expired, re-enable user
-            await set(userRef, {
-              ...userData,
+            await updateUser(user.uid, {
               isDisabled: false,
               disabledUntil: null
             });
@@ -82,31 +67,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }
 
         // Set user online status
-        await set(userRef, {
+        await saveUserProfile(user.uid, {
           uid: user.uid,
           email: user.email,
           displayName: user.displayName || 'User',
           photoURL: user.photoURL || '',
-          lastSeen: serverTimestamp(),
           isOnline: true,
-          isVerified: snapshot.exists() ? snapshot.val().isVerified || false : false
+          isVerified: userData?.isVerified || false,
+          // Keep privacy choices across sign-ins
+          ...(userData?.privacy ? { privacy: userData.privacy } : {})
         });
 
         // Get user profile
-        const updatedSnapshot = await get(userRef);
-        if (updatedSnapshot.exists()) {
-          setUserProfile(updatedSnapshot.val());
+        const updatedProfile = await getUser(user.uid);
+        if (updatedProfile) {
+          setUserProfile(updatedProfile);
         }
-
-        // Set offline when user disconnects
-        const offlineRef = ref(database, `users/${user.uid}/isOnline`);
-        const lastSeenRef = ref(database, `users/${user.uid}/lastSeen`);
-        
-        // This will be triggered when the user goes offline
-        window.addEventListener('beforeunload', () => {
-          set(offlineRef, false);
-          set(lastSeenRef, serverTimestamp());
-        });
       } else {
         setUserProfile(null);
       }
@@ -118,28 +94,31 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   }, []);
 
   const login = async (email: string, password: string) => {
-    await signInWithEmailAndPassword(auth, email, password);
+    await getBackend().auth.signIn(email, password);
   };
 
   const register = async (email: string, password: string, displayName: string) => {
-    const { user } = await createUserWithEmailAndPassword(auth, email, password);
-    await updateProfile(user, { displayName });
+    await getBackend().auth.register(email, password, displayName);
   };
 
-  const logout = async () => {
-    if (user) {
-      // Set user offline before logging out
-      await set(ref(database, `users/${user.uid}/isOnline`), false);
-      await set(ref(database, `users/${user.uid}/lastSeen`), serverTimestamp());
+  const logout = async ({ clearLocalData = false }: LogoutOptions = {}) => {
+    // Set user offline before logging out
+    await presence.disconnect();
+    await getBackend().auth.signOut();
+
+    if (user && clearLocalData) {
+      try {
+        await Promise.all([clearCache(user.uid), clearSearchIndex(user.uid), clearOutbox(user.uid)]);
+      } catch (error) {
+        console.error('Error clearing local data:', error);
+      }
     }
-    await signOut(auth);
   };
 
   const updateUserProfile = async (data: Partial<UserProfile>) => {
     if (!user) return;
     
-    const userRef = ref(database, `users/${user.uid}`);
-    await set(userRef, { ...userProfile, ...data });
+    await saveUserProfile(user.uid, { ...userProfile, ...data });
     setUserProfile(prev => prev ? { ...prev, ...data } : null);
   };
 
@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { createMessageId, type ChatRef, type NewMessage } from '@/lib/chat';
+import { OutboxContext, type OutboxContextType } from '@/hooks/useOutbox';
+import { createOutboxSender, prepareAttempt, loadOutbox, saveOutboxEntry, removeOutboxEntry, type OutboxEntry } from '@/lib/outbox';
+
+// A write that hasn't been acknowledged by then is treated as failed
+const SEND_TIMEOUT = 10000;
+const MAX_ATTEMPTS = 5;
+const MAX_BACKOFF = 60000;
+
+const backoff = (attempts: number) => Math.min(MAX_BACKOFF, 1000 * 2 ** attempts);
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('Timed out')), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timeout));
+  });
+
+interface OutboxProviderProps {
+  children: ReactNode;
+}
+
+// Messages are shown as soon as they are sent and written in the background,
+// oldest first, retrying with backoff until the backend confirms them
+export const OutboxProvider: React.FC<OutboxProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  // The loop below works from the ref so it always sees the latest entries
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const flushing = useRef(false);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  // Lives as long as the provider, so it remembers writes across retries
+  const [send] = useState(createOutboxSender);
+
+  const commit = useCallback((next: OutboxEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  const putEntry = useCallback((entry: OutboxEntry) => {
+    const exists = entriesRef.current.some(current => current.id === entry.id);
+    commit(exists
+      ? entriesRef.current.map(current => current.id === entry.id ? entry : current)
+      : [...entriesRef.current, entry]);
+    saveOutboxEntry(uid, entry).catch((error) => {
+      console.error('Error saving outbox entry:', error);
+    });
+  }, [uid, commit]);
+
+  const dropEntry = useCallback((id: string) => {
+    commit(entriesRef.current.filter(entry => entry.id !== id));
+    removeOutboxEntry(uid, id).catch((error) => {
+      console.error('Error removing outbox entry:', error);
+    });
+  }, [uid, commit]);
+
+  // Saved before anything is written under the entry's id, so a reload can't
+  // give a message that may have landed a new id and send it twice
+  const startAttempt = useCallback(async (entry: OutboxEntry) => {
+    const started = prepareAttempt(entry);
+    commit(entriesRef.current.map(current => current.id === entry.id ? started : current));
+    try {
+      await saveOutboxEntry(uid, started);
+      if (started.id !== entry.id) await removeOutboxEntry(uid, entry.id);
+    } catch (error) {
+      console.error('Error saving outbox entry:', error);
+    }
+    return started;
+  }, [uid, commit]);
+
+  const flush = useCallback(async () => {
+    if (flushing.current || !uid) return;
+    flushing.current = true;
+    clearTimeout(timer.current);
+
+    try {
+      while (navigator.onLine) {
+        const now = Date.now();
+        const due = entriesRef.current.find(entry => entry.status === 'pending' && entry.nextAttemptAt <= now);
+        if (!due) break;
+
+        const entry = due.attempted ? due : await startAttempt(due);
+        try {
+          await withTimeout(send(entry, !!due.attempted), SEND_TIMEOUT);
+          dropEntry(entry.id);
+        } catch (error) {
+          console.error('Error sending message:', error);
+          const attempts = entry.attempts + 1;
+          putEntry({
+            ...entry,
+            attempts,
+            status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + backoff(attempts)
+          });
+          // Later messages wait so they don't overtake this one
+          break;
+        }
+      }
+    } finally {
+      flushing.current = false;
+      const nextAttemptAt = Math.min(...entriesRef.current
+        .filter(entry => entry.status === 'pending')
+        .map(entry => entry.nextAttemptAt));
+      // While offline the online event restarts the loop instead
+      if (navigator.onLine && Number.isFinite(nextAttemptAt)) {
+        timer.current = setTimeout(flush, Math.max(0, nextAttemptAt - Date.now()));
+      }
+    }
+  }, [uid, send, putEntry, dropEntry, startAttempt]);
+
+  // Pick up whatever was left unsent last time
+  useEffect(() => {
+    commit([]);
+    if (!uid) return;
+
+    let cancelled = false;
+    loadOutbox(uid)
+      .then((stored) => {
+        if (cancelled) return;
+        commit([...stored, ...entriesRef.current.filter(entry => !stored.some(item => item.id === entry.id))]);
+        flush();
+      })
+      .catch((error) => {
+        console.error('Error loading outbox:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer.current);
+    };
+  }, [uid, commit, flush]);
+
+  // Retry straight away when the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      commit(entriesRef.current.map(entry =>
+        entry.status === 'pending' ? { ...entry, nextAttemptAt: 0 } : entry
+      ));
+      flush();
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [commit, flush]);
+
+  const enqueue = (chat: ChatRef, message: NewMessage, recipientIds: string[]) => {
+    const id = createMessageId(chat);
+    putEntry({
+      id,
+      chat,
+      message,
+      recipientIds,
+      createdAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: 0,
+      status: 'pending'
+    });
+    flush();
+    return id;
+  };
+
+  const retry = (id: string) => {
+    const entry = entriesRef.current.find(current => current.id === id);
+    if (!entry) return;
+
+    // Attempts are kept so the retry checks whether an earlier one got through
+    putEntry({ ...entry, status: 'pending', nextAttemptAt: 0 });
+    flush();
+  };
+
+  const value: OutboxContextType = {
+    entries,
+    enqueue,
+    retry,
+    discard: dropEntry
+  };
+
+  return (
+    <OutboxContext.Provider value={value}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
@@ -0,0 +1,36 @@
+import { useState, useEffect, useRef } from 'react';
+import { getGroupName, getUser, getOtherParticipantId, type ChatRef } from '@/lib/chat';
+
+// Display names for conversations: the group's name, or the other person's.
+// Each conversation is looked up once; `chats` should keep its identity
+// between renders.
+export const useChatNames = (uid: string | undefined, chats: ChatRef[]) => {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!uid) return;
+
+    const missing = chats.filter(chat => !requested.current.has(chat.id));
+    if (missing.length === 0) return;
+    missing.forEach(chat => requested.current.add(chat.id));
+
+    Promise.all(missing.map(async (chat) => {
+      if (chat.isGroup) {
+        return [chat.id, (await getGroupName(chat.id)) || 'Group'];
+      }
+      const profile = await getUser(getOtherParticipantId(chat.id, uid));
+      return [chat.id, profile?.displayName || 'Unknown User'];
+    }))
+      .then((loaded) => {
+        setNames(prev => ({ ...prev, ...Object.fromEntries(loaded) }));
+      })
+      .catch((error) => {
+        // Tried again the next time the list changes
+        missing.forEach(chat => requested.current.delete(chat.id));
+        console.error('Error loading chat names:', error);
+      });
+  }, [uid, chats]);
+
+  return names;
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  DEFAULT_CHAT_LIST_SETTINGS,
+  subscribeToChatSettings,
+  subscribeToChatListSettings,
+  updateChatListSettings,
+  subscribeToUnreadChanges,
+  isChatArchived,
+  setChatArchived,
+  type ChatListSettings,
+  type ChatSettingsMap
+} from '@/lib/chat';
+
+export const useChatSettings = (uid: string | undefined) => {
+  const [settings, setSettings] = useState<ChatSettingsMap>({});
+
+  useEffect(() => {
+    setSettings({});
+    if (!uid) return;
+
+    return subscribeToChatSettings(uid, setSettings);
+  }, [uid]);
+
+  return settings;
+};
+
+export const useChatListSettings = (uid: string | undefined) => {
+  const [settings, setSettings] = useState<ChatListSettings>(DEFAULT_CHAT_LIST_SETTINGS);
+
+  useEffect(() => {
+    setSettings(DEFAULT_CHAT_LIST_SETTINGS);
+    if (!uid) return;
+
+    return subscribeToChatListSettings(uid, setSettings);
+  }, [uid]);
+
+  const update = useCallback(async (changes: Partial<ChatListSettings>) => {
+    if (!uid) return;
+    await updateChatListSettings(uid, changes);
+  }, [uid]);
+
+  return { settings, update };
+};
+
+// Brings archived conversations back into the list when a message arrives,
+// unless the user chose to keep them archived
+export const useAutoUnarchive = (uid: string | undefined, chatSettings: ChatSettingsMap) => {
+  const { settings } = useChatListSettings(uid);
+  const current = useRef({ chatSettings, keepArchived: settings.keepArchived });
+  current.current = { chatSettings, keepArchived: settings.keepArchived };
+
+  useEffect(() => {
+    if (!uid) return;
+
+    return subscribeToUnreadChanges(uid, ({ arrived }) => {
+      const { chatSettings, keepArchived } = current.current;
+      if (keepArchived) return;
+
+      arrived
+        .filter(chat => isChatArchived(chatSettings, chat.id))
+        .forEach((chat) => {
+          setChatArchived(uid, chat.id, false).catch((error) => {
+            console.error('Error unarchiving chat:', error);
+          });
+        });
+    });
+  }, [uid]);
+};
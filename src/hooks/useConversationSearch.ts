@@ -0,0 +1,85 @@
+import { useState, useEffect, useMemo } from 'react';
+import { toPlainText, type Message } from '@/lib/chat';
+
+interface HistoryPaging {
+  hasMore: boolean;
+  loadingOlder: boolean;
+  loadOlder: () => Promise<number>;
+}
+
+// Finds messages in the open conversation whose text, as shown, contains the
+// query. Matches are ordered newest first. While there is a query the rest of
+// the history is loaded page by page, so the count covers the whole
+// conversation.
+export const useConversationSearch = (messages: Message[], { hasMore, loadingOlder, loadOlder }: HistoryPaging) => {
+  const [query, setQuery] = useState('');
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+  // Set when a page fails to load, so it isn't retried in a loop
+  const [isStalled, setIsStalled] = useState(false);
+  const term = query.trim().toLowerCase();
+
+  const matches = useMemo(() => {
+    if (!term) return [];
+    return messages
+      .filter(message =>
+        !message.deletedForEveryone && toPlainText(message.text, message.mentions).toLowerCase().includes(term)
+      )
+      .map(message => message.id)
+      .reverse();
+  }, [messages, term]);
+
+  // A new query starts again from the newest match
+  useEffect(() => {
+    setActiveMessageId(null);
+    setIsStalled(false);
+  }, [term]);
+
+  const isCounting = !!term && hasMore && !isStalled;
+
+  useEffect(() => {
+    if (!isCounting || loadingOlder) return;
+
+    loadOlder().then((added) => {
+      if (added === 0) setIsStalled(true);
+    });
+  }, [isCounting, loadingOlder, loadOlder]);
+
+  useEffect(() => {
+    if (!activeMessageId && matches.length > 0) {
+      setActiveMessageId(matches[0]);
+    }
+  }, [activeMessageId, matches]);
+
+  const activeIndex = activeMessageId ? matches.indexOf(activeMessageId) : -1;
+
+  // Towards older messages
+  const next = () => {
+    if (activeIndex >= 0 && activeIndex < matches.length - 1) {
+      setActiveMessageId(matches[activeIndex + 1]);
+    }
+  };
+
+  // Towards newer messages
+  const previous = () => {
+    if (activeIndex > 0) {
+      setActiveMessageId(matches[activeIndex - 1]);
+    }
+  };
+
+  const reset = () => setQuery('');
+
+  return {
+    query,
+    setQuery,
+    term,
+    matchCount: matches.length,
+    activeIndex,
+    activeMessageId: activeIndex >= 0 ? activeMessageId : null,
+    // Older messages are still being searched
+    isSeeking: isCounting,
+    hasMore,
+    next,
+    previous,
+    reset
+  };
+};
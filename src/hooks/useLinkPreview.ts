@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { getLinkPreview, type LinkPreview } from '@/lib/unfurl';
+
+// The preview card for `url`, or null while it loads and when there is none
+export const useLinkPreview = (url: string | undefined) => {
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!url) return;
+
+    let cancelled = false;
+    getLinkPreview(url).then((result) => {
+      if (!cancelled) setPreview(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return preview;
+};
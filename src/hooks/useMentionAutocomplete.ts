@@ -0,0 +1,79 @@
+import { useCallback, useMemo, useState } from 'react';
+import { findMentionQuery, type MessageMentions } from '@/lib/chat';
+
+// How many people the suggestion list shows at once
+const MAX_SUGGESTIONS = 6;
+
+export interface MentionCandidate {
+  uid: string;
+  name: string;
+}
+
+// `@` suggestions for the composer, and the people picked from them so the
+// text can be turned into mention tokens when it is sent
+export const useMentionAutocomplete = (candidates: MentionCandidate[]) => {
+  const [picked, setPicked] = useState<MessageMentions>({});
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(() => {
+    if (!mention) return [];
+    const query = mention.query.toLowerCase();
+    return candidates
+      .filter(candidate => candidate.name.toLowerCase().includes(query))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [candidates, mention]);
+
+  // Call as the text or caret changes
+  const update = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+    setActiveIndex(0);
+  };
+
+  const close = () => setMention(null);
+
+  // Replaces the `@query` with the picked name; returns the new text and caret
+  const pick = (text: string, candidate: MentionCandidate) => {
+    const start = mention?.start ?? text.length;
+    const end = start + 1 + (mention?.query.length ?? 0);
+    const inserted = `@${candidate.name} `;
+    setPicked(prev => ({ ...prev, [candidate.uid]: candidate.name }));
+    setMention(null);
+    return { text: text.slice(0, start) + inserted + text.slice(end), caret: start + inserted.length };
+  };
+
+  // Arrow keys move through the list, Enter or Tab picks and Escape closes it.
+  // Returns the picked candidate, or whether the key was handled.
+  const handleKeyDown = (e: React.KeyboardEvent): MentionCandidate | boolean => {
+    if (suggestions.length === 0) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((activeIndex + 1) % suggestions.length);
+        return true;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+        return true;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        return suggestions[activeIndex] || true;
+      case 'Escape':
+        e.preventDefault();
+        close();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Starts over, e.g. after sending, or from a message's mentions when editing it
+  const reset = useCallback((mentions: MessageMentions = {}) => {
+    setPicked(mentions);
+    setMention(null);
+  }, []);
+
+  return { picked, suggestions, activeIndex, setActiveIndex, update, close, pick, handleKeyDown, reset };
+};
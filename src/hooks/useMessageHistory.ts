@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  getMessageRange,
+  subscribeToMessageRange,
+  type ChatRef,
+  type Message,
+  type MessageRange,
+  type Unsubscribe
+} from '@/lib/chat';
+import { cacheKeys, readCache, writeCache } from '@/lib/cache';
+
+const PAGE_SIZE = 30;
+
+// Live, paginated view of a conversation's history. The newest page is read
+// once to find an anchor and everything from the anchor onwards stays
+// subscribed, so new messages stream in without re-reading the whole node.
+// Each older page loaded on scroll-up keeps its own bounded subscription so
+// edits, reactions and deletions still show up.
+// With a `uid`, the newest page is cached locally and shown straight away
+// the next time the chat is opened, until the live data replaces it.
+export const useMessageHistory = (chat: ChatRef | null, uid?: string, pageSize = PAGE_SIZE) => {
+  const [latest, setLatest] = useState<Message[]>([]);
+  const [pages, setPages] = useState<Record<string, Message[]>>({});
+  // Ids the older pages end before, newest first
+  const [cursors, setCursors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The chat the current messages belong to; until it matches `chat`,
+  // what's in state is left over from the previous conversation
+  const [loadedChat, setLoadedChat] = useState<ChatRef | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const pageSubscriptions = useRef(new Map<string, Unsubscribe>());
+  const activeChat = useRef<ChatRef | null>(null);
+
+  useEffect(() => {
+    activeChat.current = chat;
+    setLatest([]);
+    setPages({});
+    setCursors([]);
+    setHasMore(false);
+    setLoading(true);
+    if (!chat) return;
+
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+    let live = false;
+
+    if (uid) {
+      readCache<Message[]>(uid, cacheKeys.messages(chat.id)).then((cached) => {
+        if (cancelled || live || !cached?.length) return;
+        setLatest(cached);
+        setLoadedChat(chat);
+        setLoading(false);
+      });
+    }
+
+    getMessageRange(chat, { limitToLast: pageSize })
+      .then((firstPage) => {
+        if (cancelled) return;
+        setHasMore(firstPage.length === pageSize);
+        const range = firstPage.length ? { startAt: firstPage[0].id } : {};
+        unsubscribe = subscribeToMessageRange(chat, range, (messages) => {
+          live = true;
+          setLatest(messages);
+          if (uid) {
+            writeCache(uid, cacheKeys.messages(chat.id), messages.slice(-pageSize));
+          }
+          setLoadedChat(chat);
+          setLoading(false);
+        });
+      })
+      .catch((error) => {
+        console.error('Error loading messages:', error);
+        live = true;
+        setLoadedChat(chat);
+        setLoading(false);
+      });
+
+    const subscriptions = pageSubscriptions.current;
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      subscriptions.forEach(unsubscribePage => unsubscribePage());
+      subscriptions.clear();
+    };
+  }, [chat, uid, pageSize]);
+
+  const messages = useMemo(() => {
+    const seen = new Set<string>();
+    return [...cursors].reverse()
+      .flatMap(cursor => pages[cursor] || [])
+      .concat(latest)
+      .filter((message) => {
+        if (seen.has(message.id)) return false;
+        seen.add(message.id);
+        return true;
+      });
+  }, [cursors, pages, latest]);
+
+  const oldestId = messages[0]?.id;
+
+  // Kept current for loads that outlive the render they started in. A page
+  // load moves `oldest` on straight away rather than at the next render.
+  const loaded = useRef(messages);
+  loaded.current = messages;
+  const oldest = useRef(oldestId);
+  oldest.current = oldestId;
+  const pendingPage = useRef<Promise<Message[] | null> | null>(null);
+
+  // Reads and subscribes to a range ending just before the oldest loaded
+  // message; resolves to the page, or null if another page is loading or the
+  // range was loaded already. Rejects if the read fails.
+  const readPage = useCallback((range: MessageRange): Promise<Message[] | null> => {
+    const cursor = oldest.current;
+    if (!chat || !cursor || pendingPage.current) return Promise.resolve(null);
+    if (pageSubscriptions.current.has(cursor)) return Promise.resolve(null);
+
+    const pageRange = { ...range, endBefore: cursor };
+    const load = getMessageRange(chat, pageRange).then((page) => {
+      if (activeChat.current !== chat) return null;
+
+      if (page.length) oldest.current = page[0].id;
+      setPages(prev => ({ ...prev, [cursor]: page }));
+      setCursors(prev => [...prev, cursor]);
+      pageSubscriptions.current.set(cursor, subscribeToMessageRange(chat, pageRange, (updated) => {
+        setPages(prev => ({ ...prev, [cursor]: updated }));
+      }));
+      return page;
+    });
+
+    const settle = () => {
+      pendingPage.current = null;
+      setLoadingOlder(false);
+    };
+    pendingPage.current = load;
+    setLoadingOlder(true);
+    load.then(settle, settle);
+    return load;
+  }, [chat]);
+
+  // Loads the page before the oldest loaded message; resolves to the number
+  // of messages it added
+  const loadOlder = useCallback(async () => {
+    if (!hasMore) return 0;
+
+    try {
+      const page = await readPage({ limitToLast: pageSize });
+      if (!page) return 0;
+      setHasMore(page.length === pageSize);
+      return page.length;
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      return 0;
+    }
+  }, [hasMore, readPage, pageSize]);
+
+  // Loads everything from `messageId` up to the oldest loaded message in one
+  // range, e.g. to scroll to a quoted message, after any page already
+  // loading. Resolves to the message, or null when the history doesn't have
+  // it; rejects if it couldn't be read.
+  const loadUntil = useCallback(async (messageId: string): Promise<Message | null> => {
+    for (;;) {
+      const inFlight = await pendingPage.current?.catch(() => null);
+      const found = loaded.current.find(message => message.id === messageId) ||
+        inFlight?.find(message => message.id === messageId);
+      if (found) return found;
+      if (!oldest.current || messageId > oldest.current) return null;
+
+      const page = await readPage({ startAt: messageId });
+      if (page) return page.find(message => message.id === messageId) || null;
+      // Nothing older is left to read, unless another page started loading
+      if (!pendingPage.current) return null;
+    }
+  }, [readPage]);
+
+  return { messages, loading: loading || loadedChat !== chat, loadingOlder, hasMore, loadOlder, loadUntil };
+};
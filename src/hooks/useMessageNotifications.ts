@@ -0,0 +1,124 @@
+import { useEffect, useRef } from 'react';
+import {
+  subscribeToUnreadChanges,
+  getMessage,
+  getMessagePreview,
+  getGroupName,
+  isChatArchived,
+  isChatMuted,
+  isMentioned,
+  isQuietTime,
+  type ChatRef,
+  type ChatSettingsMap,
+  type Message
+} from '@/lib/chat';
+import {
+  registerNotificationWorker,
+  showMessageNotification,
+  closeChatNotifications,
+  subscribeToNotificationClicks,
+  playNotificationSound,
+  type ChatTarget
+} from '@/lib/desktopNotifications';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotificationSettings } from './useNotificationSettings';
+import { useChatListSettings } from './useChatSettings';
+
+// How many of a conversation's newest messages its notification quotes
+const PREVIEW_LINES = 3;
+
+const reportError = (error: unknown) => {
+  console.error('Error showing notification:', error);
+};
+
+const describeMessages = (chat: ChatRef, messages: Message[], unreadCount: number, groupName: string | null) => {
+  const lines = messages.map(message =>
+    chat.isGroup ? `${message.senderName}: ${getMessagePreview(message)}` : getMessagePreview(message)
+  );
+  return {
+    title: (chat.isGroup ? groupName : messages[messages.length - 1].senderName) || 'New message',
+    body: unreadCount > 1 ? [`${unreadCount} new messages`, ...lines].join('\n') : lines[0]
+  };
+};
+
+interface MessageNotificationsOptions {
+  // The conversation on screen, which doesn't need notifying about
+  activeChatId: string | null;
+  chatSettings: ChatSettingsMap;
+  onOpenChat: (target: ChatTarget) => void;
+}
+
+// Sound and system notifications for messages arriving in other
+// conversations, one grouped notification per conversation
+export const useMessageNotifications = ({ activeChatId, chatSettings, onOpenChat }: MessageNotificationsOptions) => {
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const { settings } = useNotificationSettings();
+  const { settings: listSettings } = useChatListSettings(uid);
+
+  // Read when a message arrives, without subscribing again
+  const current = useRef({ settings, chatSettings, listSettings, activeChatId, onOpenChat });
+  current.current = { settings, chatSettings, listSettings, activeChatId, onOpenChat };
+
+  useEffect(() => {
+    registerNotificationWorker();
+    return subscribeToNotificationClicks(target => current.current.onOpenChat(target));
+  }, []);
+
+  useEffect(() => {
+    if (activeChatId) closeChatNotifications(activeChatId).catch(reportError);
+  }, [activeChatId]);
+
+  useEffect(() => {
+    if (!uid) return;
+
+    let cancelled = false;
+
+    const notify = async (chat: ChatRef, messageIds: string[]) => {
+      const { settings, chatSettings, listSettings, activeChatId } = current.current;
+      const isOnScreen = chat.id === activeChatId && document.visibilityState === 'visible';
+      // Archived conversations that stay archived stay quiet too
+      const isHidden = listSettings.keepArchived && isChatArchived(chatSettings, chat.id);
+      // Muted and hidden group chats still notify when someone mentions you
+      const isSilenced = isHidden || isChatMuted(chatSettings, chat.id);
+      if (isOnScreen || isQuietTime(settings.quietHours) || (isSilenced && !chat.isGroup)) return;
+      if (!isSilenced && !settings.desktop) {
+        if (settings.sound) playNotificationSound();
+        return;
+      }
+
+      const [messages, groupName] = await Promise.all([
+        Promise.all([...messageIds].sort().slice(-PREVIEW_LINES).map(messageId => getMessage(chat, messageId))),
+        chat.isGroup ? getGroupName(chat.id) : Promise.resolve(null)
+      ]);
+      const shown = messages.filter((message): message is Message => !!message && !message.deletedForEveryone);
+      if (cancelled || shown.length === 0) return;
+      if (isSilenced && !shown.some(message => isMentioned(message, uid))) return;
+
+      if (settings.sound) playNotificationSound();
+      if (!settings.desktop) return;
+
+      await showMessageNotification({
+        chatId: chat.id,
+        isGroup: chat.isGroup,
+        ...describeMessages(chat, shown, messageIds.length, groupName)
+      });
+    };
+
+    const unsubscribe = subscribeToUnreadChanges(uid, ({ arrived, cleared }) => {
+      arrived.forEach(({ messageIds, ...chat }) => {
+        notify(chat, messageIds).catch(reportError);
+      });
+
+      // Read somewhere else, e.g. on another device
+      cleared.forEach((chatId) => {
+        closeChatNotifications(chatId).catch(reportError);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [uid]);
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  subscribeToNotificationSettings,
+  updateNotificationSettings,
+  type NotificationSettings
+} from '@/lib/chat';
+
+export const useNotificationSettings = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+
+  useEffect(() => {
+    setSettings(DEFAULT_NOTIFICATION_SETTINGS);
+    if (!user) return;
+
+    return subscribeToNotificationSettings(user.uid, setSettings);
+  }, [user]);
+
+  const update = useCallback(async (changes: Partial<NotificationSettings>) => {
+    if (!user) return;
+    await updateNotificationSettings(user.uid, changes);
+  }, [user]);
+
+  return { settings, update };
+};
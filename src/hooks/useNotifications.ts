@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  subscribeToNotifications,
+  markNotificationsRead,
+  pruneNotifications,
+  type NotificationEntry
+} from '@/lib/chat';
+
+const reportError = (error: unknown) => {
+  console.error('Error updating notifications:', error);
+};
+
+// The user's newest notifications; old ones are pruned once per sign-in
+export const useNotifications = (uid: string | undefined) => {
+  const [notifications, setNotifications] = useState<NotificationEntry[]>([]);
+
+  useEffect(() => {
+    setNotifications([]);
+    if (!uid) return;
+
+    pruneNotifications(uid).catch(reportError);
+    return subscribeToNotifications(uid, setNotifications);
+  }, [uid]);
+
+  const markRead = useCallback((ids: string[]) => {
+    if (uid) markNotificationsRead(uid, ids).catch(reportError);
+  }, [uid]);
+
+  const markAllRead = useCallback(() => {
+    markRead(notifications.filter(notification => !notification.read).map(notification => notification.id));
+  }, [notifications, markRead]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.read).length,
+    markRead,
+    markAllRead
+  };
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { ChatRef, NewMessage } from '@/lib/chat';
+import type { OutboxEntry } from '@/lib/outbox';
+
+export interface OutboxContextType {
+  entries: OutboxEntry[];
+  enqueue: (chat: ChatRef, message: NewMessage, recipientIds: string[]) => string;
+  retry: (id: string) => void;
+  discard: (id: string) => void;
+}
+
+// Provided by OutboxProvider in src/contexts
+export const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (!context) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
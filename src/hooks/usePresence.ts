@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  createConnectionId,
+  connectPresence,
+  setPresenceConnection,
+  disconnectPresence,
+  syncOnlineFlag,
+  subscribeToConnection,
+  subscribeToPresence,
+  type Presence,
+  type PresenceConnection
+} from '@/lib/chat';
+
+// Without any input for this long the connection is marked idle
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+const IDLE_CHECK_INTERVAL = 30 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+// Publishes this tab's presence while `uid` is signed in: registered on every
+// (re)connect, idle after a while without input, removed when the tab closes
+export const usePresenceConnection = (uid: string | undefined) => {
+  const connection = useRef<{ uid: string; id: string } | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+
+    const connectionId = createConnectionId(uid);
+    const isCurrent = () => connection.current?.id === connectionId;
+    connection.current = { uid, id: connectionId };
+
+    let record: PresenceConnection = { state: 'online', lastActive: Date.now() };
+    let connected = false;
+
+    const unsubscribeConnection = subscribeToConnection((isConnected) => {
+      connected = isConnected;
+      if (!isConnected || !isCurrent()) return;
+      connectPresence(uid, connectionId, record).catch((error) => {
+        console.error('Error updating presence:', error);
+      });
+    });
+    const unsubscribeSync = syncOnlineFlag(uid, connectionId);
+
+    const setState = (state: PresenceConnection['state']) => {
+      if (record.state === state) return;
+      record = { ...record, state };
+      if (!connected || !isCurrent()) return;
+      setPresenceConnection(uid, connectionId, record).catch((error) => {
+        console.error('Error updating presence:', error);
+      });
+    };
+
+    // Only the switch back from idle is written, not every input event
+    const handleActivity = () => {
+      record = { ...record, lastActive: Date.now() };
+      setState('online');
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') handleActivity();
+    };
+
+    const interval = setInterval(() => {
+      if (Date.now() - record.lastActive > IDLE_TIMEOUT) setState('idle');
+    }, IDLE_CHECK_INTERVAL);
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      unsubscribeConnection();
+      unsubscribeSync();
+      if (isCurrent()) {
+        connection.current = null;
+        disconnectPresence(uid, connectionId).catch((error) => {
+          console.error('Error updating presence:', error);
+        });
+      }
+    };
+  }, [uid]);
+
+  // Goes offline straight away, e.g. before signing out while the user can
+  // still write their own presence
+  const disconnect = useCallback(async () => {
+    const current = connection.current;
+    if (!current) return;
+
+    connection.current = null;
+    await disconnectPresence(current.uid, current.id);
+  }, []);
+
+  return { disconnect };
+};
+
+export const usePresence = (uid: string | undefined) => {
+  const [presence, setPresence] = useState<Presence | null>(null);
+
+  useEffect(() => {
+    setPresence(null);
+    if (!uid) return;
+
+    return subscribeToPresence(uid, setPresence);
+  }, [uid]);
+
+  return presence;
+};
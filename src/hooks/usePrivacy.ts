@@ -0,0 +1,58 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getPrivacySettings,
+  subscribeToContactOf,
+  subscribeToContacts,
+  subscribeToUser,
+  type PrivacyViewer,
+  type UserProfile
+} from '@/lib/chat';
+
+// The signed-in user's own settings and contacts, which decide what other
+// people's privacy settings let them see
+export const usePrivacyViewer = (): PrivacyViewer | null => {
+  const { user, userProfile } = useAuth();
+  const [contacts, setContacts] = useState<Set<string>>(new Set());
+  const [contactOf, setContactOf] = useState<Set<string>>(new Set());
+  const privacy = userProfile?.privacy;
+
+  useEffect(() => {
+    setContacts(new Set());
+    setContactOf(new Set());
+    if (!user) return;
+
+    const unsubscribeContacts = subscribeToContacts(user.uid, setContacts);
+    const unsubscribeContactOf = subscribeToContactOf(user.uid, setContactOf);
+    return () => {
+      unsubscribeContacts();
+      unsubscribeContactOf();
+    };
+  }, [user]);
+
+  return useMemo(
+    () => (user ? { uid: user.uid, privacy: getPrivacySettings({ privacy }), contacts, contactOf } : null),
+    [user, privacy, contacts, contactOf]
+  );
+};
+
+// Live profiles of `uids`, so privacy changes apply straight away
+export const useProfiles = (uids: string[]) => {
+  const [profiles, setProfiles] = useState<Record<string, UserProfile | null>>({});
+  const uidsKey = [...uids].sort().join(',');
+
+  useEffect(() => {
+    setProfiles({});
+    if (!uidsKey) return;
+
+    const unsubscribers = uidsKey.split(',').map(uid =>
+      subscribeToUser(uid, (profile) => {
+        setProfiles(prev => ({ ...prev, [uid]: profile }));
+      })
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [uidsKey]);
+
+  return profiles;
+};
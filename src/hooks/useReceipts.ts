@@ -0,0 +1,106 @@
+import { useEffect, useCallback, useRef } from 'react';
+import {
+  sendsReadReceipts,
+  subscribeToPendingDeliveries,
+  updateReceipts,
+  type ChatRef,
+  type Message,
+  type PrivacyViewer
+} from '@/lib/chat';
+
+// Receipts are collected for a moment and written in one update
+const FLUSH_DELAY = 300;
+
+// Receipts for the open conversation: every loaded message counts as
+// delivered, and `markSeen` records the ones that were actually on screen,
+// unless `reader` keeps their read receipts from the sender
+export const useReadReceipts = (
+  chat: ChatRef | null,
+  messages: Message[],
+  uid: string | undefined,
+  reader: PrivacyViewer | null
+) => {
+  const queued = useRef({ delivered: new Set<string>(), read: new Set<string>() });
+  // Receipts already written, so repeated renders don't write them again
+  const written = useRef(new Set<string>());
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const messagesById = useRef(new Map<string, Message>());
+
+  const flush = useCallback(() => {
+    clearTimeout(timer.current);
+    timer.current = undefined;
+    const { delivered, read } = queued.current;
+    if (!chat || !uid || (delivered.size === 0 && read.size === 0)) return;
+
+    const receipts = { delivered: [...delivered], read: [...read] };
+    delivered.clear();
+    read.clear();
+    updateReceipts(chat, uid, receipts).catch((error) => {
+      console.error('Error updating receipts:', error);
+    });
+  }, [chat, uid]);
+
+  const queue = useCallback((kind: 'delivered' | 'read', messageId: string) => {
+    const key = `${kind}:${messageId}`;
+    if (written.current.has(key)) return;
+    written.current.add(key);
+    queued.current[kind].add(messageId);
+    if (!timer.current) {
+      timer.current = setTimeout(flush, FLUSH_DELAY);
+    }
+  }, [flush]);
+
+  // Write anything still queued before switching conversations
+  useEffect(() => {
+    const pending = written.current;
+    return () => {
+      flush();
+      pending.clear();
+    };
+  }, [flush]);
+
+  useEffect(() => {
+    messagesById.current = new Map(messages.map(message => [message.id, message]));
+    if (!uid) return;
+
+    messages.forEach((message) => {
+      if (message.senderId !== uid && !message.deliveredTo?.[uid] && !message.readBy?.[uid]) {
+        queue('delivered', message.id);
+      }
+    });
+  }, [messages, uid, queue]);
+
+  const markSeen = useCallback((messageIds: string[]) => {
+    if (!uid) return;
+
+    messageIds.forEach((messageId) => {
+      const message = messagesById.current.get(messageId);
+      if (
+        message &&
+        message.senderId !== uid &&
+        !message.readBy?.[uid] &&
+        sendsReadReceipts(reader, message.senderId)
+      ) {
+        queue('read', messageId);
+      }
+    });
+  }, [uid, reader, queue]);
+
+  return { markSeen };
+};
+
+// Acknowledges messages as soon as this client receives them, whether or not
+// their conversation is open
+export const useDeliveryReceipts = (uid: string | undefined) => {
+  useEffect(() => {
+    if (!uid) return;
+
+    return subscribeToPendingDeliveries(uid, (pending) => {
+      pending.forEach(({ chat, messageIds }) => {
+        updateReceipts(chat, uid, { delivered: messageIds }).catch((error) => {
+          console.error('Error acknowledging delivery:', error);
+        });
+      });
+    });
+  }, [uid]);
+};
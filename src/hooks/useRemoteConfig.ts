@@ -1,45 +1,30 @@
 
 import { useState, useEffect } from 'react';
-import { remoteConfig } from '@/lib/firebase';
-import { fetchAndActivate, getValue, getBoolean, getString } from 'firebase/remote-config';
+import { getBackend } from '@/lib/backend';
 
-interface RemoteConfigValues {
+type RemoteConfigValues = {
   enableGroupChat: boolean;
   maxGroupMembers: number;
   welcomeMessage: string;
   appVersion: string;
-}
+};
+
+const defaultConfig: RemoteConfigValues = {
+  enableGroupChat: true,
+  maxGroupMembers: 50,
+  welcomeMessage: 'Welcome to ChatApp!',
+  appVersion: '1.0.0'
+};
 
 export const useRemoteConfig = () => {
-  const [config, setConfig] = useState<RemoteConfigValues>({
-    enableGroupChat: true,
-    maxGroupMembers: 50,
-    welcomeMessage: 'Welcome to ChatApp!',
-    appVersion: '1.0.0'
-  });
+  const [config, setConfig] = useState<RemoteConfigValues>(defaultConfig);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const initializeRemoteConfig = async () => {
       try {
-        // Set default values directly on the remoteConfig instance
-        remoteConfig.defaultConfig = {
-          enableGroupChat: true,
-          maxGroupMembers: 50,
-          welcomeMessage: 'Welcome to ChatApp!',
-          appVersion: '1.0.0'
-        };
-
-        // Fetch and activate
-        await fetchAndActivate(remoteConfig);
-
-        // Get values
-        setConfig({
-          enableGroupChat: getBoolean(remoteConfig, 'enableGroupChat'),
-          maxGroupMembers: Number(getValue(remoteConfig, 'maxGroupMembers').asString()),
-          welcomeMessage: getString(remoteConfig, 'welcomeMessage'),
-          appVersion: getString(remoteConfig, 'appVersion')
-        });
+        // Fetch and activate, falling back to the defaults for missing keys
+        setConfig(await getBackend().remoteConfig.fetch(defaultConfig));
       } catch (error) {
         console.error('Error initializing Remote Config:', error);
       } finally {
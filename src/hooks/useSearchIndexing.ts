@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { indexMessages } from '@/lib/search';
+import type { ChatRef, Message } from '@/lib/chat';
+
+// Index writes are batched while history is streaming in
+const INDEX_DELAY = 1000;
+
+const signature = (message: Message) =>
+  [message.text, message.editedAt, message.deletedForEveryone, message.deletedFor?.length].join('|');
+
+// Keeps the local search index up to date with whatever history is loaded
+export const useSearchIndexing = (chat: ChatRef | null, messages: Message[], uid: string | undefined) => {
+  // Last indexed version of each message, so unchanged ones aren't rewritten
+  const indexed = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    indexed.current.clear();
+  }, [chat, uid]);
+
+  useEffect(() => {
+    if (!chat || !uid) return;
+
+    const timeout = setTimeout(() => {
+      const changed = messages.filter(message => indexed.current.get(message.id) !== signature(message));
+      if (changed.length === 0) return;
+
+      changed.forEach(message => indexed.current.set(message.id, signature(message)));
+      indexMessages(uid, chat, changed).catch((error) => {
+        console.error('Error indexing messages:', error);
+        changed.forEach(message => indexed.current.delete(message.id));
+      });
+    }, INDEX_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [chat, uid, messages]);
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect, useRef } from 'react';
+import { getStarredPreview, subscribeToStarredMessages, type StarredMessage, type StarredPreview } from '@/lib/chat';
+
+// The user's starred messages, most recently starred first
+export const useStarredMessages = (uid: string | undefined) => {
+  const [starred, setStarred] = useState<StarredMessage[]>([]);
+
+  useEffect(() => {
+    setStarred([]);
+    if (!uid) return;
+
+    return subscribeToStarredMessages(uid, setStarred);
+  }, [uid]);
+
+  return starred;
+};
+
+// Sender and text of each starred message, read from the message itself.
+// Undefined while loading, null once the message is gone. Each is looked up
+// once; `entries` should keep its identity between renders.
+export const useStarredPreviews = (entries: StarredMessage[]) => {
+  const [previews, setPreviews] = useState<Record<string, StarredPreview | null>>({});
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    const missing = entries.filter(entry => !requested.current.has(entry.messageId));
+    if (missing.length === 0) return;
+    missing.forEach(entry => requested.current.add(entry.messageId));
+
+    Promise.all(missing.map(getStarredPreview))
+      .then((loaded) => {
+        setPreviews(prev => ({ ...prev, ...Object.fromEntries(missing.map((entry, i) => [entry.messageId, loaded[i]])) }));
+      })
+      .catch((error) => {
+        // Tried again the next time the list changes
+        missing.forEach(entry => requested.current.delete(entry.messageId));
+        console.error('Error loading starred messages:', error);
+      });
+  }, [entries]);
+
+  return previews;
+};
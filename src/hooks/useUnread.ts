@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { subscribeToUnreadCounts, markChatRead, type ChatRef, type UnreadCounts } from '@/lib/chat';
+
+export const useUnreadCounts = (uid: string | undefined) => {
+  const [counts, setCounts] = useState<UnreadCounts>({});
+
+  useEffect(() => {
+    setCounts({});
+    if (!uid) return;
+
+    return subscribeToUnreadCounts(uid, setCounts);
+  }, [uid]);
+
+  return counts;
+};
+
+// Clears the open conversation's unread count whenever a message arrives
+// while it is on screen, or when the tab comes back into view
+export const useMarkChatRead = (chat: ChatRef | null, uid: string | undefined, latestMessageId: string | undefined) => {
+  useEffect(() => {
+    if (!chat || !uid) return;
+
+    const markRead = () => {
+      if (document.visibilityState !== 'visible') return;
+      markChatRead(uid, chat.id).catch((error) => {
+        console.error('Error clearing unread messages:', error);
+      });
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [chat, uid, latestMessageId]);
+};
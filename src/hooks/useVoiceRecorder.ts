@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getRecordingType, summarizeAudio } from '@/lib/audio';
+import type { VoiceNote } from '@/lib/chat';
+
+export type VoiceRecording = Pick<VoiceNote, 'duration' | 'waveform'> & { blob: Blob };
+
+const WAVEFORM_BARS = 48;
+// Shorter presses are treated as taps rather than recordings
+const MIN_DURATION = 0.5;
+
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+// Records from the microphone between `start` and `stop`. `stop` resolves to
+// the recording with its waveform, or null if it was too short or failed.
+export const useVoiceRecorder = () => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const active = useRef<Promise<ActiveRecording | null> | null>(null);
+
+  const release = (recording: ActiveRecording) => {
+    recording.stream.getTracks().forEach(track => track.stop());
+  };
+
+  const start = useCallback(() => {
+    if (active.current) return;
+
+    active.current = (async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        const mimeType = getRecordingType();
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        const recording: ActiveRecording = { recorder, stream, chunks: [], startedAt: Date.now() };
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) recording.chunks.push(event.data);
+        };
+        recorder.start();
+        setElapsed(0);
+        setIsRecording(true);
+        return recording;
+      } catch (error) {
+        console.error('Error starting recording:', error);
+        active.current = null;
+        throw error;
+      }
+    })();
+
+    return active.current.then(() => undefined);
+  }, []);
+
+  const finish = useCallback(async (keep: boolean): Promise<VoiceRecording | null> => {
+    const pending = active.current;
+    active.current = null;
+    const recording = await pending?.catch(() => null);
+    setIsRecording(false);
+    if (!recording) return null;
+
+    const stopped = new Promise(resolve => { recording.recorder.onstop = resolve; });
+    recording.recorder.stop();
+    await stopped;
+    release(recording);
+
+    const elapsedSeconds = (Date.now() - recording.startedAt) / 1000;
+    if (!keep || elapsedSeconds < MIN_DURATION) return null;
+
+    const blob = new Blob(recording.chunks, { type: recording.recorder.mimeType });
+    try {
+      return { blob, ...await summarizeAudio(blob, WAVEFORM_BARS) };
+    } catch (error) {
+      console.error('Error reading recording:', error);
+      return { blob, duration: elapsedSeconds, waveform: [] };
+    }
+  }, []);
+
+  const stop = useCallback(() => finish(true), [finish]);
+  const cancel = useCallback(() => { finish(false); }, [finish]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const startedAt = Date.now();
+    const interval = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 200);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Let go of the microphone if the composer goes away mid-recording
+  useEffect(() => () => { finish(false); }, [finish]);
+
+  return { isRecording, elapsed, start, stop, cancel };
+};
@@ -0,0 +1,43 @@
+export interface AudioSummary {
+  duration: number;
+  waveform: number[];
+}
+
+// Containers MediaRecorder can produce, in order of preference
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const getRecordingType = () =>
+  RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Decodes a recording to find its length and the peak level of each of
+// `bars` equal slices, normalised so the loudest bar is 1
+export const summarizeAudio = async (blob: Blob, bars: number): Promise<AudioSummary> => {
+  const context = new AudioContext();
+
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+    const peaks: number[] = [];
+
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * sliceSize);
+      for (let i = bar * sliceSize; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks) || 1;
+    return {
+      duration: buffer.duration,
+      waveform: peaks.map(peak => Math.round((peak / loudest) * 100) / 100)
+    };
+  } finally {
+    context.close();
+  }
+};
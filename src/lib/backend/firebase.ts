@@ -0,0 +1,162 @@
+import {
+  User,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut,
+  onAuthStateChanged,
+  updateProfile
+} from 'firebase/auth';
+import {
+  ref,
+  get,
+  set,
+  update,
+  push,
+  remove,
+  onValue,
+  onDisconnect,
+  serverTimestamp,
+  query as buildQuery,
+  orderByKey,
+  orderByChild,
+  startAt,
+  startAfter,
+  endAt,
+  endBefore,
+  equalTo,
+  limitToFirst,
+  limitToLast,
+  QueryConstraint
+} from 'firebase/database';
+import { ref as storageRef, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import { fetchAndActivate, getBoolean, getString, getValue } from 'firebase/remote-config';
+import { auth, database, storage, remoteConfig } from '@/lib/firebase';
+import type { AuthUser, ChatBackend, Query, RemoteConfigValues } from './types';
+
+const toAuthUser = (user: User): AuthUser => ({
+  uid: user.uid,
+  email: user.email,
+  displayName: user.displayName,
+  photoURL: user.photoURL
+});
+
+const toQuery = (path: string, query?: Query) => {
+  if (!query) return ref(database, path);
+
+  const constraints: QueryConstraint[] = [query.orderByChild ? orderByChild(query.orderByChild) : orderByKey()];
+  if (query.startAt !== undefined) constraints.push(startAt(query.startAt));
+  if (query.startAfter !== undefined) constraints.push(startAfter(query.startAfter));
+  if (query.endAt !== undefined) constraints.push(endAt(query.endAt));
+  if (query.endBefore !== undefined) constraints.push(endBefore(query.endBefore));
+  if (query.equalTo !== undefined) constraints.push(equalTo(query.equalTo));
+  if (query.limitToFirst !== undefined) constraints.push(limitToFirst(query.limitToFirst));
+  if (query.limitToLast !== undefined) constraints.push(limitToLast(query.limitToLast));
+  return buildQuery(ref(database, path), ...constraints);
+};
+
+export const createFirebaseBackend = (): ChatBackend => ({
+  name: 'firebase',
+
+  auth: {
+    onAuthStateChanged: (callback) =>
+      onAuthStateChanged(auth, (user) => callback(user ? toAuthUser(user) : null)),
+
+    signIn: async (email, password) => {
+      const { user } = await signInWithEmailAndPassword(auth, email, password);
+      return toAuthUser(user);
+    },
+
+    register: async (email, password, displayName) => {
+      const { user } = await createUserWithEmailAndPassword(auth, email, password);
+      await updateProfile(user, { displayName });
+      return toAuthUser(user);
+    },
+
+    signOut: () => signOut(auth)
+  },
+
+  database: {
+    get: async <T>(path: string, query?: Query) => {
+      const snapshot = await get(toQuery(path, query));
+      return snapshot.exists() ? (snapshot.val() as T) : null;
+    },
+
+    subscribe: <T>(path: string, callback: (value: T | null) => void, query?: Query) =>
+      onValue(toQuery(path, query), (snapshot) => {
+        callback(snapshot.exists() ? (snapshot.val() as T) : null);
+      }),
+
+    set: (path, value) => set(ref(database, path), value),
+
+    update: (path, patch) => update(ref(database, path), patch),
+
+    push: async (path, value) => {
+      const created = await push(ref(database, path), value);
+      return created.key as string;
+    },
+
+    createKey: (path) => push(ref(database, path)).key as string,
+
+    remove: (path) => remove(ref(database, path)),
+
+    serverTimestamp: () => serverTimestamp(),
+
+    subscribeToConnection: (callback) =>
+      onValue(ref(database, '.info/connected'), (snapshot) => {
+        callback(snapshot.val() === true);
+      }),
+
+    subscribeToServerTimeOffset: (callback) =>
+      onValue(ref(database, '.info/serverTimeOffset'), (snapshot) => {
+        callback(snapshot.val() || 0);
+      }),
+
+    onDisconnect: (path) => {
+      const actions = onDisconnect(ref(database, path));
+      return {
+        set: (value) => actions.set(value),
+        update: (patch) => actions.update(patch),
+        remove: () => actions.remove(),
+        cancel: () => actions.cancel()
+      };
+    }
+  },
+
+  storage: {
+    upload: (path, data, options = {}) => {
+      const task = uploadBytesResumable(storageRef(storage, path), data, { contentType: options.contentType });
+      task.on('state_changed', (snapshot) => {
+        options.onProgress?.(snapshot.totalBytes ? snapshot.bytesTransferred / snapshot.totalBytes : 0);
+      });
+
+      const result = (async () => {
+        const snapshot = await task;
+        return getDownloadURL(snapshot.ref);
+      })();
+
+      return {
+        result,
+        cancel: () => {
+          task.cancel();
+        }
+      };
+    },
+
+    remove: (path) => deleteObject(storageRef(storage, path))
+  },
+
+  remoteConfig: {
+    fetch: async <T extends RemoteConfigValues>(defaults: T) => {
+      remoteConfig.defaultConfig = defaults;
+      await fetchAndActivate(remoteConfig);
+
+      const values = Object.entries(defaults).map(([key, fallback]) => {
+        if (typeof fallback === 'boolean') return [key, getBoolean(remoteConfig, key)];
+        if (typeof fallback === 'number') return [key, Number(getValue(remoteConfig, key).asString())];
+        return [key, getString(remoteConfig, key)];
+      });
+
+      return Object.fromEntries(values) as T;
+    }
+  }
+});
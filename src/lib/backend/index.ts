@@ -0,0 +1,43 @@
+import { createMemoryBackend } from './memory';
+import type { ChatBackend } from './types';
+
+export * from './types';
+export { createMemoryBackend };
+export type { MemoryBackendOptions } from './memory';
+
+// VITE_CHAT_BACKEND=memory runs the app against the local adapter; anything
+// else uses the production Firebase project. The Firebase adapter is only
+// loaded in that case, so the SDK never starts with the memory backend.
+const loadDefaultBackend = async (): Promise<ChatBackend> => {
+  if (import.meta.env.VITE_CHAT_BACKEND === 'memory') return createMemoryBackend();
+
+  const { createFirebaseBackend } = await import('./firebase');
+  return createFirebaseBackend();
+};
+
+let activeBackend: ChatBackend | null = null;
+let loading: Promise<ChatBackend> | null = null;
+
+// Resolves once the default backend is ready; the app waits for it before rendering
+export const initBackend = (): Promise<ChatBackend> => {
+  if (activeBackend) return Promise.resolve(activeBackend);
+  if (!loading) {
+    loading = loadDefaultBackend().then((backend) => {
+      activeBackend = activeBackend || backend;
+      return activeBackend;
+    });
+  }
+  return loading;
+};
+
+export const getBackend = (): ChatBackend => {
+  if (!activeBackend) {
+    throw new Error('The chat backend is not ready yet; wait for initBackend() first');
+  }
+  return activeBackend;
+};
+
+// Swaps the backend used by the whole app, e.g. a seeded memory backend in tests
+export const setBackend = (backend: ChatBackend) => {
+  activeBackend = backend;
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMemoryBackend } from './memory';
+
+const createDatabase = (now = () => 1000) => createMemoryBackend({ storage: null, now }).database;
+
+// Lets queued subscription deliveries run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('memory backend', () => {
+  it('reads back what was written and drops empty nodes', async () => {
+    const db = createDatabase();
+    await db.set('chats/a', { title: 'Hi', empty: {}, gone: null });
+
+    expect(await db.get('chats/a')).toEqual({ title: 'Hi' });
+    await db.remove('chats/a/title');
+    expect(await db.get('chats')).toBeNull();
+  });
+
+  it('applies multi-path updates with nested keys', async () => {
+    const db = createDatabase();
+    await db.set('users/u1', { name: 'Ann', age: 3 });
+    await db.update('', { 'users/u1/age': 4, 'users/u2/name': 'Bo', 'users/u1/name': null });
+
+    expect(await db.get('users')).toEqual({ u1: { age: 4 }, u2: { name: 'Bo' } });
+  });
+
+  it('resolves server timestamps to its clock', async () => {
+    const db = createDatabase(() => 42);
+    await db.set('a', { at: db.serverTimestamp() });
+
+    expect(await db.get('a')).toEqual({ at: 42 });
+  });
+
+  it('orders, bounds and limits queries', async () => {
+    const db = createDatabase();
+    await db.set('messages', {
+      m1: { timestamp: 30 },
+      m2: { timestamp: 10 },
+      m3: { timestamp: 20 }
+    });
+
+    expect(Object.keys(await db.get('messages', { limitToFirst: 1 }))).toEqual(['m1']);
+    expect(Object.keys(await db.get('messages', { orderByChild: 'timestamp', limitToLast: 2 }))).toEqual(['m3', 'm1']);
+    expect(Object.keys(await db.get('messages', { orderByChild: 'timestamp', startAt: 15, endAt: 25 }))).toEqual(['m3']);
+    expect(await db.get('messages', { orderByChild: 'timestamp', equalTo: 99 })).toBeNull();
+  });
+
+  it('notifies subscribers of changes below and above their path', async () => {
+    const db = createDatabase();
+    const callback = vi.fn();
+    const unsubscribe = db.subscribe('chats/a', callback);
+    await flush();
+
+    await db.set('chats/a/title', 'Hi');
+    await db.set('chats', { a: { title: 'Hey' } });
+    await db.set('chats/b', { title: 'Other' });
+    unsubscribe();
+    await db.set('chats/a/title', 'Gone');
+
+    expect(callback.mock.calls.map(([value]) => value)).toEqual([null, { title: 'Hi' }, { title: 'Hey' }]);
+  });
+});
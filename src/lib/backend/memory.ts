@@ -0,0 +1,417 @@
+import { createPushIdGenerator } from './pushId';
+import type { AuthUser, ChatBackend, Query, QueryBound, RemoteConfigValues, Unsubscribe } from './types';
+
+// Local-only backend for offline development and tests. Data lives in a plain
+// object tree, optionally mirrored to localStorage so it survives reloads and
+// is shared between tabs. Passwords are stored in clear text: never point this
+// at real accounts. Uploads become data URLs, so large files quickly exhaust
+// the localStorage quota.
+
+const DB_KEY = 'chat-backend:memory:db';
+const AUTH_KEY = 'chat-backend:memory:auth';
+const REMOTE_CONFIG_KEY = 'chat-backend:memory:remote-config';
+
+type Tree = Record<string, unknown>;
+
+interface StoredAccount extends AuthUser {
+  password: string;
+}
+
+interface AuthState {
+  accounts: Record<string, StoredAccount>;
+  currentUid: string | null;
+}
+
+interface Listener {
+  segments: string[];
+  query?: Query;
+  callback: (value: unknown) => void;
+  last?: string;
+}
+
+export interface MemoryBackendOptions {
+  // Where to persist data; defaults to localStorage, `null` keeps everything in memory
+  storage?: Storage | null;
+  // Initial database contents, used when nothing is persisted yet
+  seed?: Tree;
+  now?: () => number;
+  random?: () => number;
+}
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+const isPrefix = (a: string[], b: string[]) => a.every((segment, i) => b[i] === segment);
+
+const clone = <T>(value: T): T => (value === null || value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+const isServerTimestamp = (value: unknown) =>
+  typeof value === 'object' && value !== null && (value as Tree)['.sv'] === 'timestamp';
+
+// Resolves timestamp placeholders and drops null/empty children the way the
+// Realtime Database does
+const normalize = (value: unknown, now: number): unknown => {
+  if (value === undefined || value === null) return null;
+  if (isServerTimestamp(value)) return now;
+  if (Array.isArray(value)) return value.map(item => normalize(item, now));
+  if (typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([key, child]) => [key, normalize(child, now)] as const)
+      .filter(([, child]) => child !== null);
+    return entries.length ? Object.fromEntries(entries) : null;
+  }
+  return value;
+};
+
+const readPath = (tree: Tree, segments: string[]): unknown => {
+  let node: unknown = tree;
+  for (const segment of segments) {
+    if (typeof node !== 'object' || node === null) return null;
+    node = (node as Tree)[segment];
+  }
+  return node ?? null;
+};
+
+const writePath = (node: Tree, segments: string[], value: unknown) => {
+  const [head, ...rest] = segments;
+  if (rest.length === 0) {
+    if (value === null) delete node[head];
+    else node[head] = value;
+    return;
+  }
+
+  let child = node[head];
+  if (typeof child !== 'object' || child === null) {
+    if (value === null) return;
+    child = {};
+    node[head] = child;
+  }
+  writePath(child as Tree, rest, value);
+  if (Object.keys(child as Tree).length === 0) delete node[head];
+};
+
+// Realtime Database sort order: null, false, true, numbers, strings, objects
+const typeRank = (value: unknown) => {
+  if (value === null || value === undefined) return 0;
+  if (value === false) return 1;
+  if (value === true) return 2;
+  if (typeof value === 'number') return 3;
+  if (typeof value === 'string') return 4;
+  return 5;
+};
+
+const compareValues = (a: unknown, b: unknown) => {
+  const rank = typeRank(a) - typeRank(b);
+  if (rank !== 0) return rank;
+  if (typeof a === 'number' || typeof a === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return 0;
+};
+
+// Integer-like keys sort numerically before all other keys
+const compareKeys = (a: string, b: string) => {
+  const intA = /^-?\d{1,10}$/.test(a);
+  const intB = /^-?\d{1,10}$/.test(b);
+  if (intA && intB) return Number(a) - Number(b);
+  if (intA !== intB) return intA ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const applyQuery = (value: unknown, query?: Query): unknown => {
+  if (!query) return value;
+  if (typeof value !== 'object' || value === null) return null;
+
+  const orderValue = ([key, child]: [string, unknown]) =>
+    query.orderByChild ? readPath((child as Tree) || {}, splitPath(query.orderByChild)) : key;
+  const compare = (a: unknown, b: QueryBound) =>
+    query.orderByChild ? compareValues(a, b) : compareKeys(a as string, String(b));
+
+  let entries = Object.entries(value as Tree).sort((a, b) => {
+    const byValue = query.orderByChild ? compareValues(orderValue(a), orderValue(b)) : 0;
+    return byValue || compareKeys(a[0], b[0]);
+  });
+
+  entries = entries.filter(entry => {
+    const ordered = orderValue(entry);
+    if (query.equalTo !== undefined && compare(ordered, query.equalTo) !== 0) return false;
+    if (query.startAt !== undefined && compare(ordered, query.startAt) < 0) return false;
+    if (query.startAfter !== undefined && compare(ordered, query.startAfter) <= 0) return false;
+    if (query.endAt !== undefined && compare(ordered, query.endAt) > 0) return false;
+    if (query.endBefore !== undefined && compare(ordered, query.endBefore) >= 0) return false;
+    return true;
+  });
+
+  if (query.limitToFirst !== undefined) entries = entries.slice(0, query.limitToFirst);
+  if (query.limitToLast !== undefined) entries = entries.slice(-query.limitToLast);
+  return entries.length ? Object.fromEntries(entries) : null;
+};
+
+const load = <T>(storage: Storage | null, key: string): T | null => {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return null;
+  }
+};
+
+const save = (storage: Storage | null, key: string, value: unknown) => {
+  if (!storage) return;
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error persisting ${key}:`, error);
+  }
+};
+
+const readAsDataUrl = (data: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(data);
+  });
+
+const defaultStorage = () => (typeof window !== 'undefined' ? window.localStorage : null);
+
+export const createMemoryBackend = (options: MemoryBackendOptions = {}): ChatBackend => {
+  const storage = options.storage === undefined ? defaultStorage() : options.storage;
+  const now = options.now || Date.now;
+  const nextPushId = createPushIdGenerator(options.random);
+
+  let tree: Tree = load<Tree>(storage, DB_KEY) || clone(options.seed) || {};
+  let authState: AuthState = load<AuthState>(storage, AUTH_KEY) || { accounts: {}, currentUid: null };
+  const listeners = new Set<Listener>();
+  // Writes to carry out when the page goes away, by the path they were registered on
+  const disconnectActions = new Map<string, () => string[][]>();
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+
+  const deliver = (listener: Listener) => {
+    const value = applyQuery(readPath(tree, listener.segments), listener.query);
+    const serialized = JSON.stringify(value);
+    if (serialized === listener.last) return;
+    listener.last = serialized;
+    listener.callback(clone(value));
+  };
+
+  const notify = (segments: string[] | null) => {
+    listeners.forEach(listener => {
+      if (!segments || isPrefix(listener.segments, segments) || isPrefix(segments, listener.segments)) {
+        deliver(listener);
+      }
+    });
+  };
+
+  const write = (path: string, value: unknown) => {
+    const segments = splitPath(path);
+    const normalized = normalize(value, now());
+    if (segments.length === 0) {
+      tree = (normalized as Tree) || {};
+    } else {
+      writePath(tree, segments, normalized);
+    }
+    return segments;
+  };
+
+  const commit = (changed: string[][]) => {
+    save(storage, DB_KEY, tree);
+    changed.forEach(notify);
+  };
+
+  const currentUser = (): AuthUser | null => {
+    const account = Object.values(authState.accounts).find(a => a.uid === authState.currentUid);
+    if (!account) return null;
+    const { password, ...user } = account;
+    return user;
+  };
+
+  const setAuthState = (next: AuthState) => {
+    authState = next;
+    save(storage, AUTH_KEY, authState);
+    const user = currentUser();
+    authListeners.forEach(listener => listener(user));
+  };
+
+  // Keep tabs in sync when the data is shared through localStorage
+  if (storage && typeof window !== 'undefined' && storage === window.localStorage) {
+    window.addEventListener('storage', (event) => {
+      if (event.key === DB_KEY) {
+        tree = load<Tree>(storage, DB_KEY) || {};
+        notify(null);
+      } else if (event.key === AUTH_KEY) {
+        authState = load<AuthState>(storage, AUTH_KEY) || { accounts: {}, currentUid: null };
+        const user = currentUser();
+        authListeners.forEach(listener => listener(user));
+      }
+    });
+  }
+
+  // There is no server to notice a dropped connection, so the closest thing
+  // is the tab being closed; other tabs pick the writes up through storage
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => {
+      const changed = [...disconnectActions.values()].flatMap(action => action());
+      disconnectActions.clear();
+      if (changed.length) commit(changed);
+    });
+  }
+
+  return {
+    name: 'memory',
+
+    auth: {
+      onAuthStateChanged: (callback): Unsubscribe => {
+        authListeners.add(callback);
+        Promise.resolve().then(() => {
+          if (authListeners.has(callback)) callback(currentUser());
+        });
+        return () => {
+          authListeners.delete(callback);
+        };
+      },
+
+      signIn: async (email, password) => {
+        const account = authState.accounts[email.toLowerCase()];
+        if (!account || account.password !== password) {
+          throw new Error('Invalid email or password');
+        }
+        setAuthState({ ...authState, currentUid: account.uid });
+        return currentUser();
+      },
+
+      register: async (email, password, displayName) => {
+        const key = email.toLowerCase();
+        if (authState.accounts[key]) {
+          throw new Error('Email is already in use');
+        }
+        if (password.length < 6) {
+          throw new Error('Password should be at least 6 characters');
+        }
+        const account: StoredAccount = {
+          uid: nextPushId(now()),
+          email: key,
+          displayName,
+          photoURL: null,
+          password
+        };
+        setAuthState({ accounts: { ...authState.accounts, [key]: account }, currentUid: account.uid });
+        return currentUser();
+      },
+
+      signOut: async () => {
+        setAuthState({ ...authState, currentUid: null });
+      }
+    },
+
+    database: {
+      get: async <T>(path: string, query?: Query) =>
+        clone(applyQuery(readPath(tree, splitPath(path)), query)) as T | null,
+
+      subscribe: <T>(path: string, callback: (value: T | null) => void, query?: Query): Unsubscribe => {
+        const listener: Listener = {
+          segments: splitPath(path),
+          query,
+          callback: callback as (value: unknown) => void
+        };
+        listeners.add(listener);
+        Promise.resolve().then(() => {
+          if (listeners.has(listener)) deliver(listener);
+        });
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+
+      set: async (path, value) => {
+        commit([write(path, value)]);
+      },
+
+      update: async (path, patch) => {
+        const changed = Object.entries(patch).map(([key, value]) => write(`${path}/${key}`, value));
+        commit(changed);
+      },
+
+      push: async (path, value) => {
+        const key = nextPushId(now());
+        commit([write(`${path}/${key}`, value)]);
+        return key;
+      },
+
+      createKey: () => nextPushId(now()),
+
+      remove: async (path) => {
+        commit([write(path, null)]);
+      },
+
+      serverTimestamp: () => ({ '.sv': 'timestamp' }),
+
+      // Always connected: the data lives in this tab
+      subscribeToConnection: (callback): Unsubscribe => {
+        let subscribed = true;
+        Promise.resolve().then(() => {
+          if (subscribed) callback(true);
+        });
+        return () => {
+          subscribed = false;
+        };
+      },
+
+      // Timestamps come from `now`, which tests may set apart from the real clock
+      subscribeToServerTimeOffset: (callback): Unsubscribe => {
+        let subscribed = true;
+        Promise.resolve().then(() => {
+          if (subscribed) callback(now() - Date.now());
+        });
+        return () => {
+          subscribed = false;
+        };
+      },
+
+      // A later registration on the same path replaces the earlier one
+      onDisconnect: (path) => ({
+        set: async (value) => {
+          disconnectActions.set(path, () => [write(path, value)]);
+        },
+        update: async (patch) => {
+          disconnectActions.set(path, () => Object.entries(patch).map(([key, value]) => write(`${path}/${key}`, value)));
+        },
+        remove: async () => {
+          disconnectActions.set(path, () => [write(path, null)]);
+        },
+        cancel: async () => {
+          disconnectActions.delete(path);
+        }
+      })
+    },
+
+    storage: {
+      upload: (_path, data, options = {}) => {
+        let cancelled = false;
+        const result = readAsDataUrl(data).then((url) => {
+          if (cancelled) throw new Error('Upload cancelled');
+          options.onProgress?.(1);
+          return url;
+        });
+
+        return {
+          result,
+          cancel: () => {
+            cancelled = true;
+          }
+        };
+      },
+
+      // Data URLs live in the messages that reference them; there is nothing to delete
+      remove: async () => {}
+    },
+
+    remoteConfig: {
+      // Defaults can be overridden per browser through localStorage
+      fetch: async <T extends RemoteConfigValues>(defaults: T) => {
+        const overrides = load<Partial<T>>(storage, REMOTE_CONFIG_KEY) || {};
+        const values = Object.keys(defaults).map(key => [key, overrides[key] ?? defaults[key]]);
+        return Object.fromEntries(values) as T;
+      }
+    }
+  };
+};
@@ -0,0 +1,35 @@
+const PUSH_CHARS = '-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz';
+
+// Generates chronologically ordered ids in the same format as Firebase push
+// keys: 8 characters of timestamp followed by 12 random characters. Ids made
+// within the same millisecond increment the random part so they stay sorted.
+export const createPushIdGenerator = (random: () => number = Math.random) => {
+  let lastPushTime = 0;
+  const lastRandChars: number[] = [];
+
+  return (now: number) => {
+    const duplicateTime = now === lastPushTime;
+    lastPushTime = now;
+
+    let time = now;
+    const timeStampChars: string[] = new Array(8);
+    for (let i = 7; i >= 0; i--) {
+      timeStampChars[i] = PUSH_CHARS.charAt(time % 64);
+      time = Math.floor(time / 64);
+    }
+
+    if (!duplicateTime) {
+      for (let i = 0; i < 12; i++) {
+        lastRandChars[i] = Math.floor(random() * 64);
+      }
+    } else {
+      let i = 11;
+      for (; i >= 0 && lastRandChars[i] === 63; i--) {
+        lastRandChars[i] = 0;
+      }
+      lastRandChars[i]++;
+    }
+
+    return timeStampChars.join('') + lastRandChars.map(char => PUSH_CHARS.charAt(char)).join('');
+  };
+};
@@ -0,0 +1,97 @@
+export type Unsubscribe = () => void;
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface BackendAuth {
+  onAuthStateChanged: (callback: (user: AuthUser | null) => void) => Unsubscribe;
+  signIn: (email: string, password: string) => Promise<AuthUser>;
+  register: (email: string, password: string, displayName: string) => Promise<AuthUser>;
+  signOut: () => Promise<void>;
+}
+
+export type QueryBound = string | number | boolean | null;
+
+// Ordering, range and limit applied to the children of a node. Children are
+// ordered by key unless `orderByChild` is given; bounds compare against the
+// ordered value.
+export interface Query {
+  orderByChild?: string;
+  startAt?: QueryBound;
+  startAfter?: QueryBound;
+  endAt?: QueryBound;
+  endBefore?: QueryBound;
+  equalTo?: QueryBound;
+  limitToFirst?: number;
+  limitToLast?: number;
+}
+
+// Writes the backend applies on its own once this client's connection drops,
+// e.g. because the tab was closed. They stay registered across calls until
+// cancelled or carried out.
+export interface DisconnectActions {
+  set: (value: unknown) => Promise<void>;
+  update: (patch: object) => Promise<void>;
+  remove: () => Promise<void>;
+  cancel: () => Promise<void>;
+}
+
+// Path-based realtime tree, modelled on the Realtime Database. Values are
+// plain JSON; writing `null` removes a node.
+export interface BackendDatabase {
+  get: <T>(path: string, query?: Query) => Promise<T | null>;
+  subscribe: <T>(path: string, callback: (value: T | null) => void, query?: Query) => Unsubscribe;
+  set: (path: string, value: unknown) => Promise<void>;
+  // Keys of `patch` may be nested paths relative to `path`
+  update: (path: string, patch: object) => Promise<void>;
+  push: (path: string, value: unknown) => Promise<string>;
+  // Generates a push key for a child of `path` without writing anything
+  createKey: (path: string) => string;
+  remove: (path: string) => Promise<void>;
+  // Placeholder resolved to the backend's clock when written
+  serverTimestamp: () => object;
+  // Called with whether this client is connected, now and on every change.
+  // Disconnect actions must be registered again after each reconnect.
+  subscribeToConnection: (callback: (connected: boolean) => void) => Unsubscribe;
+  // Called with how far the backend's clock is ahead of this client's, in
+  // milliseconds, now and whenever the estimate changes
+  subscribeToServerTimeOffset: (callback: (offset: number) => void) => Unsubscribe;
+  onDisconnect: (path: string) => DisconnectActions;
+}
+
+export interface UploadOptions {
+  contentType?: string;
+  // Called with the uploaded fraction, from 0 to 1
+  onProgress?: (progress: number) => void;
+}
+
+export interface UploadTask {
+  // Resolves to a URL the uploaded file can be downloaded from
+  result: Promise<string>;
+  cancel: () => void;
+}
+
+// Blob storage for attachments, addressed by path like the database
+export interface BackendStorage {
+  upload: (path: string, data: Blob, options?: UploadOptions) => UploadTask;
+  remove: (path: string) => Promise<void>;
+}
+
+export type RemoteConfigValues = Record<string, string | number | boolean>;
+
+export interface BackendRemoteConfig {
+  // Resolves every key of `defaults`, falling back to the default value
+  fetch: <T extends RemoteConfigValues>(defaults: T) => Promise<T>;
+}
+
+export interface ChatBackend {
+  name: 'firebase' | 'memory';
+  auth: BackendAuth;
+  database: BackendDatabase;
+  storage: BackendStorage;
+  remoteConfig: BackendRemoteConfig;
+}
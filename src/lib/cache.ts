@@ -0,0 +1,105 @@
+import { deleteDatabase, isIndexedDbAvailable, openDatabase, requestResult, transactionDone } from '@/lib/idb';
+
+const DATABASE_VERSION = 1;
+const ENTRIES = 'entries';
+const UPDATED_AT = 'updatedAt';
+// Rough budget for everything cached for one user
+const MAX_CACHE_BYTES = 5 * 1024 * 1024;
+// Eviction reads every entry, so it runs at most this often per user
+const EVICTION_INTERVAL = 60 * 1000;
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  updatedAt: number;
+  // Approximate size of the serialized value, used for eviction
+  size: number;
+}
+
+// Snapshots of backend data shown while the live subscriptions catch up.
+// Everything here is disposable: a miss just means waiting for the network.
+export const cacheKeys = {
+  messages: (chatId: string) => `messages/${chatId}`,
+  chatInfo: (chatId: string) => `chatInfo/${chatId}`,
+  chatList: () => 'chatList',
+  groups: () => 'groups'
+};
+
+const databaseName = (uid: string) => `chat-cache-${uid}`;
+const databases = new Map<string, Promise<IDBDatabase>>();
+const lastEviction = new Map<string, number>();
+
+const getDatabase = (uid: string) => {
+  if (!databases.has(uid)) {
+    databases.set(uid, openDatabase(databaseName(uid), DATABASE_VERSION, (database) => {
+      const store = database.createObjectStore(ENTRIES, { keyPath: 'key' });
+      store.createIndex(UPDATED_AT, UPDATED_AT);
+    }));
+  }
+  return databases.get(uid);
+};
+
+export const readCache = async <T>(uid: string, key: string): Promise<T | null> => {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const database = await getDatabase(uid);
+    const entry = await requestResult<CacheEntry<T> | undefined>(
+      database.transaction(ENTRIES, 'readonly').objectStore(ENTRIES).get(key)
+    );
+    return entry ? entry.value : null;
+  } catch (error) {
+    console.error('Error reading cache:', error);
+    return null;
+  }
+};
+
+// Drops the least recently written entries until the cache fits its budget
+const evict = async (database: IDBDatabase) => {
+  const transaction = database.transaction(ENTRIES, 'readwrite');
+  const store = transaction.objectStore(ENTRIES);
+  const entries = await requestResult<CacheEntry[]>(store.index(UPDATED_AT).getAll());
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    if (total <= MAX_CACHE_BYTES) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+  await transactionDone(transaction);
+};
+
+export const writeCache = async <T>(uid: string, key: string, value: T) => {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    const database = await getDatabase(uid);
+    const transaction = database.transaction(ENTRIES, 'readwrite');
+    const entry: CacheEntry<T> = {
+      key,
+      value,
+      updatedAt: Date.now(),
+      // UTF-16, so two bytes per character
+      size: JSON.stringify(value).length * 2
+    };
+    transaction.objectStore(ENTRIES).put(entry);
+    await transactionDone(transaction);
+
+    if (Date.now() - (lastEviction.get(uid) || 0) > EVICTION_INTERVAL) {
+      lastEviction.set(uid, Date.now());
+      await evict(database);
+    }
+  } catch (error) {
+    console.error('Error writing cache:', error);
+  }
+};
+
+export const clearCache = async (uid: string) => {
+  if (!isIndexedDbAvailable()) return;
+
+  const database = databases.get(uid);
+  databases.delete(uid);
+  lastEviction.delete(uid);
+  (await database)?.close();
+  await deleteDatabase(databaseName(uid));
+};
@@ -0,0 +1,54 @@
+import { paths } from './paths';
+import { readValue, subscribeValue, writeValue, updateValue, pushValue, withIds } from './db';
+import type {
+  AdminRecord,
+  AdminRequest,
+  AdminRequestStatus,
+  AdminSettings,
+  EditedMessageEntry,
+  Unsubscribe
+} from './types';
+
+export const getAdmin = (uid: string) => readValue<AdminRecord>(paths.admin(uid));
+
+export const hasAnyAdmin = async () => (await readValue(paths.admins())) !== null;
+
+export const setAdmin = (uid: string, record: AdminRecord) => writeValue(paths.admin(uid), record);
+
+export const updateAdmin = (uid: string, record: Partial<AdminRecord>) =>
+  updateValue(paths.admin(uid), record);
+
+export const subscribeToAdminSettings = (
+  callback: (settings: AdminSettings | null) => void
+): Unsubscribe => subscribeValue<AdminSettings>(paths.adminSettings(), callback);
+
+export const updateAdminSettings = (patch: Partial<AdminSettings>) =>
+  updateValue(paths.adminSettings(), patch);
+
+export const subscribeToAdminRequests = (callback: (requests: AdminRequest[]) => void): Unsubscribe =>
+  subscribeValue<Record<string, Omit<AdminRequest, 'id'>>>(paths.adminRequests(), (data) => {
+    callback(withIds<AdminRequest>(data));
+  });
+
+export const createAdminRequest = (request: Omit<AdminRequest, 'id' | 'status' | 'timestamp'>) =>
+  pushValue(paths.adminRequests(), {
+    ...request,
+    timestamp: Date.now(),
+    status: 'pending'
+  });
+
+export const reviewAdminRequest = (requestId: string, status: AdminRequestStatus, reviewedBy: string) =>
+  updateValue(paths.adminRequest(requestId), {
+    status,
+    reviewedAt: Date.now(),
+    reviewedBy
+  });
+
+// Most recently edited messages first
+export const subscribeToEditedMessages = (
+  limit: number,
+  callback: (entries: EditedMessageEntry[]) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, EditedMessageEntry>>(paths.editedMessages(), (data) => {
+    callback(Object.values(data || {}).sort((a, b) => b.editedAt - a.editedAt));
+  }, { orderByChild: 'editedAt', limitToLast: limit });
@@ -0,0 +1,110 @@
+import { getBackend, type UploadTask } from '@/lib/backend';
+import { measureImage, resizeImage, type ProcessedImage } from '@/lib/images';
+import { paths } from './paths';
+import { createKey } from './db';
+import type { Attachment, AttachmentKind, AttachmentLimits, ChatRef } from './types';
+
+const MB = 1024 * 1024;
+const IMAGE_MAX_DIMENSION = 1600;
+const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+export const isAllowedContentType = (contentType: string, allowedTypes: string[]) =>
+  allowedTypes.some(pattern =>
+    pattern.endsWith('/*') ? contentType.startsWith(pattern.slice(0, -1)) : contentType === pattern
+  );
+
+export const getAttachmentKind = (contentType: string): AttachmentKind =>
+  contentType.startsWith('image/') ? 'image' : 'file';
+
+// Returns why a file can't be attached, or null when it can
+export const validateAttachment = (file: Pick<File, 'type' | 'size'>, limits: AttachmentLimits): string | null => {
+  const contentType = file.type || 'application/octet-stream';
+  if (!isAllowedContentType(contentType, limits.allowedTypes)) {
+    return 'This file type is not allowed';
+  }
+
+  const maxSizeMB = getAttachmentKind(contentType) === 'image' ? limits.maxImageSizeMB : limits.maxFileSizeMB;
+  if (file.size > maxSizeMB * MB) {
+    return `Files of this type can be at most ${maxSizeMB} MB`;
+  }
+
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+};
+
+const toStorageName = (name: string) => name.replace(/[^\w.-]+/g, '_') || 'file';
+
+// Images are downscaled and get a thumbnail before uploading; anything that
+// can't be decoded as an image is uploaded as a plain file
+const prepareImage = async (file: File): Promise<{ image: ProcessedImage; thumbnail: ProcessedImage } | null> => {
+  try {
+    // GIFs are kept as they are so they stay animated
+    const image = file.type === 'image/gif' ? await measureImage(file) : await resizeImage(file, IMAGE_MAX_DIMENSION);
+    const thumbnail = await resizeImage(file, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY);
+    return { image, thumbnail };
+  } catch (error) {
+    console.error('Error processing image:', error);
+    return null;
+  }
+};
+
+export const uploadAttachment = (
+  chat: ChatRef,
+  file: File,
+  onProgress?: (progress: number) => void
+): { result: Promise<Attachment>; cancel: () => void } => {
+  const storage = getBackend().storage;
+  const folder = paths.attachments(chat.id, createKey(paths.messages(chat)));
+  const tasks: UploadTask[] = [];
+  let cancelled = false;
+
+  const upload = (name: string, data: Blob, onUploadProgress?: (progress: number) => void) => {
+    if (cancelled) return Promise.reject(new Error('Upload cancelled'));
+    const task = storage.upload(`${folder}/${name}`, data, { contentType: data.type, onProgress: onUploadProgress });
+    tasks.push(task);
+    return task.result;
+  };
+
+  const result = (async (): Promise<Attachment> => {
+    const name = toStorageName(file.name);
+    const contentType = file.type || 'application/octet-stream';
+    const prepared = getAttachmentKind(contentType) === 'image' ? await prepareImage(file) : null;
+
+    if (!prepared) {
+      const url = await upload(name, file, onProgress);
+      return { kind: 'file', url, path: `${folder}/${name}`, name: file.name, contentType, size: file.size };
+    }
+
+    const { image, thumbnail } = prepared;
+    const [url, thumbnailUrl] = await Promise.all([
+      upload(name, image.blob, onProgress),
+      thumbnail.blob === image.blob ? null : upload(`thumb_${name}`, thumbnail.blob)
+    ]);
+
+    return {
+      kind: 'image',
+      url,
+      path: `${folder}/${name}`,
+      name: file.name,
+      contentType: image.blob.type || contentType,
+      size: image.blob.size,
+      width: image.width,
+      height: image.height,
+      thumbnailUrl: thumbnailUrl || url
+    };
+  })();
+
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      tasks.forEach(task => task.cancel());
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { paths } from './paths';
+import { subscribeValue, writeValue, updateValue, withIds } from './db';
+import { pushNotification } from './notifications';
+import type { ChatRequest, ChatRequestStatus, Unsubscribe } from './types';
+
+export const subscribeToChatRequests = (
+  uid: string,
+  callback: (requests: ChatRequest[]) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, Omit<ChatRequest, 'id'>>>(paths.chatRequests(uid), (data) => {
+    callback(withIds<ChatRequest>(data));
+  });
+
+// Requests live under the recipient, keyed by the chat id they would unlock
+export const sendChatRequest = async (toUid: string, chatId: string, request: Omit<ChatRequest, 'id' | 'status' | 'timestamp'>) => {
+  const timestamp = Date.now();
+  await writeValue(paths.chatRequest(toUid, chatId), {
+    ...request,
+    fromAvatar: request.fromAvatar || '',
+    status: 'pending',
+    timestamp
+  });
+  await pushNotification(toUid, {
+    type: 'chatRequest',
+    from: request.from,
+    fromName: request.fromName,
+    chatId,
+    status: 'pending',
+    timestamp
+  });
+};
+
+// Updates both the recipient's copy and the sender's so each side sees the
+// outcome, and notifies the sender
+export const respondToChatRequest = async (
+  uid: string,
+  request: ChatRequest,
+  status: ChatRequestStatus,
+  responderName: string
+) => {
+  await updateValue(paths.chatRequest(uid, request.id), { status });
+  await updateValue(paths.chatRequest(request.from, request.id), { status });
+  await pushNotification(request.from, {
+    type: 'chatRequest',
+    from: uid,
+    fromName: responderName,
+    chatId: request.id,
+    status,
+    timestamp: Date.now()
+  });
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { readValue, writeValue } from './db';
+import { backfillUserChats, deleteChat, directChat, groupChat, hasMessages, resolveChat, subscribeToUserChats } from './chats';
+import { banGroupMember, createGroup, getGroupInfo } from './groups';
+import { sendMessage } from './messages';
+import type { UserChat } from './types';
+
+describe('chats', () => {
+  beforeEach(() => {
+    setBackend(createMemoryBackend({ storage: null }));
+  });
+
+  it('resolves group ids to groups and anything else to one-to-one chats', async () => {
+    await writeValue('groups/g1', { name: 'Team', createdBy: 'a' });
+
+    expect(await resolveChat('g1')).toEqual(groupChat('g1'));
+    expect(await resolveChat('a_b')).toEqual(directChat('a_b'));
+  });
+
+  it('tells whether a conversation has any messages', async () => {
+    await writeValue('chats/a_b/messages', { m1: { text: 'hi' }, m2: { text: 'there' } });
+
+    expect(await hasMessages(directChat('a_b'))).toBe(true);
+    expect(await hasMessages(directChat('a_c'))).toBe(false);
+  });
+
+  it('reads group info without its messages', async () => {
+    await writeValue('groups/g1', {
+      name: 'Team',
+      createdBy: 'a',
+      members: { a: { role: 'admin', joinedAt: 1 } },
+      messages: { m1: { text: 'hi' } },
+      lastMessage: { text: 'hi' }
+    });
+
+    expect(await getGroupInfo('g1')).toEqual({
+      id: 'g1',
+      name: 'Team',
+      createdBy: 'a',
+      members: { a: { role: 'admin', joinedAt: 1 } }
+    });
+    expect(await getGroupInfo('missing')).toBeNull();
+  });
+
+  it('deletes a chat together with the pointers to its messages', async () => {
+    await writeValue('', {
+      chats: { a_b: { messages: { m1: { text: 'hi' } } } },
+      userChats: { a: { a_b: { lastActivity: 1 } }, b: { a_b: { lastActivity: 1 }, b_c: { lastActivity: 2 } } },
+      deliveries: { b: { a_b: { m1: { isGroup: false } } } },
+      unread: { b: { a_b: { m1: { isGroup: false } } } }
+    });
+
+    await deleteChat('a_b', 'admin');
+
+    expect(await readValue('chats/a_b')).toEqual({ isDeleted: true, deletedAt: expect.any(Number), deletedBy: 'admin' });
+    expect(await readValue('userChats')).toEqual({ b: { b_c: { lastActivity: 2 } } });
+    expect(await readValue('deliveries')).toBeNull();
+    expect(await readValue('unread')).toBeNull();
+  });
+
+  it('lists groups with their members and follows their activity', async () => {
+    let clock = 0;
+    setBackend(createMemoryBackend({ storage: null, now: () => ++clock }));
+    const lists: Record<string, UserChat[]> = {};
+    ['a', 'b'].forEach(uid => subscribeToUserChats(uid, (chats) => { lists[uid] = chats; }));
+
+    const groupId = await createGroup('Team', 'a', ['b']);
+    await sendMessage(directChat('a_c'), { text: 'hi', senderId: 'a', senderName: 'Ann', type: 'text' }, ['c']);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(lists.a.map(({ chatId, isGroup }) => [chatId, isGroup])).toEqual([['a_c', false], [groupId, true]]);
+    expect(lists.b.map(({ chatId }) => chatId)).toEqual([groupId]);
+
+    await banGroupMember(groupId, 'b', 'a');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(lists.b).toEqual([]);
+  });
+
+  it('backfills the lists from existing chats and groups', async () => {
+    await writeValue('', {
+      chats: {
+        a_b: { messages: { m1: { timestamp: 5 }, m2: { timestamp: 9 } } },
+        a_c: { isDeleted: true }
+      },
+      groups: {
+        g1: {
+          name: 'Team',
+          createdAt: 3,
+          members: { a: { role: 'admin', joinedAt: 1 }, d: { role: 'member', joinedAt: 1, isBanned: true } }
+        }
+      }
+    });
+
+    expect(await backfillUserChats()).toBe(2);
+    expect(await readValue('userChats')).toEqual({
+      a: { a_b: { lastActivity: 9 }, g1: { isGroup: true, lastActivity: 3 } },
+      b: { a_b: { lastActivity: 9 } }
+    });
+  });
+});
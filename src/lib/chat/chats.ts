@@ -0,0 +1,103 @@
+import { paths } from './paths';
+import { readValue, subscribeValue, updateValue } from './db';
+import { getGroups } from './groups';
+import type { ChatActivity, ChatRef, MessageData, Unsubscribe, UserChat } from './types';
+
+// One-to-one chat ids are the two participant uids, sorted and joined by `_`.
+export const getDirectChatId = (uidA: string, uidB: string) => [uidA, uidB].sort().join('_');
+
+export const getDirectParticipantIds = (chatId: string) => chatId.split('_');
+
+export const getOtherParticipantId = (chatId: string, uid: string) =>
+  getDirectParticipantIds(chatId).find(id => id !== uid);
+
+export const directChat = (chatId: string): ChatRef => ({ id: chatId, isGroup: false });
+
+export const groupChat = (groupId: string): ChatRef => ({ id: groupId, isGroup: true });
+
+// Works out whether an id refers to a group or a one-to-one chat. Every group
+// has a name, so that is all that needs reading.
+export const resolveChat = async (chatId: string): Promise<ChatRef> => {
+  const name = await readValue(paths.groupName(chatId));
+  return name !== null ? groupChat(chatId) : directChat(chatId);
+};
+
+export const hasMessages = async (chat: ChatRef) =>
+  (await readValue(paths.messages(chat), { limitToFirst: 1 })) !== null;
+
+export const subscribeToChatActivity = (
+  chatId: string,
+  callback: (activity: ChatActivity | null) => void
+): Unsubscribe => subscribeValue<ChatActivity>(paths.chatActivity(chatId), callback);
+
+// The user's conversations and groups, most recently active first
+export const subscribeToUserChats = (
+  uid: string,
+  callback: (chats: UserChat[]) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, Partial<Omit<UserChat, 'chatId'>>>>(paths.userChats(uid), (data) => {
+    callback(Object.entries(data || {})
+      .map(([chatId, entry]) => ({ chatId, isGroup: !!entry.isGroup, lastActivity: entry.lastActivity || 0 }))
+      .sort((a, b) => b.lastActivity - a.lastActivity));
+  });
+
+// Adds a conversation from before the index existed to the user's list
+export const indexUserChat = async (uid: string, chatId: string) => {
+  const activity = await readValue<ChatActivity>(paths.chatActivity(chatId));
+  if (!activity?.lastActivity) return;
+  await updateValue(paths.userChat(uid, chatId), { lastActivity: activity.lastActivity });
+};
+
+// Removes the messages along with everything pointing at them, in one write
+export const deleteChat = (chatId: string, deletedBy: string) =>
+  updateValue('', {
+    [`${paths.chat(chatId)}/isDeleted`]: true,
+    [`${paths.chat(chatId)}/deletedAt`]: Date.now(),
+    [`${paths.chat(chatId)}/deletedBy`]: deletedBy,
+    [paths.messages(directChat(chatId))]: null,
+    ...Object.fromEntries(getDirectParticipantIds(chatId).flatMap(uid => [
+      [paths.userChat(uid, chatId), null],
+      [paths.deliveryChat(uid, chatId), null],
+      [paths.unreadChat(uid, chatId), null]
+    ]))
+  });
+
+// Adds every conversation and group from before the index existed to its
+// members' lists. It reads all chats and groups, so only admins run it.
+// Resolves to the number of conversations indexed.
+export const backfillUserChats = async () => {
+  type Conversation = { isDeleted?: boolean; messages?: Record<string, MessageData> };
+  const [chats, activity, groups] = await Promise.all([
+    readValue<Record<string, Conversation>>(paths.chats()),
+    readValue<Record<string, ChatActivity>>(paths.chatActivities()),
+    getGroups()
+  ]);
+  const patch: Record<string, unknown> = {};
+
+  const directChats = Object.entries(chats || {}).filter(([, chat]) => !chat.isDeleted && chat.messages);
+  directChats.forEach(([chatId, chat]) => {
+    const lastActivity = activity?.[chatId]?.lastActivity ||
+      Math.max(...Object.values(chat.messages).map(message => message.timestamp || 0));
+    getDirectParticipantIds(chatId).forEach((uid) => {
+      patch[`${paths.userChat(uid, chatId)}/lastActivity`] = lastActivity;
+    });
+  });
+
+  const liveGroups = groups.filter(group => !group.isDeleted);
+  liveGroups.forEach((group) => {
+    const lastActivity = group.lastMessage?.timestamp || group.createdAt || 0;
+    Object.entries(group.members || {})
+      .filter(([, member]) => !member.isBanned)
+      .forEach(([uid]) => {
+        patch[paths.userChat(uid, group.id)] = { isGroup: true, lastActivity };
+      });
+  });
+
+  if (Object.keys(patch).length > 0) await updateValue('', patch);
+  return directChats.length + liveGroups.length;
+};
+
+export const getChatIds = async () => {
+  const chats = await readValue<Record<string, unknown>>(paths.chats());
+  return Object.keys(chats || {});
+};
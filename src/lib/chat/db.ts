@@ -0,0 +1,48 @@
+import { getBackend, type Query } from '@/lib/backend';
+import type { Unsubscribe } from './types';
+
+// Thin typed wrappers around the active backend's realtime tree. Values are
+// returned as plain objects (or null when the node doesn't exist).
+
+export const readValue = <T>(path: string, query?: Query): Promise<T | null> =>
+  getBackend().database.get<T>(path, query);
+
+export const subscribeValue = <T>(
+  path: string,
+  callback: (value: T | null) => void,
+  query?: Query
+): Unsubscribe => getBackend().database.subscribe<T>(path, callback, query);
+
+export const writeValue = (path: string, value: unknown) => getBackend().database.set(path, value);
+
+export const updateValue = (path: string, patch: object) => getBackend().database.update(path, patch);
+
+export const pushValue = (path: string, value: unknown): Promise<string> => getBackend().database.push(path, value);
+
+export const createKey = (path: string): string => getBackend().database.createKey(path);
+
+export const removeValue = (path: string) => getBackend().database.remove(path);
+
+export const timestampNow = () => getBackend().database.serverTimestamp();
+
+export const subscribeToConnection = (callback: (connected: boolean) => void): Unsubscribe =>
+  getBackend().database.subscribeToConnection(callback);
+
+export const subscribeToServerTimeOffset = (callback: (offset: number) => void): Unsubscribe =>
+  getBackend().database.subscribeToServerTimeOffset(callback);
+
+// This client's estimate of the backend's clock
+export const getServerNow = () =>
+  new Promise<number>((resolve) => {
+    const unsubscribe = subscribeToServerTimeOffset((offset) => {
+      resolve(Date.now() + offset);
+      // Deferred, as the first value may arrive before `unsubscribe` is assigned
+      Promise.resolve().then(() => unsubscribe());
+    });
+  });
+
+export const onDisconnect = (path: string) => getBackend().database.onDisconnect(path);
+
+// Turns a `{ [id]: data }` node into a list of `{ id, ...data }` records.
+export const withIds = <T extends { id: string }>(data: Record<string, Omit<T, 'id'>> | null): T[] =>
+  data ? Object.entries(data).map(([id, value]) => ({ id, ...value }) as T) : [];
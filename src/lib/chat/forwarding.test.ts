@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { readValue } from './db';
+import { FORWARD_WINDOW, MAX_FORWARDS_PER_WINDOW, getForwardAllowance, recordForwards } from './forwarding';
+
+describe('forward rate limit', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = Date.now();
+    setBackend(createMemoryBackend({ storage: null, now: () => now }));
+  });
+
+  it('counts forwards within the window', async () => {
+    await recordForwards('a', 3);
+    expect(await getForwardAllowance('a')).toBe(MAX_FORWARDS_PER_WINDOW - 3);
+    expect(await getForwardAllowance('b')).toBe(MAX_FORWARDS_PER_WINDOW);
+
+    await recordForwards('a', MAX_FORWARDS_PER_WINDOW);
+    expect(await getForwardAllowance('a')).toBe(0);
+  });
+
+  it('lets old forwards lapse and clears them out', async () => {
+    await recordForwards('a', 2);
+    now += FORWARD_WINDOW + 1;
+
+    expect(await getForwardAllowance('a')).toBe(MAX_FORWARDS_PER_WINDOW);
+    await recordForwards('a', 1);
+    expect(Object.keys(await readValue('forwardLog/a'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { paths } from './paths';
+import { readValue, updateValue, createKey, getServerNow, timestampNow } from './db';
+import { decodeMentions } from './mentions';
+import type { AdminSettings, ChatRef, Group, Message, NewMessage, UserProfile } from './types';
+
+// How many conversations a message can be forwarded to at once
+export const MAX_FORWARD_TARGETS = 5;
+// From this many forwards on a message is labelled as forwarded many times
+// and can only be forwarded to one conversation at a time
+export const FREQUENTLY_FORWARDED = 5;
+// How many conversations one person can forward messages to per FORWARD_WINDOW
+export const MAX_FORWARDS_PER_WINDOW = 30;
+export const FORWARD_WINDOW = 60 * 60 * 1000;
+
+export interface ForwardTarget {
+  chat: ChatRef;
+  name: string;
+  photoURL?: string;
+  // The group, or the other person in a one-to-one chat
+  group?: Group;
+  user?: UserProfile | null;
+}
+
+export const isFrequentlyForwarded = (message: Pick<Message, 'forwardCount'>) =>
+  (message.forwardCount || 0) >= FREQUENTLY_FORWARDED;
+
+export const getForwardLimit = (message: Pick<Message, 'forwardCount'>) =>
+  isFrequentlyForwarded(message) ? 1 : MAX_FORWARD_TARGETS;
+
+const isDisabledAt = (entity: Pick<Group, 'isDisabled' | 'disabledUntil'> | null | undefined, now: number) =>
+  !!entity?.isDisabled && (!entity.disabledUntil || entity.disabledUntil > now);
+
+// Why the message can't go to this conversation right now, or null if it can
+export const getForwardBlockReason = (
+  message: Pick<Message, 'attachment' | 'voice'>,
+  target: ForwardTarget,
+  settings: AdminSettings,
+  now = Date.now()
+): string | null => {
+  const { featureFlags } = settings;
+  if (target.chat.isGroup && !featureFlags.enableGroupChat) return 'Group chats are turned off';
+  if (target.chat.isGroup && isDisabledAt(target.group, now)) return 'This group is disabled';
+  if (!target.chat.isGroup && isDisabledAt(target.user, now)) return 'This account is disabled';
+  if (message.attachment && !featureFlags.enableFileSharing) return 'File sharing is turned off';
+  if (message.voice && !featureFlags.enableVoiceMessages) return 'Voice messages are turned off';
+  return null;
+};
+
+// A copy of the message from `sender`. Mentions become plain text, since they
+// point at people in the original conversation, and the reply is left behind.
+export const toForwardedMessage = (
+  message: Message,
+  sender: Pick<NewMessage, 'senderId' | 'senderName' | 'senderAvatar'>
+): NewMessage => ({
+  ...sender,
+  text: decodeMentions(message.text, message.mentions),
+  type: message.type,
+  attachment: message.attachment,
+  voice: message.voice,
+  forwardCount: (message.forwardCount || 0) + 1
+});
+
+type ForwardLog = Record<string, { at: number }>;
+
+// How many more conversations `uid` may forward to right now
+export const getForwardAllowance = async (uid: string) => {
+  const now = await getServerNow();
+  const recent = await readValue<ForwardLog>(paths.forwardLog(uid), {
+    orderByChild: 'at',
+    startAt: now - FORWARD_WINDOW
+  });
+  return Math.max(0, MAX_FORWARDS_PER_WINDOW - Object.keys(recent || {}).length);
+};
+
+// Counts `count` forwards against the limit and clears out entries that no
+// longer count
+export const recordForwards = async (uid: string, count: number) => {
+  const now = await getServerNow();
+  const expired = await readValue<ForwardLog>(paths.forwardLog(uid), {
+    orderByChild: 'at',
+    endBefore: now - FORWARD_WINDOW
+  });
+  const log = paths.forwardLog(uid);
+
+  await updateValue('', {
+    ...Object.fromEntries(Object.keys(expired || {}).map(key => [`${log}/${key}`, null])),
+    ...Object.fromEntries(Array.from({ length: count }, () => [`${log}/${createKey(log)}`, { at: timestampNow() }]))
+  });
+};
@@ -0,0 +1,107 @@
+import { paths } from './paths';
+import { readValue, subscribeValue, updateValue, createKey, timestampNow, withIds } from './db';
+import type { Group, GroupData, GroupMember, Unsubscribe } from './types';
+
+export const subscribeToGroups = (callback: (groups: Group[]) => void): Unsubscribe =>
+  subscribeValue<Record<string, GroupData>>(paths.groups(), (data) => {
+    callback(withIds<Group>(data).map(group => ({ ...group, members: group.members || {} })));
+  });
+
+export const getGroups = async (): Promise<Group[]> =>
+  withIds<Group>(await readValue<Record<string, GroupData>>(paths.groups()));
+
+export const getGroup = async (groupId: string): Promise<Group | null> => {
+  const data = await readValue<GroupData>(paths.group(groupId));
+  return data ? { id: groupId, ...data, members: data.members || {} } : null;
+};
+
+// Just the name, without loading the group's messages
+export const getGroupName = (groupId: string) => readValue<string>(paths.groupName(groupId));
+
+const GROUP_INFO_FIELDS = [
+  'name',
+  'description',
+  'members',
+  'createdBy',
+  'createdAt',
+  'isDeleted',
+  'isDisabled',
+  'disabledUntil'
+] as const;
+
+// The group without its messages or preview, read field by field since a
+// node can't be read without its children
+export const getGroupInfo = async (groupId: string): Promise<Group | null> => {
+  const values = await Promise.all(GROUP_INFO_FIELDS.map(field => readValue(paths.groupField(groupId, field))));
+  const data = Object.fromEntries(
+    GROUP_INFO_FIELDS.map((field, i) => [field, values[i]]).filter(([, value]) => value !== null)
+  ) as Partial<GroupData>;
+  if (!data.name && !data.createdBy) return null;
+
+  return { id: groupId, ...data, members: data.members || {} } as Group;
+};
+
+export const isGroupMember = (group: Group, uid: string) =>
+  Object.keys(group.members || {}).includes(uid);
+
+// The creator counts as an admin even without the role
+export const isGroupAdmin = (group: Group | null, uid: string) =>
+  !!group && (group.createdBy === uid || group.members?.[uid]?.role === 'admin');
+
+// Same check reading only the fields it needs, for when the group isn't loaded
+export const checkGroupAdmin = async (groupId: string, uid: string) => {
+  const [createdBy, role] = await Promise.all([
+    readValue<string>(paths.groupField(groupId, 'createdBy')),
+    readValue<string>(`${paths.groupMember(groupId, uid)}/role`)
+  ]);
+  return createdBy === uid || role === 'admin';
+};
+
+// Members find their groups through their own conversation list
+const indexEntry = () => ({ isGroup: true, lastActivity: timestampNow() });
+
+export const createGroup = async (name: string, createdBy: string, memberIds: string[]): Promise<string> => {
+  const groupId = createKey(paths.groups());
+  const allMemberIds = [createdBy, ...memberIds.filter(uid => uid !== createdBy)];
+
+  await updateValue('', {
+    [paths.group(groupId)]: {
+      name,
+      createdBy,
+      createdAt: timestampNow(),
+      members: Object.fromEntries(allMemberIds.map(uid => [uid, {
+        role: uid === createdBy ? 'admin' : 'member',
+        joinedAt: timestampNow()
+      }]))
+    },
+    ...Object.fromEntries(allMemberIds.map(uid => [paths.userChat(uid, groupId), indexEntry()]))
+  });
+  return groupId;
+};
+
+export const updateGroup = (groupId: string, patch: Partial<GroupData>) =>
+  updateValue(paths.group(groupId), patch);
+
+export const updateGroupMember = (groupId: string, uid: string, patch: Partial<GroupMember>) =>
+  updateValue(paths.groupMember(groupId, uid), patch);
+
+export const addGroupMember = (groupId: string, uid: string, member: GroupMember) =>
+  updateValue('', {
+    [paths.groupMember(groupId, uid)]: member,
+    [paths.userChat(uid, groupId)]: indexEntry()
+  });
+
+export const removeGroupMember = (groupId: string, uid: string) =>
+  updateValue('', {
+    [paths.groupMember(groupId, uid)]: null,
+    [paths.userChat(uid, groupId)]: null
+  });
+
+// Banned members stay listed as such, but the group leaves their list
+export const banGroupMember = (groupId: string, uid: string, bannedBy: string) =>
+  updateValue('', {
+    [`${paths.groupMember(groupId, uid)}/isBanned`]: true,
+    [`${paths.groupMember(groupId, uid)}/bannedAt`]: Date.now(),
+    [`${paths.groupMember(groupId, uid)}/bannedBy`]: bannedBy,
+    [paths.userChat(uid, groupId)]: null
+  });
@@ -0,0 +1,21 @@
+export * from './types';
+export * from './messages';
+export * from './mentions';
+export * from './markup';
+export * from './forwarding';
+export * from './reactions';
+export * from './receipts';
+export * from './unread';
+export * from './attachments';
+export * from './voice';
+export * from './chats';
+export * from './groups';
+export * from './users';
+export * from './presence';
+export * from './privacy';
+export * from './chatRequests';
+export * from './typing';
+export * from './notifications';
+export * from './starred';
+export * from './settings';
+export * from './admin';
@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { toPlainText } from './markup';
+
+describe('toPlainText', () => {
+  it('drops markup characters and shows mentions by name', () => {
+    const mentions = { u1: 'Bea' };
+    expect(toPlainText('*hey* <@u1>, see _this_', mentions)).toBe('hey @Bea, see this');
+  });
+
+  it('keeps code and quoted text', () => {
+    expect(toPlainText('> quoted\n```\nconst *x* = 1\n```')).toBe('quoted\nconst *x* = 1');
+  });
+});
@@ -0,0 +1,131 @@
+import { getMentionName } from './mentions';
+import type { MessageMentions } from './types';
+
+// Lightweight chat markup: *bold*, _italic_, ~strikethrough~, `code`,
+// ```code blocks``` and lines starting with `>` as quotes. Parsed into a
+// small tree the UI renders as elements, never as HTML.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; text: string }
+  | { type: 'mention'; uid: string; name: string };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'codeBlock'; text: string };
+
+// Takes the line breaks around the fences with it
+const CODE_BLOCK = /\n?```\n?([\s\S]*?)\n?```\n?/g;
+const QUOTE_LINE = /^>\s?/;
+
+// Trailing punctuation is left out of links, so "see https://x.dev." works
+const URL_SOURCE = String.raw`https?:\/\/[^\s<>]*[^\s<>.,:;!?"'()\[\]*_~]`;
+const URL_PATTERN = new RegExp(URL_SOURCE, 'g');
+
+// Emphasis markers must hug the text and not sit inside a word, so
+// snake_case and 2*3*4 stay as they are
+const emphasis = (marker: string) =>
+  String.raw`(?<![\w${marker}])${marker}(?=\S)([^${marker}\n]*?\S)${marker}(?![\w${marker}])`;
+
+// Alternatives in order of precedence; code and links win over emphasis
+const INLINE_PATTERN = new RegExp([
+  '`([^`\\n]+)`',
+  '<@([^<>\\s]+)>',
+  `(${URL_SOURCE})`,
+  emphasis('\\*'),
+  emphasis('_'),
+  emphasis('~')
+].join('|'), 'g');
+
+const EMPHASIS_TYPES = ['bold', 'italic', 'strike'] as const;
+
+// Mention tokens inside code show as names too, rather than raw uids
+const decodeTokens = (text: string, mentions: MessageMentions) =>
+  text.replace(/<@([^<>\s]+)>/g, (_, uid: string) => `@${getMentionName(uid, mentions)}`);
+
+export const parseInline = (text: string, mentions: MessageMentions = {}): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) nodes.push({ type: 'text', text: text.slice(last, match.index) });
+    last = match.index + match[0].length;
+
+    const [, code, mention, url, ...emphasized] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: decodeTokens(code, mentions) });
+    } else if (mention !== undefined) {
+      nodes.push({ type: 'mention', uid: mention, name: getMentionName(mention, mentions) });
+    } else if (url !== undefined) {
+      nodes.push({ type: 'link', url, text: url });
+    } else {
+      const index = emphasized.findIndex(inner => inner !== undefined);
+      nodes.push({ type: EMPHASIS_TYPES[index], children: parseInline(emphasized[index], mentions) });
+    }
+  }
+
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+  return nodes;
+};
+
+// Consecutive quote lines form one quote, everything else one paragraph
+const parseLines = (text: string, mentions: MessageMentions): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let lines: string[] = [];
+  let isQuote = false;
+
+  const flush = () => {
+    const content = lines.join('\n');
+    if (content.trim()) {
+      blocks.push({ type: isQuote ? 'quote' : 'paragraph', children: parseInline(content, mentions) });
+    }
+    lines = [];
+  };
+
+  text.split('\n').forEach((line) => {
+    const quoted = QUOTE_LINE.test(line);
+    if (quoted !== isQuote) {
+      flush();
+      isQuote = quoted;
+    }
+    lines.push(quoted ? line.replace(QUOTE_LINE, '') : line);
+  });
+  flush();
+
+  return blocks;
+};
+
+export const parseMarkup = (text: string, mentions: MessageMentions = {}): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let last = 0;
+
+  for (const match of (text || '').matchAll(CODE_BLOCK)) {
+    blocks.push(...parseLines(text.slice(last, match.index), mentions));
+    blocks.push({ type: 'codeBlock', text: decodeTokens(match[1], mentions) });
+    last = match.index + match[0].length;
+  }
+  blocks.push(...parseLines((text || '').slice(last), mentions));
+
+  return blocks;
+};
+
+// The links in a message, in order, leaving out any inside code
+export const findLinks = (text: string) =>
+  [...(text || '').replace(CODE_BLOCK, ' ').replace(/`[^`\n]+`/g, ' ').matchAll(URL_PATTERN)].map(match => match[0]);
+
+const inlineText = (nodes: InlineNode[]): string =>
+  nodes.map((node) => {
+    if (node.type === 'mention') return `@${node.name}`;
+    if ('children' in node) return inlineText(node.children);
+    return node.text;
+  }).join('');
+
+// The text as it reads on screen, without markup characters or mention
+// tokens, e.g. for searching what the user can see
+export const toPlainText = (text: string, mentions: MessageMentions = {}) =>
+  parseMarkup(text, mentions)
+    .map(block => (block.type === 'codeBlock' ? block.text : inlineText(block.children)))
+    .join('\n');
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { decodeMentions, encodeMentions, findMentionQuery, getMentionedIds, isMentioned } from './mentions';
+
+describe('mentions', () => {
+  it('encodes picked names, longest first, and drops picks no longer in the text', () => {
+    const encoded = encodeMentions('@Ann Lee and @Ann', { u1: 'Ann', u2: 'Ann Lee', u3: 'Cy' });
+
+    expect(encoded.text).toBe('<@u2> and <@u1>');
+    expect(encoded.mentions).toEqual({ u1: 'Ann', u2: 'Ann Lee' });
+    expect(decodeMentions(encoded.text, encoded.mentions)).toBe('@Ann Lee and @Ann');
+  });
+
+  it('turns tokens typed by hand into plain text', () => {
+    const encoded = encodeMentions('ping <@all> and <@u9>', {});
+
+    expect(encoded).toEqual({ text: 'ping @all and @u9', mentions: undefined });
+    expect(getMentionedIds(encoded.text, ['u9'])).toEqual([]);
+  });
+
+  it('mentions everyone with @all only where allowed', () => {
+    expect(getMentionedIds('<@all> and <@b>', ['b', 'c'])).toEqual(['b', 'c']);
+    expect(getMentionedIds('<@all> and <@b>', ['b', 'c'], false)).toEqual(['b']);
+    expect(isMentioned({ text: 'hi <@all>' }, 'c')).toBe(true);
+  });
+
+  it('finds the mention being typed before the caret', () => {
+    expect(findMentionQuery('hi @an', 6)).toEqual({ query: 'an', start: 3 });
+    expect(findMentionQuery('mail a@b', 8)).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import type { Message, MessageMentions } from './types';
+
+// Mentions are kept in the text as `<@uid>` tokens, so a rename doesn't break
+// them; the message's `mentions` holds the names they had when it was sent
+export const MENTION_ALL = 'all';
+
+const MENTION_TOKEN = /<@([^<>\s]+)>/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export type MentionPart = string | { uid: string; name: string };
+
+export const getMentionName = (uid: string, mentions: MessageMentions) =>
+  mentions[uid] || (uid === MENTION_ALL ? MENTION_ALL : 'Unknown User');
+
+// Plain runs of text and the mentions between them
+export const splitMentions = (text: string, mentions: MessageMentions = {}): MentionPart[] =>
+  (text || '')
+    .split(MENTION_TOKEN)
+    .map((part, index) => (index % 2 === 1 ? { uid: part, name: getMentionName(part, mentions) } : part))
+    .filter(part => part !== '');
+
+// The text with every mention written as `@name`, for previews, search and editing
+export const decodeMentions = (text: string, mentions: MessageMentions = {}) =>
+  splitMentions(text, mentions)
+    .map(part => (typeof part === 'string' ? part : `@${part.name}`))
+    .join('');
+
+// Tokens typed or pasted in by hand are plain text: they lose their brackets
+// so they can't pass for mentions nobody picked
+const stripMentionTokens = (text: string) => text.replace(MENTION_TOKEN, '@$1');
+
+// Turns the `@name`s picked in the composer into tokens. Picks the user has
+// since deleted from the text are dropped.
+export const encodeMentions = (text: string, picked: MessageMentions) => {
+  const mentions: MessageMentions = {};
+  // Longest names first, so "@Ann Lee" isn't taken for "@Ann"
+  const byLength = Object.entries(picked).sort(([, a], [, b]) => b.length - a.length);
+
+  const encoded = byLength.reduce((result, [uid, name]) => {
+    const pattern = new RegExp(`@${escapeRegExp(name)}(?![\\w])`, 'g');
+    if (!pattern.test(result)) return result;
+
+    mentions[uid] = name;
+    return result.replace(pattern, `<@${uid}>`);
+  }, stripMentionTokens(text));
+
+  return { text: encoded, mentions: Object.keys(mentions).length > 0 ? mentions : undefined };
+};
+
+const getMentionTokens = (text: string) => [...(text || '').matchAll(MENTION_TOKEN)].map(match => match[1]);
+
+export const mentionsAll = (text: string) => getMentionTokens(text).includes(MENTION_ALL);
+
+// Who a message mentions among `recipientIds`; @all means all of them, unless
+// the sender isn't allowed to use it
+export const getMentionedIds = (text: string, recipientIds: string[], allowAll = true) => {
+  const tokens = new Set(getMentionTokens(text));
+  return tokens.has(MENTION_ALL) && allowAll ? recipientIds : recipientIds.filter(uid => tokens.has(uid));
+};
+
+export const isMentioned = (message: Pick<Message, 'text'>, uid: string) => {
+  const tokens = getMentionTokens(message.text);
+  return tokens.includes(uid) || tokens.includes(MENTION_ALL);
+};
+
+// The `@query` typed just before the caret, while the user is writing a mention
+export const findMentionQuery = (text: string, caret: number) => {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  return match ? { query: match[1], start: caret - match[1].length - 1 } : null;
+};
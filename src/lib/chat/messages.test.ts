@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { readValue, writeValue } from './db';
+import { directChat, groupChat } from './chats';
+import { deleteMessageForEveryone, editMessage, getMessage, sendMessage } from './messages';
+import type { Message, NewMessage } from './types';
+
+const newMessage = (patch: Partial<NewMessage> = {}): NewMessage => ({
+  text: 'hi',
+  senderId: 'a',
+  senderName: 'Ann',
+  type: 'text',
+  ...patch
+});
+
+const notified = async () => Object.keys((await readValue<Record<string, unknown>>('notifications')) || {});
+
+describe('messages', () => {
+  beforeEach(() => {
+    setBackend(createMemoryBackend({ storage: null, now: () => 1000 }));
+  });
+
+  it('sends with delivery and unread pointers and notifies mentioned members', async () => {
+    const chat = groupChat('g1');
+    await sendMessage(chat, newMessage({ text: 'hey <@b>', mentions: { b: 'Bo' } }), ['b', 'c'], 'm1');
+
+    expect(await getMessage(chat, 'm1')).toMatchObject({ id: 'm1', text: 'hey <@b>', timestamp: 1000 });
+    expect(await readValue('deliveries')).toEqual({
+      b: { g1: { m1: { isGroup: true } } },
+      c: { g1: { m1: { isGroup: true } } }
+    });
+    expect(await readValue('groups/g1/lastMessage/text')).toBe('hey @Bo');
+    expect(await notified()).toEqual(['b']);
+  });
+
+  it('notifies only the people an edit newly mentions', async () => {
+    const chat = groupChat('g1');
+    await sendMessage(chat, newMessage({ text: 'hey <@b>', mentions: { b: 'Bo' } }), ['b', 'c', 'd'], 'm1');
+    await writeValue('notifications', null);
+    const message = await getMessage(chat, 'm1');
+
+    await editMessage(chat, message, 'hey <@b> and <@c>', { b: 'Bo', c: 'Cy' }, ['b', 'c', 'd']);
+
+    expect(await notified()).toEqual(['c']);
+    expect(await readValue('notifications/c/m1/snippet')).toBe('hey @Bo and @Cy');
+  });
+
+  it('notifies the whole group of @all only from an admin', async () => {
+    const chat = groupChat('g1');
+    await writeValue('groups/g1/members', { a: { role: 'member' }, b: { role: 'admin' } });
+
+    await sendMessage(chat, newMessage({ text: 'hey <@all>' }), ['b', 'c'], 'm1');
+    expect(await notified()).toEqual([]);
+
+    await sendMessage(chat, newMessage({ text: 'hey <@all>', senderId: 'b' }), ['a', 'c'], 'm2');
+    expect(await notified()).toEqual(['a', 'c']);
+  });
+
+  it('keeps the earlier text when editing', async () => {
+    const chat = directChat('a_b');
+    await sendMessage(chat, newMessage(), ['b'], 'm1');
+
+    await editMessage(chat, await getMessage(chat, 'm1'), 'hello');
+
+    const edited = await getMessage(chat, 'm1');
+    expect(edited.text).toBe('hello');
+    expect(Object.values(edited.editHistory).map(version => version.text)).toEqual(['hi']);
+    expect(await readValue('chatActivity/a_b/lastMessage/text')).toBe('hello');
+  });
+
+  it('leaves nothing of the text behind when deleted for everyone', async () => {
+    const chat = directChat('a_b');
+    await sendMessage(chat, newMessage({
+      text: 'secret <@b>',
+      mentions: { b: 'Bo' },
+      replyTo: { id: 'm0', senderId: 'b', senderName: 'Bo', snippet: 'question' }
+    }), ['b'], 'm1');
+    await editMessage(chat, await getMessage(chat, 'm1'), 'still secret');
+
+    await deleteMessageForEveryone(chat, 'm1', 'a');
+
+    const deleted = await getMessage(chat, 'm1') as Message;
+    expect(deleted).toMatchObject({ deletedForEveryone: true, text: 'This message was deleted' });
+    expect(deleted.editHistory).toBeUndefined();
+    expect(deleted.mentions).toBeUndefined();
+    expect(deleted.replyTo).toBeUndefined();
+    expect(await readValue('editedMessages')).toBeNull();
+    expect(await readValue('chatActivity/a_b/lastMessage/text')).toBe('This message was deleted');
+  });
+});
@@ -0,0 +1,264 @@
+import { paths } from './paths';
+import { readValue, subscribeValue, updateValue, createKey, timestampNow, withIds } from './db';
+import { formatDuration } from './voice';
+import { getDirectParticipantIds } from './chats';
+import { checkGroupAdmin } from './groups';
+import { decodeMentions, getMentionedIds, mentionsAll } from './mentions';
+import type {
+  ChatRef,
+  MentionNotification,
+  EditedMessageEntry,
+  LastMessage,
+  Message,
+  MessageData,
+  MessageMentions,
+  MessageReference,
+  MessageVersion,
+  NewMessage,
+  PendingDelivery,
+  Unsubscribe
+} from './types';
+
+const SNIPPET_LENGTH = 120;
+
+const byTimestamp = (a: Message, b: Message) => (a.timestamp || 0) - (b.timestamp || 0);
+
+// Push ids sort chronologically, so ordering by id pages through a
+// conversation in send order
+const byId = (a: Message, b: Message) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// A window of a conversation's history; bounds are message ids
+export interface MessageRange {
+  startAt?: string;
+  endBefore?: string;
+  limitToLast?: number;
+}
+
+export const isMessageVisibleTo = (message: Message, uid: string) => {
+  if (message.deletedForEveryone) return false;
+  if (message.deletedFor?.includes(uid)) return false;
+  return true;
+};
+
+export const subscribeToMessageRange = (
+  chat: ChatRef,
+  range: MessageRange,
+  callback: (messages: Message[]) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, MessageData>>(
+    paths.messages(chat),
+    (data) => callback(withIds<Message>(data).sort(byId)),
+    range
+  );
+
+export const getMessageRange = async (chat: ChatRef, range: MessageRange): Promise<Message[]> => {
+  const data = await readValue<Record<string, MessageData>>(paths.messages(chat), range);
+  return withIds<Message>(data).sort(byId);
+};
+
+export const getMessages = async (chat: ChatRef): Promise<Message[]> => {
+  const messages = withIds<Message>(await readValue<Record<string, MessageData>>(paths.messages(chat)));
+  return messages.sort(byTimestamp);
+};
+
+// One-line summary used in conversation previews and quotes
+export const getMessagePreview = (message: Pick<Message, 'text' | 'mentions' | 'attachment' | 'voice'>) => {
+  const text = decodeMentions(message.text, message.mentions);
+  if (message.voice) return `🎤 Voice message ${formatDuration(message.voice.duration)}`;
+  if (message.attachment?.kind === 'image') return `📷 ${text || 'Photo'}`;
+  if (message.attachment) return `📎 ${text || message.attachment.name}`;
+  return text;
+};
+
+const toSnippet = (text: string) => (text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text);
+
+export const toMessageReference = (message: Message): MessageReference => ({
+  id: message.id,
+  senderId: message.senderId,
+  senderName: message.senderName,
+  snippet: toSnippet(getMessagePreview(message))
+});
+
+export const getMessage = async (chat: ChatRef, messageId: string): Promise<Message | null> => {
+  const data = await readValue<MessageData>(paths.message(chat, messageId));
+  return data ? { id: messageId, ...data } : null;
+};
+
+// Ids are generated on the client and sort chronologically, so a message can
+// be shown, ordered and retried under its final id before it is written
+export const createMessageId = (chat: ChatRef) => createKey(paths.messages(chat));
+
+type MentionSource = Pick<NewMessage, 'senderId' | 'senderName' | 'text' | 'mentions' | 'attachment' | 'voice'>;
+
+// @all only reaches the group when an admin wrote it; the group is only read
+// when one of the texts has it
+const canNotifyAll = async (chat: ChatRef, senderId: string, ...texts: string[]) =>
+  chat.isGroup && texts.some(mentionsAll) && checkGroupAdmin(chat.id, senderId);
+
+// Keyed by the message id, so sending the message again doesn't notify twice
+const getMentionNotifications = (chat: ChatRef, messageId: string, message: MentionSource, mentionedIds: string[]) => {
+  if (!chat.isGroup) return {};
+
+  const notification: MentionNotification = {
+    type: 'mention',
+    from: message.senderId,
+    fromName: message.senderName,
+    chatId: chat.id,
+    isGroup: true,
+    messageId,
+    snippet: toSnippet(getMessagePreview(message)),
+    timestamp: Date.now()
+  };
+  return Object.fromEntries(mentionedIds.map(uid => [paths.notification(uid, messageId), notification]));
+};
+
+// Writes the message in one update with the conversation preview and, for
+// each recipient, a delivery pointer (so their client can acknowledge it even
+// when the conversation isn't open) and an unread pointer. People mentioned
+// in a group get a notification in the same update.
+export const sendMessage = async (
+  chat: ChatRef,
+  message: NewMessage,
+  recipientIds: string[] = [],
+  messageId = createMessageId(chat)
+): Promise<string> => {
+  const pending: PendingDelivery = { isGroup: chat.isGroup };
+  const timestamp = timestampNow();
+  const allowAll = await canNotifyAll(chat, message.senderId, message.text);
+
+  // The database rejects undefined values, so optional fields are left out
+  const fields = Object.fromEntries(Object.entries(message).filter(([, value]) => value !== undefined));
+
+  await updateValue('', {
+    [paths.message(chat, messageId)]: {
+      ...fields,
+      senderAvatar: message.senderAvatar || '',
+      timestamp
+    },
+    [paths.lastMessage(chat)]: {
+      messageId,
+      text: getMessagePreview(message),
+      timestamp,
+      sender: message.senderId,
+      senderName: message.senderName
+    },
+    ...(chat.isGroup ? {
+      ...Object.fromEntries([message.senderId, ...recipientIds].flatMap(uid => [
+        [`${paths.userChat(uid, chat.id)}/lastActivity`, timestamp],
+        [`${paths.userChat(uid, chat.id)}/isGroup`, true]
+      ]))
+    } : {
+      [`${paths.chatActivity(chat.id)}/lastActivity`]: timestamp,
+      ...Object.fromEntries(getDirectParticipantIds(chat.id).map(uid => [
+        `${paths.userChat(uid, chat.id)}/lastActivity`, timestamp
+      ]))
+    }),
+    ...Object.fromEntries(recipientIds.flatMap(uid => [
+      [paths.delivery(uid, chat.id, messageId), pending],
+      [paths.unreadMessage(uid, chat.id, messageId), pending]
+    ])),
+    ...getMentionNotifications(chat, messageId, message, getMentionedIds(message.text, recipientIds, allowAll))
+  });
+  return messageId;
+};
+
+export const canEditMessage = (message: Message, uid: string, editWindowMinutes: number, now = Date.now()) =>
+  message.senderId === uid &&
+  !message.deletedForEveryone &&
+  editWindowMinutes > 0 &&
+  now - message.timestamp <= editWindowMinutes * 60 * 1000;
+
+// Replaces the text, keeps the previous one in the edit history, and updates
+// the conversation preview when the edited message is the latest one. Only
+// people the edit newly mentions among `recipientIds` are notified.
+export const editMessage = async (
+  chat: ChatRef,
+  message: Message,
+  text: string,
+  mentions: MessageMentions | null = null,
+  recipientIds: string[] = []
+) => {
+  const messagePath = paths.message(chat, message.id);
+  const editedAt = timestampNow();
+  const versionId = createKey(`${messagePath}/editHistory`);
+  const entry: Omit<EditedMessageEntry, 'editedAt'> = {
+    messageId: message.id,
+    chatId: chat.id,
+    isGroup: chat.isGroup,
+    senderId: message.senderId,
+    senderName: message.senderName
+  };
+
+  const patch: Record<string, unknown> = {
+    [`${messagePath}/text`]: text,
+    [`${messagePath}/mentions`]: mentions,
+    [`${messagePath}/editedAt`]: editedAt,
+    [`${messagePath}/editHistory/${versionId}`]: {
+      text: message.text,
+      mentions: message.mentions || null,
+      replacedAt: editedAt
+    },
+    [paths.editedMessage(message.id)]: { ...entry, editedAt }
+  };
+
+  const allowAll = await canNotifyAll(chat, message.senderId, message.text, text);
+  const alreadyMentioned = new Set(getMentionedIds(message.text, recipientIds, allowAll));
+  const newlyMentioned = getMentionedIds(text, recipientIds, allowAll).filter(uid => !alreadyMentioned.has(uid));
+  Object.assign(patch, getMentionNotifications(chat, message.id, { ...message, text, mentions }, newlyMentioned));
+
+  const lastMessage = await readValue<LastMessage>(paths.lastMessage(chat));
+  if (lastMessage?.messageId === message.id) {
+    patch[`${paths.lastMessage(chat)}/text`] = getMessagePreview({ ...message, text, mentions });
+  }
+
+  await updateValue('', patch);
+};
+
+// Earlier versions of a message, oldest first
+export const getMessageVersions = (message: Message): MessageVersion[] =>
+  Object.values(message.editHistory || {}).sort((a, b) => a.replacedAt - b.replacedAt);
+
+// Also unstars it, since it can't be shown any more
+export const deleteMessageForMe = (chat: ChatRef, message: Message, uid: string) =>
+  updateValue('', {
+    [`${paths.message(chat, message.id)}/deletedFor`]: [...(message.deletedFor || []), uid],
+    [paths.starredMessage(uid, message.id)]: null
+  });
+
+// Nothing of what was said is left behind: not the earlier versions, the
+// mentions or the quote, nor the admin's edit log entry or the preview
+export const deleteMessageForEveryone = async (chat: ChatRef, messageId: string, deletedBy: string) => {
+  const messagePath = paths.message(chat, messageId);
+  const text = 'This message was deleted';
+  const patch: Record<string, unknown> = {
+    [`${messagePath}/deletedForEveryone`]: true,
+    [`${messagePath}/text`]: text,
+    [`${messagePath}/attachment`]: null,
+    [`${messagePath}/voice`]: null,
+    [`${messagePath}/mentions`]: null,
+    [`${messagePath}/replyTo`]: null,
+    [`${messagePath}/editHistory`]: null,
+    [`${messagePath}/deletedAt`]: Date.now(),
+    [`${messagePath}/deletedBy`]: deletedBy,
+    [paths.editedMessage(messageId)]: null
+  };
+
+  const lastMessage = await readValue<LastMessage>(paths.lastMessage(chat));
+  if (lastMessage?.messageId === messageId) {
+    patch[`${paths.lastMessage(chat)}/text`] = text;
+  }
+
+  await updateValue('', patch);
+};
+
+// Every message in the system, across one-to-one chats and groups
+export const getAllMessages = async (): Promise<Message[]> => {
+  type Conversation = { messages?: Record<string, MessageData> };
+  const [chats, groups] = await Promise.all([
+    readValue<Record<string, Conversation>>(paths.chats()),
+    readValue<Record<string, Conversation>>(paths.groups())
+  ]);
+
+  return [...Object.values(chats || {}), ...Object.values(groups || {})]
+    .flatMap(conversation => withIds<Message>(conversation.messages || null));
+};
@@ -0,0 +1,83 @@
+import { paths } from './paths';
+import { pushValue, readValue, subscribeValue, updateValue, withIds } from './db';
+import type { ChatNotification, NotificationEntry, Unsubscribe } from './types';
+
+const NOTIFICATION_LIMIT = 50;
+// Older entries are pruned, and anything beyond the newest MAX_NOTIFICATIONS
+const NOTIFICATION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+const MAX_NOTIFICATIONS = 200;
+
+// Push ids sort chronologically
+const byId = (a: NotificationEntry, b: NotificationEntry) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Older clients also wrote an entry when a reaction was taken back
+const isShown = (notification: NotificationEntry) =>
+  notification.type !== 'reaction' || notification.action !== 'removed';
+
+export const pushNotification = (uid: string, notification: ChatNotification) =>
+  pushValue(paths.notifications(uid), notification);
+
+// The newest notifications, newest first
+export const subscribeToNotifications = (
+  uid: string,
+  callback: (notifications: NotificationEntry[]) => void,
+  limit = NOTIFICATION_LIMIT
+): Unsubscribe =>
+  subscribeValue<Record<string, ChatNotification>>(paths.notifications(uid), (data) => {
+    callback(withIds<NotificationEntry>(data).filter(isShown).sort(byId).reverse());
+  }, { limitToLast: limit });
+
+export const markNotificationsRead = (uid: string, notificationIds: string[]) => {
+  if (notificationIds.length === 0) return Promise.resolve();
+
+  return updateValue(paths.notifications(uid), Object.fromEntries(
+    notificationIds.map(id => [`${id}/read`, true])
+  ));
+};
+
+export const pruneNotifications = async (uid: string, now = Date.now()) => {
+  const notifications = withIds<NotificationEntry>(
+    await readValue<Record<string, ChatNotification>>(paths.notifications(uid))
+  ).sort(byId);
+
+  const stale = notifications.filter((notification, index) =>
+    index < notifications.length - MAX_NOTIFICATIONS || now - (notification.timestamp || 0) > NOTIFICATION_MAX_AGE
+  );
+  if (stale.length === 0) return;
+
+  await updateValue(paths.notifications(uid), Object.fromEntries(stale.map(({ id }) => [id, null])));
+};
+
+export const describeNotification = (notification: ChatNotification) => {
+  switch (notification.type) {
+    case 'reaction':
+      return `${notification.fromName} reacted ${notification.emoji} to your message`;
+    case 'mention':
+      return `${notification.fromName} mentioned you: ${notification.snippet}`;
+    case 'chatRequest':
+      if (notification.status === 'pending') return `${notification.fromName} sent you a chat request`;
+      return `${notification.fromName} ${notification.status} your chat request`;
+    case 'achievement':
+      return `You earned the "${notification.achievement}" achievement`;
+    case 'admin': {
+      const group = notification.groupName || 'a group';
+      switch (notification.action) {
+        case 'verified':
+          return 'Your account has been verified';
+        case 'disabled':
+          return notification.until
+            ? `Your account was suspended until ${new Date(notification.until).toLocaleDateString()}`
+            : 'Your account was suspended';
+        case 'addedToGroup':
+          return `You were added to ${group}`;
+        case 'removedFromGroup':
+          return `You were removed from ${group}`;
+        case 'bannedFromGroup':
+          return `You were banned from ${group}`;
+        case 'promotedInGroup':
+          return `You are now an admin of ${group}`;
+      }
+    }
+  }
+  return '';
+};
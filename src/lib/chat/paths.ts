@@ -0,0 +1,74 @@
+import type { ChatRef } from './types';
+
+// Single source of truth for Realtime Database locations. Nothing outside
+// src/lib/chat should build a path string by hand.
+export const paths = {
+  users: () => 'users',
+  user: (uid: string) => `users/${uid}`,
+  userAchievements: (uid: string) => `users/${uid}/achievements`,
+  userAchievement: (uid: string, achievement: string) => `users/${uid}/achievements/${achievement}`,
+  userActivity: (uid: string) => `userActivity/${uid}`,
+  presence: (uid: string) => `presence/${uid}`,
+  presenceConnections: (uid: string) => `presence/${uid}/connections`,
+  presenceConnection: (uid: string, connectionId: string) => `presence/${uid}/connections/${connectionId}`,
+
+  chats: () => 'chats',
+  chat: (chatId: string) => `chats/${chatId}`,
+  chatActivities: () => 'chatActivity',
+  chatActivity: (chatId: string) => `chatActivity/${chatId}`,
+  // Each user's own conversations and groups, so nobody needs the whole user or group list
+  userChats: (uid: string) => `userChats/${uid}`,
+  userChat: (uid: string, chatId: string) => `userChats/${uid}/${chatId}`,
+  // Conversation preview: one-to-one chats keep it in chatActivity, groups on the group itself
+  lastMessage: (chat: ChatRef) => chat.isGroup ? `groups/${chat.id}/lastMessage` : `chatActivity/${chat.id}/lastMessage`,
+
+  groups: () => 'groups',
+  group: (groupId: string) => `groups/${groupId}`,
+  groupName: (groupId: string) => `groups/${groupId}/name`,
+  groupField: (groupId: string, field: string) => `groups/${groupId}/${field}`,
+  groupMember: (groupId: string, uid: string) => `groups/${groupId}/members/${uid}`,
+
+  messages: (chat: ChatRef) => chat.isGroup ? `groups/${chat.id}/messages` : `chats/${chat.id}/messages`,
+  message: (chat: ChatRef, messageId: string) => `${paths.messages(chat)}/${messageId}`,
+  editedMessages: () => 'editedMessages',
+  editedMessage: (messageId: string) => `editedMessages/${messageId}`,
+
+  // Messages sent to `uid` that their client hasn't acknowledged yet
+  deliveries: (uid: string) => `deliveries/${uid}`,
+  deliveryChat: (uid: string, chatId: string) => `deliveries/${uid}/${chatId}`,
+  delivery: (uid: string, chatId: string, messageId: string) => `deliveries/${uid}/${chatId}/${messageId}`,
+  // Messages `uid` hasn't seen yet because the conversation wasn't open
+  unread: (uid: string) => `unread/${uid}`,
+  unreadChat: (uid: string, chatId: string) => `unread/${uid}/${chatId}`,
+  unreadMessage: (uid: string, chatId: string, messageId: string) => `unread/${uid}/${chatId}/${messageId}`,
+
+  chatRequests: (uid: string) => `chatRequests/${uid}`,
+  chatRequest: (uid: string, chatId: string) => `chatRequests/${uid}/${chatId}`,
+
+  // One entry per conversation `uid` forwarded a message to, for the rate limit
+  forwardLog: (uid: string) => `forwardLog/${uid}`,
+
+  typing: (chatId: string) => `typing/${chatId}`,
+  typingUser: (chatId: string, uid: string) => `typing/${chatId}/${uid}`,
+
+  notifications: (uid: string) => `notifications/${uid}`,
+  notification: (uid: string, notificationId: string) => `notifications/${uid}/${notificationId}`,
+
+  starredMessages: (uid: string) => `starredMessages/${uid}`,
+  starredMessage: (uid: string, messageId: string) => `starredMessages/${uid}/${messageId}`,
+
+  // Preferences only their owner reads
+  notificationSettings: (uid: string) => `userSettings/${uid}/notifications`,
+  chatListSettings: (uid: string) => `userSettings/${uid}/chatList`,
+  chatSettings: (uid: string) => `userSettings/${uid}/chats`,
+  chatSetting: (uid: string, chatId: string) => `userSettings/${uid}/chats/${chatId}`,
+
+  admins: () => 'admins',
+  admin: (uid: string) => `admins/${uid}`,
+  adminSettings: () => 'adminSettings',
+  adminRequests: () => 'adminRequests',
+  adminRequest: (requestId: string) => `adminRequests/${requestId}`,
+
+  // File storage: one folder per upload
+  attachments: (chatId: string, uploadId: string) => `attachments/${chatId}/${uploadId}`,
+};
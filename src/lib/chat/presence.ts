@@ -0,0 +1,104 @@
+import { paths } from './paths';
+import {
+  readValue,
+  subscribeValue,
+  writeValue,
+  updateValue,
+  createKey,
+  timestampNow,
+  onDisconnect
+} from './db';
+import type { Presence, PresenceConnection, PresenceData, Unsubscribe } from './types';
+
+// Every tab or device keeps its own record under presence/{uid}/connections,
+// so closing one tab doesn't take the user offline while another is open.
+// The profile's `isOnline`/`lastSeen` are kept in step for older readers.
+
+// Whether this client can currently reach the backend
+export { subscribeToConnection } from './db';
+
+export const createConnectionId = (uid: string) => createKey(paths.presenceConnections(uid));
+
+const connectionPath = (connectionId: string) => `connections/${connectionId}`;
+
+export const toPresence = (data: PresenceData | null): Presence => {
+  const connections = Object.values(data?.connections || {});
+  if (connections.length === 0) {
+    return { state: 'offline', lastSeen: data?.lastSeen || 0 };
+  }
+
+  const lastActive = Math.max(...connections.map(connection => connection.lastActive || 0));
+  const isActive = connections.some(connection => connection.state === 'online');
+  return { state: isActive ? 'online' : 'idle', lastSeen: lastActive };
+};
+
+export const subscribeToPresence = (uid: string, callback: (presence: Presence) => void): Unsubscribe =>
+  subscribeValue<PresenceData>(paths.presence(uid), (data) => callback(toPresence(data)));
+
+// Registers this client's connection. Has to run again after every
+// reconnect, since the backend carries out the disconnect writes each time
+// the connection drops. They are set up first so a connection that drops
+// straight away doesn't leave its record behind.
+export const connectPresence = async (uid: string, connectionId: string, connection: PresenceConnection) => {
+  await Promise.all([
+    onDisconnect(paths.presence(uid)).update({
+      [connectionPath(connectionId)]: null,
+      lastSeen: timestampNow()
+    }),
+    onDisconnect(paths.user(uid)).update({ isOnline: false, lastSeen: timestampNow() })
+  ]);
+
+  await Promise.all([
+    updateValue(paths.presence(uid), { [connectionPath(connectionId)]: connection }),
+    updateValue(paths.user(uid), { isOnline: true })
+  ]);
+};
+
+export const setPresenceConnection = (uid: string, connectionId: string, connection: PresenceConnection) =>
+  writeValue(paths.presenceConnection(uid, connectionId), connection);
+
+// Takes this client's connection away right now, e.g. on logout while the
+// user may still write their own records
+export const disconnectPresence = async (uid: string, connectionId: string) => {
+  await Promise.all([
+    onDisconnect(paths.presence(uid)).cancel(),
+    onDisconnect(paths.user(uid)).cancel()
+  ]);
+
+  await updateValue(paths.presence(uid), { [connectionPath(connectionId)]: null, lastSeen: timestampNow() });
+  const remaining = await readValue<PresenceData['connections']>(paths.presenceConnections(uid));
+  await updateValue(paths.user(uid), { isOnline: !!remaining, lastSeen: timestampNow() });
+};
+
+// Another connection going away marks the profile offline from its
+// disconnect writes; any connection still around marks it online again
+export const syncOnlineFlag = (uid: string, connectionId: string): Unsubscribe => {
+  let connectionCount = 0;
+
+  return subscribeValue<PresenceData['connections']>(paths.presenceConnections(uid), (connections) => {
+    const count = Object.keys(connections || {}).length;
+    if (count < connectionCount && connections?.[connectionId]) {
+      updateValue(paths.user(uid), { isOnline: true }).catch((error) => {
+        console.error('Error updating online status:', error);
+      });
+    }
+    connectionCount = count;
+  });
+};
+
+export const formatLastSeen = (lastSeen: number) => {
+  if (!lastSeen) return 'Never';
+
+  const diff = Date.now() - lastSeen;
+  if (diff < 60000) return 'Just now';
+  if (diff < 3600000) return `${Math.floor(diff / 60000)}m ago`;
+  if (diff < 86400000) return `${Math.floor(diff / 3600000)}h ago`;
+  return `${Math.floor(diff / 86400000)}d ago`;
+};
+
+export const getPresenceLabel = (presence: Presence | null | undefined) => {
+  if (!presence || presence.state === 'offline') {
+    return presence?.lastSeen ? `Last seen ${formatLastSeen(presence.lastSeen)}` : 'Offline';
+  }
+  return presence.state === 'online' ? 'Online' : 'Idle';
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { removeValue, writeValue } from './db';
+import { DEFAULT_PRIVACY, canView, sendsReadReceipts, subscribeToContactOf, type PrivacyViewer } from './privacy';
+
+const viewer = (patch: Partial<PrivacyViewer> = {}): PrivacyViewer => ({
+  uid: 'b',
+  privacy: DEFAULT_PRIVACY,
+  contacts: new Set(),
+  contactOf: new Set(),
+  ...patch
+});
+
+describe('privacy', () => {
+  beforeEach(() => {
+    setBackend(createMemoryBackend({ storage: null, now: () => 500 }));
+  });
+
+  it("shows 'My contacts' settings to the owner's contacts only", () => {
+    const owner = { uid: 'a', privacy: { ...DEFAULT_PRIVACY, profilePhoto: 'contacts' as const } };
+
+    expect(canView(owner, 'profilePhoto', viewer({ contacts: new Set(['a']) }))).toBe(false);
+    expect(canView(owner, 'profilePhoto', viewer({ contactOf: new Set(['a']) }))).toBe(true);
+  });
+
+  it('keeps read receipts from senders the reader hides them from', () => {
+    const reader = (readReceipts: 'everyone' | 'contacts' | 'nobody') =>
+      viewer({ privacy: { ...DEFAULT_PRIVACY, readReceipts }, contacts: new Set(['a']) });
+
+    expect(sendsReadReceipts(reader('everyone'), 'c')).toBe(true);
+    expect(sendsReadReceipts(reader('contacts'), 'a')).toBe(true);
+    expect(sendsReadReceipts(reader('contacts'), 'c')).toBe(false);
+    expect(sendsReadReceipts(reader('nobody'), 'a')).toBe(false);
+    expect(sendsReadReceipts(null, 'a')).toBe(false);
+  });
+
+  it('follows who still lists the user among their contacts', async () => {
+    await writeValue('userChats/a/a_b', { lastActivity: 1 });
+    await writeValue('userChats/b/a_b', { lastActivity: 1 });
+    await writeValue('userChats/b/b_c', { lastActivity: 1 });
+
+    let contactOf = new Set<string>();
+    const unsubscribe = subscribeToContactOf('b', (value) => { contactOf = value; });
+    await vi.waitFor(() => expect([...contactOf]).toEqual(['a']));
+
+    await removeValue('userChats/a/a_b');
+    await vi.waitFor(() => expect(contactOf.size).toBe(0));
+    unsubscribe();
+  });
+});
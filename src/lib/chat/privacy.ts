@@ -0,0 +1,133 @@
+import { paths } from './paths';
+import { subscribeValue } from './db';
+import { subscribeToUserChats, getOtherParticipantId } from './chats';
+import type { Message, PrivacySetting, PrivacySettings, Presence, Unsubscribe, UserProfile } from './types';
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  lastSeen: 'everyone',
+  onlineStatus: 'everyone',
+  profilePhoto: 'everyone',
+  readReceipts: 'everyone'
+};
+
+// Hiding one of these from everybody also hides everybody else's from you
+const RECIPROCAL_SETTINGS: PrivacySetting[] = ['lastSeen', 'onlineStatus', 'readReceipts'];
+
+// The signed-in user, as far as other people's privacy settings care
+export interface PrivacyViewer {
+  uid: string;
+  privacy: PrivacySettings;
+  contacts: Set<string>;
+  // The people who have the viewer among their own contacts
+  contactOf: Set<string>;
+}
+
+export const getPrivacySettings = (profile: Pick<UserProfile, 'privacy'> | null | undefined): PrivacySettings => ({
+  ...DEFAULT_PRIVACY,
+  ...profile?.privacy
+});
+
+// The people `uid` has a one-to-one conversation with
+export const subscribeToContacts = (uid: string, callback: (contacts: Set<string>) => void): Unsubscribe =>
+  subscribeToUserChats(uid, (chats) => {
+    callback(new Set(chats
+      .filter(chat => !chat.isGroup)
+      .map(chat => getOtherParticipantId(chat.chatId, uid))
+      .filter(Boolean)));
+  });
+
+// The people who have `uid` among their contacts: those of its one-to-one
+// partners whose own conversation list still holds the chat
+export const subscribeToContactOf = (uid: string, callback: (contactOf: Set<string>) => void): Unsubscribe => {
+  const watched = new Map<string, Unsubscribe>();
+  const contactOf = new Set<string>();
+  const emit = () => callback(new Set(contactOf));
+
+  const unsubscribeChats = subscribeToUserChats(uid, (chats) => {
+    const partners = new Map(chats
+      .filter(chat => !chat.isGroup)
+      .map(chat => [getOtherParticipantId(chat.chatId, uid), chat.chatId] as const)
+      .filter(([partner]) => partner));
+
+    watched.forEach((unsubscribe, partner) => {
+      if (partners.has(partner)) return;
+      unsubscribe();
+      watched.delete(partner);
+      contactOf.delete(partner);
+    });
+    partners.forEach((chatId, partner) => {
+      if (watched.has(partner)) return;
+      watched.set(partner, subscribeValue(paths.userChat(partner, chatId), (entry) => {
+        if (entry) contactOf.add(partner);
+        else contactOf.delete(partner);
+        emit();
+      }));
+    });
+    emit();
+  });
+
+  return () => {
+    unsubscribeChats();
+    watched.forEach(unsubscribe => unsubscribe());
+  };
+};
+
+export const canView = (
+  owner: Pick<UserProfile, 'uid' | 'privacy'> | null | undefined,
+  setting: PrivacySetting,
+  viewer: PrivacyViewer | null
+) => {
+  if (!owner || !viewer) return false;
+  if (owner.uid === viewer.uid) return true;
+  if (RECIPROCAL_SETTINGS.includes(setting) && viewer.privacy[setting] === 'nobody') return false;
+
+  const audience = getPrivacySettings(owner)[setting];
+  return audience === 'everyone' || (audience === 'contacts' && viewer.contactOf.has(owner.uid));
+};
+
+// Whether `reader` tells `senderId` they read a message at all. When not, the
+// read is only written as a delivery, so it never reaches the backend.
+export const sendsReadReceipts = (reader: PrivacyViewer | null, senderId: string) => {
+  if (!reader) return false;
+  const audience = reader.privacy.readReceipts;
+  return audience === 'everyone' || (audience === 'contacts' && reader.contacts.has(senderId));
+};
+
+// What `viewer` may know of the owner's presence. Without the online status
+// the last seen time goes too, since it would keep moving while online.
+export const getVisiblePresence = (
+  presence: Presence | null,
+  owner: Pick<UserProfile, 'uid' | 'privacy'> | null | undefined,
+  viewer: PrivacyViewer | null
+): Presence | null => {
+  if (!presence) return presence;
+  if (!canView(owner, 'onlineStatus', viewer)) return { state: 'offline', lastSeen: 0 };
+  if (presence.state === 'offline' && !canView(owner, 'lastSeen', viewer)) return { ...presence, lastSeen: 0 };
+  return presence;
+};
+
+export const getVisiblePhotoURL = (
+  owner: Pick<UserProfile, 'uid' | 'privacy' | 'photoURL'> | null | undefined,
+  viewer: PrivacyViewer | null
+) => (canView(owner, 'profilePhoto', viewer) ? owner.photoURL : undefined);
+
+// Read receipts from `hiddenReaders` are shown as plain deliveries
+export const hideReadReceipts = (message: Message, hiddenReaders: Set<string>): Message => {
+  const hidden = Object.keys(message.readBy || {}).filter(uid => hiddenReaders.has(uid));
+  const hidesLegacyStatus = message.status === 'seen' && hiddenReaders.size > 0;
+  if (hidden.length === 0 && !hidesLegacyStatus) return message;
+
+  const readBy = { ...message.readBy };
+  const deliveredTo = { ...message.deliveredTo };
+  hidden.forEach((uid) => {
+    deliveredTo[uid] = deliveredTo[uid] || readBy[uid];
+    delete readBy[uid];
+  });
+
+  return {
+    ...message,
+    readBy,
+    deliveredTo,
+    status: hidesLegacyStatus ? 'delivered' : message.status
+  };
+};
@@ -0,0 +1,50 @@
+import { paths } from './paths';
+import { updateValue } from './db';
+import type { ChatRef, Message, ReactionSummary, UserReactions } from './types';
+
+const toEntries = (reactions: UserReactions | undefined): [string, number][] => {
+  if (!reactions) return [];
+  if (typeof reactions === 'string') return [[reactions, 0]];
+  return Object.entries(reactions);
+};
+
+// The emoji `uid` reacted to the message with, oldest first
+export const getUserReactions = (message: Pick<Message, 'reactions'>, uid: string) =>
+  toEntries(message.reactions?.[uid])
+    .sort(([, a], [, b]) => a - b)
+    .map(([emoji]) => emoji);
+
+// Each emoji used on the message with who used it, most popular first
+export const summarizeReactions = (message: Pick<Message, 'reactions'>): ReactionSummary[] => {
+  const byEmoji = new Map<string, string[]>();
+  Object.entries(message.reactions || {}).forEach(([uid, reactions]) => {
+    toEntries(reactions).forEach(([emoji]) => {
+      byEmoji.set(emoji, [...(byEmoji.get(emoji) || []), uid]);
+    });
+  });
+
+  return [...byEmoji.entries()]
+    .map(([emoji, userIds]) => ({ emoji, userIds }))
+    .sort((a, b) => b.userIds.length - a.userIds.length);
+};
+
+// Takes the reaction back when `uid` already has it. Otherwise adds it, in
+// place of their previous one unless `allowMultiple`. Resolves to whether the
+// reaction was added.
+export const toggleReaction = async (
+  chat: ChatRef,
+  message: Message,
+  uid: string,
+  emoji: string,
+  allowMultiple: boolean
+) => {
+  const current = toEntries(message.reactions?.[uid]);
+  const isAdding = !current.some(([existing]) => existing === emoji);
+  const kept = allowMultiple ? current.filter(([existing]) => existing !== emoji) : [];
+  const next = isAdding ? [...kept, [emoji, Date.now()]] : kept;
+
+  await updateValue(paths.message(chat, message.id), {
+    [`reactions/${uid}`]: next.length > 0 ? Object.fromEntries(next) : null
+  });
+  return isAdding;
+};
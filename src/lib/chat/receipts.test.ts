@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { readValue, writeValue } from './db';
+import { directChat, groupChat } from './chats';
+import { getMessageStatus, getParticipants, getRecipientIds, updateReceipts } from './receipts';
+import type { Group, Message } from './types';
+
+const message = (patch: Partial<Message> = {}): Message => ({
+  id: 'm1',
+  text: 'hi',
+  senderId: 'a',
+  senderName: 'Ann',
+  timestamp: 100,
+  type: 'text',
+  ...patch
+});
+
+describe('receipts', () => {
+  beforeEach(() => {
+    setBackend(createMemoryBackend({ storage: null, now: () => 500 }));
+  });
+
+  it('leaves out the sender, banned members and people who joined later', () => {
+    const group = {
+      id: 'g1',
+      members: {
+        a: { role: 'admin', joinedAt: 1 },
+        b: { role: 'member', joinedAt: 50 },
+        c: { role: 'member', joinedAt: 200 },
+        d: { role: 'member', joinedAt: 1, isBanned: true }
+      }
+    } as unknown as Group;
+
+    expect(getRecipientIds(message(), getParticipants(groupChat('g1'), group))).toEqual(['b']);
+    expect(getRecipientIds(message(), getParticipants(directChat('a_b')))).toEqual(['b']);
+  });
+
+  it('is delivered or seen only once every recipient got there', () => {
+    const participants = { a: 0, b: 0, c: 0 };
+
+    expect(getMessageStatus(message(), participants)).toBe('sent');
+    expect(getMessageStatus(message({ deliveredTo: { b: 1 } }), participants)).toBe('sent');
+    expect(getMessageStatus(message({ deliveredTo: { b: 1 }, readBy: { c: 2 } }), participants)).toBe('delivered');
+    expect(getMessageStatus(message({ readBy: { b: 1, c: 2 } }), participants)).toBe('seen');
+  });
+
+  it('records receipts and clears the delivery pointers', async () => {
+    const chat = directChat('a_b');
+    await writeValue('chats/a_b/messages', { m1: { senderId: 'a' }, m2: { senderId: 'a' } });
+    await writeValue('deliveries/b/a_b', { m1: { isGroup: false }, m2: { isGroup: false } });
+
+    await updateReceipts(chat, 'b', { delivered: ['m1', 'm2'], read: ['m2'] });
+
+    expect(await readValue('chats/a_b/messages')).toEqual({
+      m1: { senderId: 'a', deliveredTo: { b: 500 } },
+      m2: { senderId: 'a', deliveredTo: { b: 500 }, readBy: { b: 500 } }
+    });
+    expect(await readValue('deliveries/b')).toBeNull();
+  });
+
+  it('does not bring back messages that were removed', async () => {
+    const chat = directChat('a_b');
+    await writeValue('chats/a_b/messages/m1', { senderId: 'a' });
+    await writeValue('deliveries/b/a_b/gone', { isGroup: false });
+
+    await updateReceipts(chat, 'b', { delivered: ['m1', 'gone'], read: ['gone'] });
+
+    expect(Object.keys(await readValue('chats/a_b/messages'))).toEqual(['m1']);
+    expect(await readValue('deliveries/b')).toBeNull();
+  });
+});
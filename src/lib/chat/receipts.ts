@@ -0,0 +1,102 @@
+import { paths } from './paths';
+import { readValue, subscribeValue, updateValue, timestampNow } from './db';
+import { getDirectParticipantIds } from './chats';
+import type {
+  ChatRef,
+  Group,
+  Message,
+  MessageStatus,
+  Participants,
+  PendingDelivery,
+  Receipt,
+  Unsubscribe
+} from './types';
+
+export interface PendingDeliveries {
+  chat: ChatRef;
+  messageIds: string[];
+}
+
+export const getParticipants = (chat: ChatRef, group?: Group | null): Participants => {
+  if (!chat.isGroup) {
+    return Object.fromEntries(getDirectParticipantIds(chat.id).map(uid => [uid, 0]));
+  }
+
+  return Object.fromEntries(
+    Object.entries(group?.members || {})
+      .filter(([, member]) => !member.isBanned)
+      .map(([uid, member]) => [uid, member.joinedAt || 0])
+  );
+};
+
+// Everyone but the sender who was already in the conversation when the
+// message was sent
+export const getRecipientIds = (message: Pick<Message, 'senderId' | 'timestamp'>, participants: Participants) =>
+  Object.entries(participants)
+    .filter(([uid, joinedAt]) => uid !== message.senderId && (!message.timestamp || joinedAt <= message.timestamp))
+    .map(([uid]) => uid);
+
+export const getMessageStatus = (message: Message, participants: Participants): MessageStatus => {
+  const recipients = getRecipientIds(message, participants);
+
+  if (recipients.length > 0) {
+    if (recipients.every(uid => message.readBy?.[uid])) return 'seen';
+    if (recipients.every(uid => message.deliveredTo?.[uid] || message.readBy?.[uid])) return 'delivered';
+  }
+
+  return message.status === 'seen' ? 'seen' : 'sent';
+};
+
+export const getReceipts = (message: Message, participants: Participants): Receipt[] =>
+  getRecipientIds(message, participants).map(uid => ({
+    uid,
+    deliveredAt: message.deliveredTo?.[uid] || message.readBy?.[uid],
+    readAt: message.readBy?.[uid]
+  }));
+
+// Every message has a sender, so a missing one means the message is gone
+const messageExists = async (chat: ChatRef, messageId: string) =>
+  (await readValue(`${paths.message(chat, messageId)}/senderId`)) !== null;
+
+// Records receipts for many messages in a single multi-path update and clears
+// the matching delivery pointers. Callers only pass messages that don't have
+// the receipt yet, so earlier timestamps are never overwritten. Messages that
+// have been removed in the meantime are skipped, since writing a receipt
+// would bring their node back.
+export const updateReceipts = async (
+  chat: ChatRef,
+  uid: string,
+  { delivered = [], read = [] }: { delivered?: string[]; read?: string[] }
+) => {
+  const messageIds = [...new Set([...delivered, ...read])];
+  if (messageIds.length === 0) return;
+
+  const existing = await Promise.all(messageIds.map(messageId => messageExists(chat, messageId)));
+  const isLive = new Set(messageIds.filter((_, i) => existing[i]));
+
+  const now = timestampNow();
+  const patch: Record<string, unknown> = {};
+
+  delivered.filter(messageId => isLive.has(messageId)).forEach((messageId) => {
+    patch[`${paths.message(chat, messageId)}/deliveredTo/${uid}`] = now;
+  });
+  read.filter(messageId => isLive.has(messageId)).forEach((messageId) => {
+    patch[`${paths.message(chat, messageId)}/readBy/${uid}`] = now;
+  });
+  messageIds.forEach((messageId) => {
+    patch[paths.delivery(uid, chat.id, messageId)] = null;
+  });
+
+  await updateValue('', patch);
+};
+
+export const subscribeToPendingDeliveries = (
+  uid: string,
+  callback: (pending: PendingDeliveries[]) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, Record<string, PendingDelivery>>>(paths.deliveries(uid), (data) => {
+    callback(Object.entries(data || {}).map(([chatId, messages]) => ({
+      chat: { id: chatId, isGroup: Object.values(messages).some(message => message.isGroup) },
+      messageIds: Object.keys(messages)
+    })));
+  });
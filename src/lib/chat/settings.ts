@@ -0,0 +1,102 @@
+import { paths } from './paths';
+import { subscribeValue, updateValue } from './db';
+import type { ChatListSettings, ChatSettingsMap, NotificationSettings, QuietHours, Unsubscribe } from './types';
+
+export const MUTED_FOREVER = -1;
+export const MAX_PINNED_CHATS = 3;
+
+// `duration` null mutes until unmuted
+export const MUTE_OPTIONS: { label: string; duration: number | null }[] = [
+  { label: '8 hours', duration: 8 * 60 * 60 * 1000 },
+  { label: '1 week', duration: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Always', duration: null }
+];
+
+export const DEFAULT_CHAT_LIST_SETTINGS: ChatListSettings = {
+  keepArchived: false
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  desktop: true,
+  sound: true,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' }
+};
+
+// Stored settings may predate some options
+export const getNotificationSettings = (data: Partial<NotificationSettings> | null): NotificationSettings => ({
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  ...data,
+  quietHours: { ...DEFAULT_NOTIFICATION_SETTINGS.quietHours, ...data?.quietHours }
+});
+
+export const subscribeToNotificationSettings = (
+  uid: string,
+  callback: (settings: NotificationSettings) => void
+): Unsubscribe =>
+  subscribeValue<Partial<NotificationSettings>>(paths.notificationSettings(uid), (data) => {
+    callback(getNotificationSettings(data));
+  });
+
+export const updateNotificationSettings = (uid: string, settings: Partial<NotificationSettings>) =>
+  updateValue(paths.notificationSettings(uid), settings);
+
+export const subscribeToChatSettings = (
+  uid: string,
+  callback: (settings: ChatSettingsMap) => void
+): Unsubscribe =>
+  subscribeValue<ChatSettingsMap>(paths.chatSettings(uid), (data) => callback(data || {}));
+
+// `null` unmutes
+export const setChatMuted = (uid: string, chatId: string, mutedUntil: number | null) =>
+  updateValue(paths.chatSetting(uid, chatId), { mutedUntil });
+
+export const getMutedUntil = (duration: number | null, now = Date.now()) =>
+  duration === null ? MUTED_FOREVER : now + duration;
+
+export const setChatPinned = (uid: string, chatId: string, pinned: boolean) =>
+  updateValue(paths.chatSetting(uid, chatId), { pinnedAt: pinned ? Date.now() : null });
+
+// Archiving also unpins, so the pinned slots go to conversations still in the list
+export const setChatArchived = (uid: string, chatId: string, archived: boolean) =>
+  updateValue(paths.chatSetting(uid, chatId), archived ? { archived: true, pinnedAt: null } : { archived: null });
+
+export const isChatMuted = (settings: ChatSettingsMap, chatId: string, now = Date.now()) => {
+  const mutedUntil = settings[chatId]?.mutedUntil;
+  return mutedUntil === MUTED_FOREVER || (!!mutedUntil && mutedUntil > now);
+};
+
+export const isChatPinned = (settings: ChatSettingsMap, chatId: string) => !!settings[chatId]?.pinnedAt;
+
+export const isChatArchived = (settings: ChatSettingsMap, chatId: string) => !!settings[chatId]?.archived;
+
+export const getPinnedCount = (settings: ChatSettingsMap) =>
+  Object.values(settings).filter(chat => chat.pinnedAt).length;
+
+// Pinned conversations first, most recently pinned on top; the rest keep their order
+export const sortPinnedFirst = <T>(items: T[], settings: ChatSettingsMap, getId: (item: T) => string) =>
+  [...items].sort((a, b) => (settings[getId(b)]?.pinnedAt || 0) - (settings[getId(a)]?.pinnedAt || 0));
+
+export const subscribeToChatListSettings = (
+  uid: string,
+  callback: (settings: ChatListSettings) => void
+): Unsubscribe =>
+  subscribeValue<Partial<ChatListSettings>>(paths.chatListSettings(uid), (data) => {
+    callback({ ...DEFAULT_CHAT_LIST_SETTINGS, ...data });
+  });
+
+export const updateChatListSettings = (uid: string, settings: Partial<ChatListSettings>) =>
+  updateValue(paths.chatListSettings(uid), settings);
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const isQuietTime = (quietHours: QuietHours, date = new Date()) => {
+  if (!quietHours.enabled) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { directChat } from './chats';
+import { readValue } from './db';
+import { deleteMessageForEveryone, deleteMessageForMe, getMessage, sendMessage } from './messages';
+import { getStarredPreview, starMessage, subscribeToStarredMessages, unstarMessage } from './starred';
+import type { StarredMessage } from './types';
+
+const chat = directChat('a_b');
+
+const starredOf = (uid: string) =>
+  new Promise<StarredMessage[]>((resolve) => {
+    const unsubscribe = subscribeToStarredMessages(uid, (starred) => {
+      unsubscribe();
+      resolve(starred);
+    });
+  });
+
+describe('starred messages', () => {
+  beforeEach(() => {
+    setBackend(createMemoryBackend({ storage: null }));
+  });
+
+  it('is kept for its owner only and previews the message itself', async () => {
+    await sendMessage(chat, { text: 'hi <@b>', mentions: { b: 'Bo' }, senderId: 'a', senderName: 'Ann', type: 'text' }, ['b'], 'm1');
+    await starMessage('b', chat, await getMessage(chat, 'm1'));
+
+    const [entry] = await starredOf('b');
+    expect(entry).toMatchObject({ messageId: 'm1', chatId: 'a_b' });
+    expect(await getStarredPreview(entry)).toEqual({ senderId: 'a', senderName: 'Ann', snippet: 'hi @Bo' });
+    expect(await starredOf('a')).toEqual([]);
+
+    await unstarMessage('b', 'm1');
+    expect(await starredOf('b')).toEqual([]);
+  });
+
+  it('shows nothing of a message deleted for everyone', async () => {
+    await sendMessage(chat, { text: 'secret', senderId: 'a', senderName: 'Ann', type: 'text' }, ['b'], 'm1');
+    await starMessage('b', chat, await getMessage(chat, 'm1'));
+
+    await deleteMessageForEveryone(chat, 'm1', 'a');
+
+    const [entry] = await starredOf('b');
+    expect((await getStarredPreview(entry)).snippet).toBeNull();
+    expect(JSON.stringify(await readValue('starredMessages'))).not.toContain('secret');
+  });
+
+  it('is unstarred when deleted for the user', async () => {
+    await sendMessage(chat, { text: 'hi', senderId: 'a', senderName: 'Ann', type: 'text' }, ['b'], 'm1');
+    const message = await getMessage(chat, 'm1');
+    await starMessage('b', chat, message);
+
+    await deleteMessageForMe(chat, message, 'b');
+    expect(await starredOf('b')).toEqual([]);
+  });
+});
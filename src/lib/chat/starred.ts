@@ -0,0 +1,43 @@
+import { paths } from './paths';
+import { removeValue, subscribeValue, writeValue } from './db';
+import { directChat, groupChat } from './chats';
+import { getMessage, getMessagePreview } from './messages';
+import type { ChatRef, Message, StarredMessage, StarredPreview, Unsubscribe } from './types';
+
+// Stars are the user's own, so others deleting the message for themselves
+// doesn't touch them
+export const starMessage = (uid: string, chat: ChatRef, message: Message) => {
+  const entry: StarredMessage = {
+    messageId: message.id,
+    chatId: chat.id,
+    isGroup: chat.isGroup,
+    timestamp: message.timestamp,
+    starredAt: Date.now()
+  };
+  return writeValue(paths.starredMessage(uid, message.id), entry);
+};
+
+export const unstarMessage = (uid: string, messageId: string) =>
+  removeValue(paths.starredMessage(uid, messageId));
+
+// Most recently starred first
+export const subscribeToStarredMessages = (
+  uid: string,
+  callback: (starred: StarredMessage[]) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, StarredMessage>>(paths.starredMessages(uid), (data) => {
+    callback(Object.values(data || {}).sort((a, b) => b.starredAt - a.starredAt));
+  });
+
+// Null when the message no longer exists
+export const getStarredPreview = async (entry: StarredMessage): Promise<StarredPreview | null> => {
+  const chat = entry.isGroup ? groupChat(entry.chatId) : directChat(entry.chatId);
+  const message = await getMessage(chat, entry.messageId);
+  if (!message) return null;
+
+  return {
+    senderId: message.senderId,
+    senderName: message.senderName,
+    snippet: message.deletedForEveryone ? null : getMessagePreview(message)
+  };
+};
@@ -0,0 +1,463 @@
+export type { Unsubscribe } from '@/lib/backend';
+
+// A conversation is either a one-to-one chat (`chats/`) or a group (`groups/`).
+// Every message path is derived from a ChatRef so the two can't be mixed up.
+export interface ChatRef {
+  id: string;
+  isGroup: boolean;
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'seen';
+
+// Copy of the parts of a message shown when quoting it, so the quote renders
+// without loading the original
+export interface MessageReference {
+  id: string;
+  senderId: string;
+  senderName: string;
+  snippet: string;
+}
+
+// A previous text of an edited message and when it was replaced
+export interface MessageVersion {
+  text: string;
+  mentions?: MessageMentions;
+  replacedAt: number;
+}
+
+// Messages without a type are plain text
+export type MessageType = 'text' | 'attachment' | 'voice';
+
+export type AttachmentKind = 'image' | 'file';
+
+export interface Attachment {
+  kind: AttachmentKind;
+  url: string;
+  // Storage location, kept so the file can be removed later
+  path: string;
+  name: string;
+  contentType: string;
+  size: number;
+  // Images only: dimensions after downscaling and a small preview
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string;
+}
+
+export interface VoiceNote {
+  url: string;
+  path: string;
+  contentType: string;
+  size: number;
+  // Length in seconds; recorded audio often has no duration in its metadata
+  duration: number;
+  // Peak levels between 0 and 1, one per bar of the waveform
+  waveform: number[];
+}
+
+// Names of the people mentioned in a message when it was sent, keyed by uid
+// (or MENTION_ALL); the text refers to them with `<@uid>` tokens
+export type MessageMentions = { [userId: string]: string };
+
+// When each recipient received or read a message, keyed by uid
+export type ReceiptMap = { [userId: string]: number };
+
+export interface Message {
+  id: string;
+  text: string;
+  senderId: string;
+  senderName: string;
+  senderAvatar?: string;
+  timestamp: number;
+  type?: MessageType;
+  attachment?: Attachment;
+  voice?: VoiceNote;
+  // Only set on messages from before per-recipient receipts
+  status?: MessageStatus;
+  deliveredTo?: ReceiptMap;
+  readBy?: ReceiptMap;
+  replyTo?: MessageReference;
+  mentions?: MessageMentions;
+  // How many times the message had been forwarded to reach this chat
+  forwardCount?: number;
+  editedAt?: number;
+  editHistory?: { [versionId: string]: MessageVersion };
+  reactions?: { [userId: string]: UserReactions };
+  deletedForEveryone?: boolean;
+  deletedFor?: string[];
+  deletedAt?: number;
+  deletedBy?: string;
+}
+
+// The emoji someone reacted with, each with when they added it. Reactions
+// from before several were allowed are a single emoji.
+export type UserReactions = string | { [emoji: string]: number };
+
+export interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+}
+
+export type MessageData = Omit<Message, 'id'>;
+
+export type NewMessage = Pick<
+  Message,
+  | 'text'
+  | 'senderId'
+  | 'senderName'
+  | 'senderAvatar'
+  | 'replyTo'
+  | 'mentions'
+  | 'forwardCount'
+  | 'type'
+  | 'attachment'
+  | 'voice'
+>;
+
+// Everyone in a conversation, keyed by uid, with the time they joined (0 when
+// they have always been part of it)
+export type Participants = { [userId: string]: number };
+
+export interface Receipt {
+  uid: string;
+  deliveredAt?: number;
+  readAt?: number;
+}
+
+export interface PendingDelivery {
+  isGroup: boolean;
+}
+
+export interface UnreadCount {
+  count: number;
+  isGroup: boolean;
+}
+
+// Unread messages per conversation, keyed by chat or group id
+export type UnreadCounts = { [chatId: string]: UnreadCount };
+
+export interface UnreadMessages {
+  isGroup: boolean;
+  messageIds: string[];
+}
+
+export interface LastMessage {
+  messageId?: string;
+  text: string;
+  timestamp: number;
+  sender: string;
+  senderName: string;
+}
+
+export interface UserChat {
+  chatId: string;
+  isGroup: boolean;
+  lastActivity: number;
+}
+
+export interface ChatActivity {
+  lastMessage?: LastMessage;
+  lastActivity: number;
+}
+
+export interface Achievement {
+  awarded: boolean;
+  timestamp: number;
+  awardedBy?: string;
+}
+
+export interface UserProfile {
+  uid: string;
+  email: string;
+  displayName: string;
+  photoURL?: string;
+  lastSeen: number;
+  // Mirrors presence for code that only has the profile; prefer `Presence`
+  isOnline: boolean;
+  isVerified?: boolean;
+  isDisabled?: boolean;
+  disabledUntil?: number;
+  disabledAt?: number;
+  disabledBy?: string;
+  totalSessions?: number;
+  joinedAt?: number;
+  lastActive?: number;
+  achievements?: { [name: string]: Achievement };
+  // Lowercased copies used for prefix search
+  searchName?: string;
+  searchEmail?: string;
+  privacy?: Partial<PrivacySettings>;
+}
+
+export type PrivacyAudience = 'everyone' | 'contacts' | 'nobody';
+
+// Who may see each part of a user's status; contacts are the people they
+// have a one-to-one conversation with
+export interface PrivacySettings {
+  lastSeen: PrivacyAudience;
+  onlineStatus: PrivacyAudience;
+  profilePhoto: PrivacyAudience;
+  readReceipts: PrivacyAudience;
+}
+
+export type PrivacySetting = keyof PrivacySettings;
+
+// Times are local 'HH:MM'; a window that ends before it starts runs past midnight
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+// A message the user starred, with enough of it to be listed without loading
+// its conversation. Keyed by message id under the user.
+// Only points at the message: its sender and text are read from the message
+// itself, so nothing of it outlives a delete for everyone
+export interface StarredMessage {
+  messageId: string;
+  chatId: string;
+  isGroup: boolean;
+  // When the message was sent
+  timestamp: number;
+  starredAt: number;
+}
+
+export interface StarredPreview {
+  senderId: string;
+  senderName: string;
+  // Null once the message has been deleted for everyone
+  snippet: string | null;
+}
+
+// How a user wants to hear about new messages, on every device they use
+export interface NotificationSettings {
+  desktop: boolean;
+  sound: boolean;
+  quietHours: QuietHours;
+}
+
+// A user's own preferences for one conversation
+export interface ChatSettings {
+  // MUTED_FOREVER, or when the mute runs out
+  mutedUntil?: number;
+  // When it was pinned; pinned conversations are listed first
+  pinnedAt?: number;
+  archived?: boolean;
+}
+
+export interface ChatListSettings {
+  // Otherwise an archived conversation comes back when a message arrives
+  keepArchived: boolean;
+}
+
+// Per-user settings keyed by chat or group id
+export type ChatSettingsMap = { [chatId: string]: ChatSettings };
+
+export type PresenceState = 'online' | 'idle' | 'offline';
+
+// One per open tab or device; the backend removes it when the client disconnects
+export interface PresenceConnection {
+  state: Exclude<PresenceState, 'offline'>;
+  // When the user last interacted through this connection
+  lastActive: number;
+}
+
+export interface PresenceData {
+  connections?: Record<string, PresenceConnection>;
+  // When the last connection went away
+  lastSeen?: number;
+}
+
+// A user's status across all their connections
+export interface Presence {
+  state: PresenceState;
+  // Last activity while idle, last disconnect while offline
+  lastSeen: number;
+}
+
+export type GroupRole = 'admin' | 'member';
+
+export interface GroupMember {
+  role: GroupRole;
+  joinedAt: number;
+  addedBy?: string;
+  isBanned?: boolean;
+  bannedAt?: number;
+  bannedBy?: string;
+  promotedAt?: number;
+  promotedBy?: string;
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  description?: string;
+  members: { [userId: string]: GroupMember };
+  createdBy: string;
+  createdAt: number;
+  lastMessage?: LastMessage;
+  isDeleted?: boolean;
+  deletedAt?: number;
+  deletedBy?: string;
+  isDisabled?: boolean;
+  disabledUntil?: number;
+  disabledAt?: number;
+  disabledBy?: string;
+}
+
+export type GroupData = Omit<Group, 'id'>;
+
+export type ChatRequestStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface ChatRequest {
+  // Requests are keyed by the chat id they unlock
+  id: string;
+  from: string;
+  fromName: string;
+  fromAvatar?: string;
+  status: ChatRequestStatus;
+  timestamp: number;
+}
+
+export type TypingActivity = 'typing' | 'recording';
+
+export interface TypingEntry {
+  name: string;
+  // Sender's clock; refreshed while the activity goes on
+  timestamp: number;
+  // Missing on entries from before voice recording was shown
+  activity?: TypingActivity;
+}
+
+export interface Typer extends TypingEntry {
+  uid: string;
+}
+
+// Fields every entry under notifications/{uid} has
+interface NotificationBase {
+  from: string;
+  fromName: string;
+  timestamp: number;
+  read?: boolean;
+}
+
+export interface ReactionNotification extends NotificationBase {
+  type: 'reaction';
+  chatId: string;
+  // Missing on reactions from before group chats were notified
+  isGroup?: boolean;
+  messageId: string;
+  emoji: string;
+  action: 'added' | 'removed';
+}
+
+export interface MentionNotification extends NotificationBase {
+  type: 'mention';
+  chatId: string;
+  isGroup: boolean;
+  messageId: string;
+  snippet: string;
+}
+
+export interface ChatRequestNotification extends NotificationBase {
+  type: 'chatRequest';
+  chatId: string;
+  status: ChatRequestStatus;
+}
+
+export type AdminNotificationAction =
+  | 'verified'
+  | 'disabled'
+  | 'addedToGroup'
+  | 'removedFromGroup'
+  | 'bannedFromGroup'
+  | 'promotedInGroup';
+
+export interface AdminNotification extends NotificationBase {
+  type: 'admin';
+  action: AdminNotificationAction;
+  groupId?: string;
+  groupName?: string;
+  // End of a temporary suspension
+  until?: number;
+}
+
+export interface AchievementNotification extends NotificationBase {
+  type: 'achievement';
+  achievement: string;
+}
+
+export type ChatNotification =
+  | ReactionNotification
+  | MentionNotification
+  | ChatRequestNotification
+  | AdminNotification
+  | AchievementNotification;
+
+export type NotificationEntry = ChatNotification & { id: string };
+
+export interface AdminSettings {
+  maintenanceMode: boolean;
+  groupMemberLimit: number;
+  // How long after sending a message its sender may still edit it; 0 disables editing
+  messageEditWindowMinutes: number;
+  attachmentLimits: AttachmentLimits;
+  reactions: ReactionSettings;
+  featureFlags: {
+    enableGroupChat: boolean;
+    enableFileSharing: boolean;
+    enableVoiceMessages: boolean;
+    enableMessageReactions: boolean;
+    enableMessageDeletion: boolean;
+  };
+}
+
+export interface AttachmentLimits {
+  // Images above this size are rejected before downscaling
+  maxImageSizeMB: number;
+  maxFileSizeMB: number;
+  // MIME types; `image/*` style wildcards match a whole family
+  allowedTypes: string[];
+}
+
+export interface ReactionSettings {
+  // Offered in every message's menu; the picker has the rest
+  quickReactions: string[];
+  // Whether one person can add several different reactions to a message
+  allowMultiple: boolean;
+}
+
+export type FeatureFlag = keyof AdminSettings['featureFlags'];
+
+// Index of edited messages so admins can review edits without scanning every conversation
+export interface EditedMessageEntry {
+  messageId: string;
+  chatId: string;
+  isGroup: boolean;
+  senderId: string;
+  senderName: string;
+  editedAt: number;
+}
+
+export interface AdminRecord {
+  email: string;
+  displayName?: string;
+  createdAt?: number;
+  addedAt?: number;
+  addedBy?: string;
+}
+
+export type AdminRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AdminRequest {
+  id: string;
+  userId: string;
+  userEmail: string;
+  userName: string;
+  userPhoto: string;
+  message: string;
+  timestamp: number;
+  status: AdminRequestStatus;
+  reviewedAt?: number;
+  reviewedBy?: string;
+}
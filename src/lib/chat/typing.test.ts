@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { readValue } from './db';
+import { TYPING_TIMEOUT, getActiveTypers, setTyping, subscribeToServerTimeOffset } from './typing';
+import type { TypingEntry } from './types';
+
+// A backend whose clock runs a minute ahead of this client's
+const SERVER_AHEAD = 60000;
+
+describe('typing', () => {
+  beforeEach(() => {
+    setBackend(createMemoryBackend({ storage: null, now: () => Date.now() + SERVER_AHEAD }));
+  });
+
+  it("stamps entries with the backend's time", async () => {
+    await setTyping('c1', 'a', 'Ann');
+    const entry = await readValue<TypingEntry>('typing/c1/a');
+    expect(entry.timestamp).toBeGreaterThanOrEqual(Date.now() + SERVER_AHEAD - 1000);
+  });
+
+  it("judges entries on the backend's clock", async () => {
+    await setTyping('c1', 'a', 'Ann');
+    const typing = await readValue<Record<string, TypingEntry>>('typing/c1');
+    const offset = await new Promise<number>((resolve) => {
+      const unsubscribe = subscribeToServerTimeOffset((value) => {
+        unsubscribe();
+        resolve(value);
+      });
+    });
+
+    expect(getActiveTypers(typing, 'b', Date.now() + offset).map(typer => typer.uid)).toEqual(['a']);
+    expect(getActiveTypers(typing, 'b', Date.now() + offset + TYPING_TIMEOUT)).toEqual([]);
+    expect(getActiveTypers(typing, 'a', Date.now() + offset)).toEqual([]);
+  });
+});
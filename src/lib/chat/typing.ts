@@ -0,0 +1,52 @@
+import { paths } from './paths';
+import { subscribeValue, writeValue, removeValue, onDisconnect, timestampNow } from './db';
+import type { Typer, TypingActivity, TypingEntry, Unsubscribe } from './types';
+
+// Entries not refreshed for this long belong to a client that went away
+// without clearing them and are ignored
+export const TYPING_TIMEOUT = 10000;
+
+export { subscribeToServerTimeOffset } from './db';
+
+export const subscribeToTyping = (
+  chatId: string,
+  callback: (typing: Record<string, TypingEntry>) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, TypingEntry>>(paths.typing(chatId), (data) => callback(data || {}));
+
+// The entry is also removed by the backend if this client disconnects
+export const setTyping = async (chatId: string, uid: string, name: string, activity: TypingActivity = 'typing') => {
+  await onDisconnect(paths.typingUser(chatId, uid)).remove();
+  await writeValue(paths.typingUser(chatId, uid), {
+    name,
+    activity,
+    timestamp: timestampNow()
+  });
+};
+
+export const clearTyping = async (chatId: string, uid: string) => {
+  await onDisconnect(paths.typingUser(chatId, uid)).cancel();
+  await removeValue(paths.typingUser(chatId, uid));
+};
+
+// Everyone but `uid` with a fresh entry, by name so the text doesn't reshuffle.
+// Entries carry the backend's time, so `now` should be on that clock too.
+export const getActiveTypers = (typing: Record<string, TypingEntry>, uid: string | undefined, now = Date.now()): Typer[] =>
+  Object.entries(typing)
+    .filter(([typerId, entry]) => typerId !== uid && now - (entry.timestamp || 0) < TYPING_TIMEOUT)
+    .map(([typerId, entry]) => ({ ...entry, uid: typerId }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+// Leave out `showNames` where it's already clear who, e.g. next to the
+// other person's name in the chat list
+export const getTypingText = (typers: Typer[], showNames = true) => {
+  if (typers.length === 0) return '';
+
+  const isRecording = typers.every(typer => typer.activity === 'recording');
+  const activity = isRecording ? 'recording voice…' : 'typing…';
+  if (!showNames) return activity;
+
+  if (typers.length === 1) return `${typers[0].name || 'Someone'} is ${activity}`;
+  if (typers.length === 2) return `${typers[0].name} and ${typers[1].name} are ${activity}`;
+  return `Several people are ${activity}`;
+};
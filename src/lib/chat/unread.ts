@@ -0,0 +1,67 @@
+import { paths } from './paths';
+import { subscribeValue, removeValue } from './db';
+import { isChatArchived, isChatMuted } from './settings';
+import type { ChatRef, ChatSettingsMap, PendingDelivery, UnreadCounts, UnreadMessages, Unsubscribe } from './types';
+
+export const subscribeToUnreadCounts = (
+  uid: string,
+  callback: (counts: UnreadCounts) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, Record<string, PendingDelivery>>>(paths.unread(uid), (data) => {
+    callback(Object.fromEntries(Object.entries(data || {}).map(([chatId, messages]) => [chatId, {
+      count: Object.keys(messages).length,
+      isGroup: Object.values(messages).some(message => message.isGroup)
+    }])));
+  });
+
+// The unread message ids themselves, for noticing which ones just arrived
+export const subscribeToUnreadMessages = (
+  uid: string,
+  callback: (unread: Record<string, UnreadMessages>) => void
+): Unsubscribe =>
+  subscribeValue<Record<string, Record<string, PendingDelivery>>>(paths.unread(uid), (data) => {
+    callback(Object.fromEntries(Object.entries(data || {}).map(([chatId, messages]) => [chatId, {
+      isGroup: Object.values(messages).some(message => message.isGroup),
+      messageIds: Object.keys(messages)
+    }])));
+  });
+
+export interface UnreadChanges {
+  // Conversations that got messages since the last update, with all their unread ids
+  arrived: (ChatRef & { messageIds: string[] })[];
+  // Conversations read since the last update
+  cleared: string[];
+}
+
+// Whatever was unread before the subscription started isn't reported as arrived
+export const subscribeToUnreadChanges = (
+  uid: string,
+  callback: (changes: UnreadChanges) => void
+): Unsubscribe => {
+  let known: Map<string, Set<string>> | null = null;
+
+  return subscribeToUnreadMessages(uid, (unread) => {
+    const previous = known;
+    known = new Map(Object.entries(unread).map(([chatId, { messageIds }]) => [chatId, new Set(messageIds)]));
+    if (!previous) return;
+
+    const arrived = Object.entries(unread)
+      .filter(([chatId, { messageIds }]) => messageIds.some(messageId => !previous.get(chatId)?.has(messageId)))
+      .map(([chatId, { isGroup, messageIds }]) => ({ id: chatId, isGroup, messageIds }));
+    const cleared = [...previous.keys()].filter(chatId => !unread[chatId]);
+
+    if (arrived.length > 0 || cleared.length > 0) callback({ arrived, cleared });
+  });
+};
+
+export const markChatRead = (uid: string, chatId: string) => removeValue(paths.unreadChat(uid, chatId));
+
+// Muted and archived conversations don't add to the totals
+export const getTotalUnread = (counts: UnreadCounts, isGroup?: boolean, chatSettings: ChatSettingsMap = {}) =>
+  Object.entries(counts)
+    .filter(([chatId, unread]) =>
+      (isGroup === undefined || unread.isGroup === isGroup) &&
+      !isChatMuted(chatSettings, chatId) &&
+      !isChatArchived(chatSettings, chatId)
+    )
+    .reduce((total, [, unread]) => total + unread.count, 0);
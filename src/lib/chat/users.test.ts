@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setBackend, createMemoryBackend } from '@/lib/backend';
+import { readValue, writeValue } from './db';
+import { backfillSearchKeys, saveUserProfile, searchUsers } from './users';
+import type { UserProfile } from './types';
+
+const profile = (uid: string, displayName: string, email: string) =>
+  ({ uid, displayName, email, photoURL: '', isOnline: false }) as Omit<UserProfile, 'lastSeen'>;
+
+describe('users', () => {
+  beforeEach(() => {
+    setBackend(createMemoryBackend({ storage: null }));
+  });
+
+  it('finds people by the start of their name or email', async () => {
+    await saveUserProfile('u1', profile('u1', 'Ann Lee', 'ann@example.com'));
+    await saveUserProfile('u2', profile('u2', 'Bob', 'annex@example.com'));
+    await saveUserProfile('u3', profile('u3', 'Cy', 'cy@example.com'));
+
+    expect((await searchUsers('ANN')).map(user => user.uid)).toEqual(['u1', 'u2']);
+    expect(await searchUsers('  ')).toEqual([]);
+  });
+
+  it('backfills search keys for profiles saved before they existed', async () => {
+    await writeValue('users/u1', { displayName: 'Ann', email: 'Ann@Example.com' });
+    await saveUserProfile('u2', profile('u2', 'Bob', 'bob@example.com'));
+
+    expect(await searchUsers('ann')).toEqual([]);
+    expect(await backfillSearchKeys()).toBe(1);
+    expect(await readValue('users/u1')).toEqual({
+      displayName: 'Ann',
+      email: 'Ann@Example.com',
+      searchName: 'ann',
+      searchEmail: 'ann@example.com'
+    });
+    expect((await searchUsers('ann')).map(user => user.uid)).toEqual(['u1']);
+    expect(await backfillSearchKeys()).toBe(0);
+  });
+});
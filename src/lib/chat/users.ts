@@ -0,0 +1,97 @@
+import { paths } from './paths';
+import { readValue, subscribeValue, writeValue, updateValue, removeValue, timestampNow } from './db';
+import type { Achievement, Unsubscribe, UserProfile } from './types';
+
+const SEARCH_LIMIT = 20;
+
+const withSearchKeys = <T extends Partial<UserProfile>>(profile: T): T => ({
+  ...profile,
+  ...(typeof profile.displayName === 'string' ? { searchName: profile.displayName.toLowerCase() } : {}),
+  ...(typeof profile.email === 'string' ? { searchEmail: profile.email.toLowerCase() } : {})
+});
+
+export const getUser = async (uid: string): Promise<UserProfile | null> => {
+  const data = await readValue<UserProfile>(paths.user(uid));
+  return data ? { ...data, uid } : null;
+};
+
+export const getUsers = async (): Promise<UserProfile[]> => {
+  const data = await readValue<Record<string, UserProfile>>(paths.users());
+  return data ? Object.entries(data).map(([uid, profile]) => ({ ...profile, uid })) : [];
+};
+
+export const subscribeToUser = (
+  uid: string,
+  callback: (profile: UserProfile | null) => void
+): Unsubscribe =>
+  subscribeValue<UserProfile>(paths.user(uid), (data) => callback(data ? { ...data, uid } : null));
+
+export const subscribeToUsers = (callback: (users: UserProfile[]) => void): Unsubscribe =>
+  subscribeValue<Record<string, UserProfile>>(paths.users(), (data) => {
+    callback(data ? Object.entries(data).map(([uid, profile]) => ({ ...profile, uid })) : []);
+  });
+
+// Users whose display name or email starts with `prefix`, case-insensitively
+export const searchUsers = async (prefix: string, limit = SEARCH_LIMIT): Promise<UserProfile[]> => {
+  const term = prefix.trim().toLowerCase();
+  if (!term) return [];
+
+  const range = { startAt: term, endAt: `${term}\uf8ff`, limitToFirst: limit };
+  const results = await Promise.all(['searchName', 'searchEmail'].map(field =>
+    readValue<Record<string, UserProfile>>(paths.users(), { orderByChild: field, ...range })
+  ));
+
+  const matches = new Map<string, UserProfile>();
+  results.forEach((data) => {
+    Object.entries(data || {}).forEach(([uid, profile]) => matches.set(uid, { ...profile, uid }));
+  });
+  return [...matches.values()]
+    .sort((a, b) => (a.displayName || '').localeCompare(b.displayName || ''))
+    .slice(0, limit);
+};
+
+// Writes the whole profile node and stamps lastSeen with server time
+export const saveUserProfile = (uid: string, profile: Omit<UserProfile, 'lastSeen'>) =>
+  writeValue(paths.user(uid), { ...withSearchKeys(profile), lastSeen: timestampNow() });
+
+export const updateUser = (uid: string, patch: Partial<UserProfile>) =>
+  updateValue(paths.user(uid), withSearchKeys(patch));
+
+// Adds the search keys to profiles saved before they existed. It reads every
+// profile, so only admins run it. Resolves to the number of profiles updated.
+export const backfillSearchKeys = async () => {
+  const patch: Record<string, unknown> = {};
+  let updated = 0;
+
+  (await getUsers()).forEach((profile) => {
+    const keys: Partial<UserProfile> = withSearchKeys({ displayName: profile.displayName, email: profile.email });
+    if (keys.searchName === profile.searchName && keys.searchEmail === profile.searchEmail) return;
+
+    patch[`${paths.user(profile.uid)}/searchName`] = keys.searchName ?? null;
+    patch[`${paths.user(profile.uid)}/searchEmail`] = keys.searchEmail ?? null;
+    updated += 1;
+  });
+
+  if (updated > 0) await updateValue('', patch);
+  return updated;
+};
+
+export const trackUserActivity = (uid: string, totalSessions: number) => {
+  const now = Date.now();
+  const today = new Date().toDateString();
+
+  return Promise.all([
+    updateValue(paths.user(uid), { lastSeen: now }),
+    updateValue(paths.userActivity(uid), {
+      [`dailyUsage/${today}`]: now,
+      totalSessions,
+      lastActive: now
+    })
+  ]);
+};
+
+export const awardAchievement = (uid: string, achievement: string, achievementData: Achievement) =>
+  updateValue(paths.userAchievements(uid), { [achievement]: achievementData });
+
+export const revokeAchievement = (uid: string, achievement: string) =>
+  removeValue(paths.userAchievement(uid, achievement));
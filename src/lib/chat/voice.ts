@@ -0,0 +1,38 @@
+import { getBackend } from '@/lib/backend';
+import { paths } from './paths';
+import { createKey } from './db';
+import type { ChatRef, VoiceNote } from './types';
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds || 0));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+const getExtension = (contentType: string) => {
+  if (contentType.includes('ogg')) return 'ogg';
+  if (contentType.includes('mp4')) return 'm4a';
+  return 'webm';
+};
+
+export const uploadVoiceNote = (
+  chat: ChatRef,
+  recording: Blob,
+  { duration, waveform }: Pick<VoiceNote, 'duration' | 'waveform'>,
+  onProgress?: (progress: number) => void
+): { result: Promise<VoiceNote>; cancel: () => void } => {
+  const contentType = recording.type || 'audio/webm';
+  const path = `${paths.attachments(chat.id, createKey(paths.messages(chat)))}/voice.${getExtension(contentType)}`;
+  const task = getBackend().storage.upload(path, recording, { contentType, onProgress });
+
+  return {
+    result: task.result.then(url => ({
+      url,
+      path,
+      contentType,
+      size: recording.size,
+      duration,
+      waveform
+    })),
+    cancel: task.cancel
+  };
+};
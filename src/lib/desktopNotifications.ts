@@ -0,0 +1,109 @@
+// System notifications for new messages. They are shown through the service
+// worker where there is one, so a click can bring back a closed tab.
+const WORKER_URL = '/notification-sw.js';
+const SOUND_URL = '/notification.mp3';
+// Posted by the service worker and the fallback notifications alike
+const OPEN_CHAT = 'open-chat';
+
+export interface ChatTarget {
+  chatId: string;
+  isGroup: boolean;
+}
+
+export interface MessageNotification extends ChatTarget {
+  title: string;
+  body: string;
+  icon?: string;
+}
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission =>
+  isNotificationSupported() ? Notification.permission : 'denied';
+
+export const registerNotificationWorker = () => {
+  if (!registration) {
+    registration = 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(WORKER_URL).catch((error) => {
+          console.error('Error registering notification worker:', error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return registration;
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// One notification per conversation: a newer one replaces the last
+const chatTag = (chatId: string) => `chat-${chatId}`;
+
+export const showMessageNotification = async ({ chatId, isGroup, title, body, icon }: MessageNotification) => {
+  if (getNotificationPermission() !== 'granted') return;
+
+  const options = {
+    body,
+    icon: icon || '/favicon.ico',
+    tag: chatTag(chatId),
+    // Alert again when a grouped notification is replaced
+    renotify: true,
+    data: { chatId, isGroup }
+  } as NotificationOptions;
+
+  const worker = await registerNotificationWorker();
+  if (worker) {
+    await worker.showNotification(title, options);
+    return;
+  }
+
+  const notification = new Notification(title, options);
+  notification.onclick = () => {
+    window.focus();
+    window.dispatchEvent(new CustomEvent<ChatTarget>(OPEN_CHAT, { detail: { chatId, isGroup } }));
+    notification.close();
+  };
+};
+
+export const closeChatNotifications = async (chatId: string) => {
+  const worker = await registerNotificationWorker();
+  if (!worker) return;
+
+  const notifications = await worker.getNotifications({ tag: chatTag(chatId) });
+  notifications.forEach(notification => notification.close());
+};
+
+// Clicks on a notification, including the one that opened this tab
+export const subscribeToNotificationClicks = (callback: (target: ChatTarget) => void) => {
+  const params = new URLSearchParams(window.location.search);
+  const chatId = params.get('chat');
+  if (chatId) {
+    callback({ chatId, isGroup: params.get('group') === '1' });
+    window.history.replaceState(null, '', window.location.pathname);
+  }
+
+  const handleWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === OPEN_CHAT) callback({ chatId: event.data.chatId, isGroup: !!event.data.isGroup });
+  };
+  const handleClick = (event: Event) => callback((event as CustomEvent<ChatTarget>).detail);
+
+  navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+  window.addEventListener(OPEN_CHAT, handleClick);
+  return () => {
+    navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    window.removeEventListener(OPEN_CHAT, handleClick);
+  };
+};
+
+export const playNotificationSound = () => {
+  const audio = new Audio(SOUND_URL);
+  audio.play().catch(() => {
+    // Fallback if audio file doesn't exist
+    console.log('Notification sound not available');
+  });
+};
@@ -0,0 +1,332 @@
+// A curated emoji set for the picker. Each entry is the emoji, its name and
+// extra search words.
+type EmojiRow = [emoji: string, name: string, keywords?: string];
+
+export interface Emoji {
+  emoji: string;
+  name: string;
+  keywords: string[];
+}
+
+export interface EmojiCategory {
+  id: string;
+  label: string;
+  icon: string;
+  emojis: Emoji[];
+}
+
+const category = (id: string, label: string, icon: string, rows: EmojiRow[]): EmojiCategory => ({
+  id,
+  label,
+  icon,
+  emojis: rows.map(([emoji, name, keywords = '']) => ({ emoji, name, keywords: keywords.split(' ').filter(Boolean) }))
+});
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  category('smileys', 'Smileys', '😀', [
+    ['😀', 'grinning face', 'smile happy'],
+    ['😃', 'grinning face with big eyes', 'smile happy'],
+    ['😄', 'grinning face with smiling eyes', 'smile happy'],
+    ['😁', 'beaming face', 'grin'],
+    ['😆', 'grinning squinting face', 'laugh'],
+    ['😅', 'grinning face with sweat', 'relief'],
+    ['🤣', 'rolling on the floor laughing', 'rofl lol'],
+    ['😂', 'face with tears of joy', 'lol laugh cry'],
+    ['🙂', 'slightly smiling face', 'smile'],
+    ['🙃', 'upside-down face', 'silly sarcasm'],
+    ['😉', 'winking face', 'wink'],
+    ['😊', 'smiling face with smiling eyes', 'blush happy'],
+    ['😇', 'smiling face with halo', 'angel innocent'],
+    ['🥰', 'smiling face with hearts', 'love crush'],
+    ['😍', 'smiling face with heart-eyes', 'love crush'],
+    ['🤩', 'star-struck', 'wow excited'],
+    ['😘', 'face blowing a kiss', 'kiss love'],
+    ['😋', 'face savoring food', 'yum tasty'],
+    ['😛', 'face with tongue', 'silly'],
+    ['😜', 'winking face with tongue', 'silly joke'],
+    ['🤪', 'zany face', 'crazy silly'],
+    ['🤗', 'hugging face', 'hug'],
+    ['🤭', 'face with hand over mouth', 'oops giggle'],
+    ['🤫', 'shushing face', 'quiet secret'],
+    ['🤔', 'thinking face', 'hmm think'],
+    ['🤐', 'zipper-mouth face', 'secret quiet'],
+    ['🤨', 'face with raised eyebrow', 'suspicious doubt'],
+    ['😐', 'neutral face', 'meh'],
+    ['😑', 'expressionless face', 'meh'],
+    ['😶', 'face without mouth', 'speechless'],
+    ['😏', 'smirking face', 'smirk'],
+    ['😒', 'unamused face', 'meh annoyed'],
+    ['🙄', 'face with rolling eyes', 'eyeroll'],
+    ['😬', 'grimacing face', 'awkward'],
+    ['😌', 'relieved face', 'calm'],
+    ['😔', 'pensive face', 'sad'],
+    ['😪', 'sleepy face', 'tired'],
+    ['😴', 'sleeping face', 'zzz tired'],
+    ['😷', 'face with medical mask', 'sick'],
+    ['🤒', 'face with thermometer', 'sick ill'],
+    ['🤢', 'nauseated face', 'sick gross'],
+    ['🤮', 'face vomiting', 'sick gross'],
+    ['🥵', 'hot face', 'heat'],
+    ['🥶', 'cold face', 'freezing'],
+    ['🥴', 'woozy face', 'dizzy drunk'],
+    ['🤯', 'exploding head', 'mind blown shocked'],
+    ['🥳', 'partying face', 'party celebrate birthday'],
+    ['😎', 'smiling face with sunglasses', 'cool'],
+    ['🤓', 'nerd face', 'geek'],
+    ['😕', 'confused face', 'confused'],
+    ['😟', 'worried face', 'worried'],
+    ['🙁', 'slightly frowning face', 'sad'],
+    ['😮', 'face with open mouth', 'wow surprised'],
+    ['😲', 'astonished face', 'shocked surprised'],
+    ['😳', 'flushed face', 'embarrassed'],
+    ['🥺', 'pleading face', 'please puppy'],
+    ['😨', 'fearful face', 'scared'],
+    ['😰', 'anxious face with sweat', 'nervous'],
+    ['😢', 'crying face', 'sad tear'],
+    ['😭', 'loudly crying face', 'sob sad'],
+    ['😱', 'face screaming in fear', 'scream scared'],
+    ['😩', 'weary face', 'tired'],
+    ['😤', 'face with steam from nose', 'triumph angry'],
+    ['😡', 'pouting face', 'angry mad'],
+    ['😠', 'angry face', 'mad'],
+    ['🤬', 'face with symbols on mouth', 'swear angry'],
+    ['😈', 'smiling face with horns', 'devil'],
+    ['💀', 'skull', 'dead'],
+    ['💩', 'pile of poo', 'poop'],
+    ['🤡', 'clown face', 'clown'],
+    ['👻', 'ghost', 'halloween'],
+    ['👽', 'alien', 'ufo'],
+    ['🤖', 'robot', 'bot']
+  ]),
+  category('people', 'People', '👍', [
+    ['👍', 'thumbs up', 'like yes agree +1'],
+    ['👎', 'thumbs down', 'dislike no -1'],
+    ['👌', 'ok hand', 'okay perfect'],
+    ['✌️', 'victory hand', 'peace'],
+    ['🤞', 'crossed fingers', 'luck hope'],
+    ['🤟', 'love-you gesture', 'love'],
+    ['🤘', 'sign of the horns', 'rock'],
+    ['🤙', 'call me hand', 'call'],
+    ['👈', 'backhand index pointing left', 'left'],
+    ['👉', 'backhand index pointing right', 'right'],
+    ['👆', 'backhand index pointing up', 'up'],
+    ['👇', 'backhand index pointing down', 'down'],
+    ['☝️', 'index pointing up', 'one'],
+    ['👋', 'waving hand', 'hello hi bye wave'],
+    ['🤚', 'raised back of hand', 'stop'],
+    ['✋', 'raised hand', 'high five stop'],
+    ['👏', 'clapping hands', 'clap applause bravo'],
+    ['🙌', 'raising hands', 'hooray celebrate'],
+    ['👐', 'open hands', 'hug'],
+    ['🤝', 'handshake', 'deal agree'],
+    ['🙏', 'folded hands', 'please thanks pray'],
+    ['✍️', 'writing hand', 'write'],
+    ['💪', 'flexed biceps', 'strong muscle'],
+    ['👀', 'eyes', 'look see watch'],
+    ['🧠', 'brain', 'smart'],
+    ['🫡', 'saluting face', 'salute respect'],
+    ['🤷', 'person shrugging', 'shrug whatever'],
+    ['🤦', 'person facepalming', 'facepalm'],
+    ['🙋', 'person raising hand', 'question me'],
+    ['🙅', 'person gesturing no', 'no'],
+    ['🙆', 'person gesturing ok', 'ok yes'],
+    ['💃', 'woman dancing', 'dance party'],
+    ['🕺', 'man dancing', 'dance party'],
+    ['🏃', 'person running', 'run hurry'],
+    ['👶', 'baby', 'child'],
+    ['👪', 'family', 'family']
+  ]),
+  category('nature', 'Animals & Nature', '🐶', [
+    ['🐶', 'dog face', 'puppy pet'],
+    ['🐱', 'cat face', 'kitten pet'],
+    ['🐭', 'mouse face', 'mouse'],
+    ['🐹', 'hamster', 'pet'],
+    ['🐰', 'rabbit face', 'bunny'],
+    ['🦊', 'fox', 'fox'],
+    ['🐻', 'bear', 'bear'],
+    ['🐼', 'panda', 'panda'],
+    ['🐨', 'koala', 'koala'],
+    ['🐯', 'tiger face', 'tiger'],
+    ['🦁', 'lion', 'lion'],
+    ['🐮', 'cow face', 'cow'],
+    ['🐷', 'pig face', 'pig'],
+    ['🐸', 'frog', 'frog'],
+    ['🐵', 'monkey face', 'monkey'],
+    ['🙈', 'see-no-evil monkey', 'monkey shy oops'],
+    ['🐔', 'chicken', 'chicken'],
+    ['🐧', 'penguin', 'penguin'],
+    ['🐦', 'bird', 'bird'],
+    ['🦄', 'unicorn', 'magic'],
+    ['🐝', 'honeybee', 'bee'],
+    ['🦋', 'butterfly', 'butterfly'],
+    ['🐢', 'turtle', 'slow'],
+    ['🐍', 'snake', 'snake'],
+    ['🐙', 'octopus', 'octopus'],
+    ['🐬', 'dolphin', 'dolphin'],
+    ['🐳', 'spouting whale', 'whale'],
+    ['🌵', 'cactus', 'desert'],
+    ['🌲', 'evergreen tree', 'tree'],
+    ['🌴', 'palm tree', 'beach'],
+    ['🍀', 'four leaf clover', 'luck'],
+    ['🌸', 'cherry blossom', 'flower spring'],
+    ['🌹', 'rose', 'flower love'],
+    ['🌻', 'sunflower', 'flower'],
+    ['🌞', 'sun with face', 'sun'],
+    ['🌙', 'crescent moon', 'night'],
+    ['⭐', 'star', 'star'],
+    ['🌈', 'rainbow', 'rainbow'],
+    ['☀️', 'sun', 'sunny weather'],
+    ['☁️', 'cloud', 'weather'],
+    ['⛈️', 'cloud with lightning and rain', 'storm'],
+    ['❄️', 'snowflake', 'cold winter'],
+    ['🔥', 'fire', 'lit hot flame'],
+    ['💧', 'droplet', 'water'],
+    ['🌊', 'water wave', 'ocean sea']
+  ]),
+  category('food', 'Food & Drink', '🍕', [
+    ['🍎', 'red apple', 'fruit'],
+    ['🍌', 'banana', 'fruit'],
+    ['🍉', 'watermelon', 'fruit'],
+    ['🍓', 'strawberry', 'fruit'],
+    ['🍑', 'peach', 'fruit'],
+    ['🥑', 'avocado', 'avocado'],
+    ['🌶️', 'hot pepper', 'spicy'],
+    ['🥕', 'carrot', 'vegetable'],
+    ['🍞', 'bread', 'bread'],
+    ['🧀', 'cheese wedge', 'cheese'],
+    ['🍔', 'hamburger', 'burger'],
+    ['🍟', 'french fries', 'fries chips'],
+    ['🍕', 'pizza', 'pizza'],
+    ['🌭', 'hot dog', 'hotdog'],
+    ['🌮', 'taco', 'taco'],
+    ['🍣', 'sushi', 'sushi'],
+    ['🍜', 'steaming bowl', 'ramen noodles'],
+    ['🍿', 'popcorn', 'movie'],
+    ['🍩', 'doughnut', 'donut'],
+    ['🍪', 'cookie', 'cookie'],
+    ['🎂', 'birthday cake', 'birthday party'],
+    ['🍰', 'shortcake', 'cake'],
+    ['🍫', 'chocolate bar', 'chocolate'],
+    ['🍦', 'soft ice cream', 'ice cream'],
+    ['☕', 'hot beverage', 'coffee tea'],
+    ['🍵', 'teacup without handle', 'tea'],
+    ['🍺', 'beer mug', 'beer drink'],
+    ['🍻', 'clinking beer mugs', 'cheers drink'],
+    ['🍷', 'wine glass', 'wine drink'],
+    ['🥂', 'clinking glasses', 'cheers celebrate'],
+    ['🍾', 'bottle with popping cork', 'champagne celebrate']
+  ]),
+  category('activities', 'Activities', '⚽', [
+    ['⚽', 'soccer ball', 'football sport'],
+    ['🏀', 'basketball', 'sport'],
+    ['🏈', 'american football', 'sport'],
+    ['⚾', 'baseball', 'sport'],
+    ['🎾', 'tennis', 'sport'],
+    ['🏐', 'volleyball', 'sport'],
+    ['🏓', 'ping pong', 'table tennis'],
+    ['⛳', 'flag in hole', 'golf'],
+    ['🏆', 'trophy', 'win champion'],
+    ['🥇', 'first place medal', 'gold winner'],
+    ['🎉', 'party popper', 'party celebrate tada congrats'],
+    ['🎊', 'confetti ball', 'party celebrate'],
+    ['🎈', 'balloon', 'party birthday'],
+    ['🎁', 'wrapped gift', 'present birthday'],
+    ['🎮', 'video game', 'gaming controller'],
+    ['🎲', 'game die', 'dice'],
+    ['🎯', 'direct hit', 'target bullseye'],
+    ['🎵', 'musical note', 'music'],
+    ['🎶', 'musical notes', 'music song'],
+    ['🎤', 'microphone', 'sing karaoke'],
+    ['🎧', 'headphone', 'music'],
+    ['🎸', 'guitar', 'music'],
+    ['🎬', 'clapper board', 'movie film'],
+    ['🎨', 'artist palette', 'art paint']
+  ]),
+  category('objects', 'Objects', '💡', [
+    ['📱', 'mobile phone', 'phone'],
+    ['💻', 'laptop', 'computer'],
+    ['⌨️', 'keyboard', 'computer'],
+    ['📷', 'camera', 'photo'],
+    ['📺', 'television', 'tv'],
+    ['⏰', 'alarm clock', 'time'],
+    ['⌛', 'hourglass done', 'time wait'],
+    ['💡', 'light bulb', 'idea'],
+    ['🔋', 'battery', 'power'],
+    ['💰', 'money bag', 'money rich'],
+    ['💸', 'money with wings', 'money spend'],
+    ['💳', 'credit card', 'money pay'],
+    ['📦', 'package', 'box delivery'],
+    ['✉️', 'envelope', 'mail letter'],
+    ['📝', 'memo', 'note write'],
+    ['📅', 'calendar', 'date'],
+    ['📌', 'pushpin', 'pin'],
+    ['📎', 'paperclip', 'attachment'],
+    ['✂️', 'scissors', 'cut'],
+    ['🔒', 'locked', 'lock secure'],
+    ['🔑', 'key', 'key'],
+    ['🔨', 'hammer', 'tool'],
+    ['🛠️', 'hammer and wrench', 'tools fix'],
+    ['💊', 'pill', 'medicine'],
+    ['🚗', 'automobile', 'car'],
+    ['✈️', 'airplane', 'travel flight'],
+    ['🚀', 'rocket', 'launch ship'],
+    ['🏠', 'house', 'home'],
+    ['🏖️', 'beach with umbrella', 'vacation holiday']
+  ]),
+  category('symbols', 'Symbols', '❤️', [
+    ['❤️', 'red heart', 'love'],
+    ['🧡', 'orange heart', 'love'],
+    ['💛', 'yellow heart', 'love'],
+    ['💚', 'green heart', 'love'],
+    ['💙', 'blue heart', 'love'],
+    ['💜', 'purple heart', 'love'],
+    ['🖤', 'black heart', 'love'],
+    ['🤍', 'white heart', 'love'],
+    ['💔', 'broken heart', 'sad heartbreak'],
+    ['💕', 'two hearts', 'love'],
+    ['💖', 'sparkling heart', 'love'],
+    ['💯', 'hundred points', '100 perfect'],
+    ['✨', 'sparkles', 'magic shiny'],
+    ['💥', 'collision', 'boom'],
+    ['💫', 'dizzy', 'star'],
+    ['💬', 'speech balloon', 'comment chat'],
+    ['💤', 'zzz', 'sleep'],
+    ['✅', 'check mark button', 'done yes'],
+    ['✔️', 'check mark', 'done yes'],
+    ['❌', 'cross mark', 'no wrong'],
+    ['❗', 'red exclamation mark', 'important'],
+    ['❓', 'red question mark', 'question'],
+    ['⚠️', 'warning', 'caution'],
+    ['🚫', 'prohibited', 'no forbidden'],
+    ['🆗', 'ok button', 'ok'],
+    ['🆕', 'new button', 'new'],
+    ['🔴', 'red circle', 'red'],
+    ['🟢', 'green circle', 'green'],
+    ['➕', 'plus', 'add'],
+    ['➖', 'minus', 'remove'],
+    ['➡️', 'right arrow', 'next'],
+    ['⬅️', 'left arrow', 'back'],
+    ['🔁', 'repeat button', 'again'],
+    ['🏳️‍🌈', 'rainbow flag', 'pride']
+  ])
+];
+
+export const ALL_EMOJI = EMOJI_CATEGORIES.flatMap(({ emojis }) => emojis);
+
+// Matches names and keywords by word prefix, e.g. "thu" finds thumbs up
+export const searchEmoji = (query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return ALL_EMOJI;
+
+  return ALL_EMOJI.filter(({ name, keywords }) => {
+    const terms = [...name.split(/[\s-]+/), ...keywords];
+    return words.every(word => terms.some(term => term.startsWith(word)));
+  });
+};
+
+// One emoji with its variation selector or skin tone, joined sequences such
+// as 🏳️‍🌈, or a flag
+const SINGLE_EMOJI = /\p{Extended_Pictographic}[\u{FE0F}\p{Emoji_Modifier}]?(?:\u200D\p{Extended_Pictographic}[\u{FE0F}\p{Emoji_Modifier}]?)*|\p{Regional_Indicator}{2}/gu;
+
+// The emoji in a string like "❤️ 👍🏽, 😂", in order; anything else is ignored
+export const splitEmoji = (text: string): string[] => text.match(SINGLE_EMOJI) || [];
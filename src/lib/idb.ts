@@ -0,0 +1,36 @@
+// Minimal promise helpers around IndexedDB, which is only used for data that
+// can be rebuilt from the backend (search index, caches, unsent messages).
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (database: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+  const request = indexedDB.open(name, version);
+  request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+  return requestResult(request);
+};
+
+export const deleteDatabase = (name: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Another tab still has it open; it is removed once that tab lets go
+    request.onblocked = () => resolve();
+  });
@@ -0,0 +1,45 @@
+export interface ProcessedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export const measureImage = async (file: Blob): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return { blob: file, width, height };
+};
+
+// Scales an image down so neither side exceeds `maxDimension` and re-encodes
+// it. Images that are already small enough are returned unchanged.
+export const resizeImage = async (file: Blob, maxDimension: number, quality = 0.85): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1) {
+      return { blob: file, width: bitmap.width, height: bitmap.height };
+    }
+
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d').drawImage(bitmap, 0, 0, width, height);
+
+    // PNG and WebP keep their transparency, everything else becomes JPEG
+    const type = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((result) => {
+        if (result) resolve(result);
+        else reject(new Error('Could not encode image'));
+      }, type, quality);
+    });
+
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,101 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setBackend, createMemoryBackend, type ChatBackend } from '@/lib/backend';
+import { directChat, getMessage, sendMessage } from '@/lib/chat';
+import { readValue, writeValue } from '@/lib/chat/db';
+import { createOutboxSender, loadOutbox, prepareAttempt, saveOutboxEntry, type OutboxEntry } from './outbox';
+
+const chat = directChat('a_b');
+
+const entry = (patch: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  id: 'm1',
+  chat,
+  message: { text: 'hi', senderId: 'a', senderName: 'Ann', type: 'text' },
+  recipientIds: ['b'],
+  createdAt: 100,
+  attempts: 0,
+  nextAttemptAt: 0,
+  status: 'pending',
+  ...patch
+});
+
+// Holds back writes until released, like a backend that hasn't acknowledged them
+const withHeldWrites = (backend: ChatBackend) => {
+  const held: { release: () => void; fail: () => void }[] = [];
+  const update = vi.fn((path: string, patch: object) => new Promise<void>((resolve, reject) => {
+    held.push({
+      release: () => backend.database.update(path, patch).then(resolve, reject),
+      fail: () => reject(new Error('Permission denied'))
+    });
+  }));
+  setBackend({ ...backend, database: { ...backend.database, update } });
+  return { update, held };
+};
+
+describe('outbox sender', () => {
+  let backend: ChatBackend;
+
+  beforeEach(() => {
+    backend = createMemoryBackend({ storage: null, now: () => 500 });
+    setBackend(backend);
+  });
+
+  it('writes a new entry under its id', async () => {
+    await createOutboxSender()(entry(), false);
+    expect((await getMessage(chat, 'm1'))?.text).toBe('hi');
+  });
+
+  it('waits for a write still in flight instead of sending it again', async () => {
+    const { update, held } = withHeldWrites(backend);
+    const send = createOutboxSender();
+
+    const first = send(entry(), false);
+    await vi.waitFor(() => expect(update).toHaveBeenCalledTimes(1));
+    const retried = send(entry({ attempts: 1 }), true);
+
+    held[0].release();
+    await Promise.all([first, retried]);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(await getMessage(chat, 'm1')).not.toBeNull();
+  });
+
+  it('sends again after a rejected write', async () => {
+    const { update, held } = withHeldWrites(backend);
+    const send = createOutboxSender();
+
+    const first = send(entry(), false);
+    await vi.waitFor(() => expect(update).toHaveBeenCalledTimes(1));
+    held[0].fail();
+    await expect(first).rejects.toThrow('Permission denied');
+
+    const retried = send(entry({ attempts: 1 }), true);
+    await vi.waitFor(() => expect(update).toHaveBeenCalledTimes(2));
+    held[1].release();
+    await retried;
+    expect(await getMessage(chat, 'm1')).not.toBeNull();
+  });
+
+  it('keeps receipts on a message that landed before a reload', async () => {
+    await sendMessage(chat, entry().message, ['b'], 'm1');
+    await writeValue('chats/a_b/messages/m1/readBy/b', 400);
+
+    await createOutboxSender()(entry({ attempted: true }), true);
+    expect((await getMessage(chat, 'm1'))?.readBy).toEqual({ b: 400 });
+  });
+
+  it('gives a message that waited a new id once, and keeps it after a reload', async () => {
+    const started = prepareAttempt(entry({ createdAt: 0 }), 60000);
+    expect(started).toMatchObject({ attempted: true });
+    expect(started.id).not.toBe('m1');
+
+    await saveOutboxEntry('a', started);
+    await createOutboxSender()(started, false);
+    // The tab closes before the sent entry is removed from the outbox
+    const [reloaded] = await loadOutbox('a');
+    const resumed = prepareAttempt(reloaded, 120000);
+    await createOutboxSender()(resumed, !!reloaded.attempted);
+
+    expect(resumed.id).toBe(started.id);
+    expect(Object.keys(await readValue('chats/a_b/messages'))).toEqual([started.id]);
+  });
+});
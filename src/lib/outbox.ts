@@ -0,0 +1,125 @@
+import { deleteDatabase, isIndexedDbAvailable, openDatabase, requestResult, transactionDone } from '@/lib/idb';
+import { createMessageId, getMessage, sendMessage, type ChatRef, type Message, type NewMessage } from '@/lib/chat';
+
+const DATABASE_VERSION = 1;
+const ENTRIES = 'entries';
+// A message that waited longer than this before its first attempt gets a new id
+const STALE_ID_AGE = 5000;
+
+export type OutboxStatus = 'pending' | 'failed';
+
+// A message that has been shown to the sender but not confirmed written
+export interface OutboxEntry {
+  // The message's final id
+  id: string;
+  chat: ChatRef;
+  message: NewMessage;
+  recipientIds: string[];
+  createdAt: number;
+  attempts: number;
+  // Saved before the first write, so after a reload it is known that the
+  // message may already be written under `id`
+  attempted?: boolean;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+}
+
+const databaseName = (uid: string) => `chat-outbox-${uid}`;
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+const getDatabase = (uid: string) => {
+  if (!databases.has(uid)) {
+    databases.set(uid, openDatabase(databaseName(uid), DATABASE_VERSION, (database) => {
+      database.createObjectStore(ENTRIES, { keyPath: 'id' });
+    }));
+  }
+  return databases.get(uid);
+};
+
+// Without IndexedDB the outbox still works, it just doesn't survive a reload
+export const loadOutbox = async (uid: string): Promise<OutboxEntry[]> => {
+  if (!isIndexedDbAvailable()) return [];
+
+  const database = await getDatabase(uid);
+  const entries = await requestResult<OutboxEntry[]>(
+    database.transaction(ENTRIES, 'readonly').objectStore(ENTRIES).getAll()
+  );
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveOutboxEntry = async (uid: string, entry: OutboxEntry) => {
+  if (!isIndexedDbAvailable()) return;
+
+  const database = await getDatabase(uid);
+  const transaction = database.transaction(ENTRIES, 'readwrite');
+  transaction.objectStore(ENTRIES).put(entry);
+  await transactionDone(transaction);
+};
+
+export const removeOutboxEntry = async (uid: string, id: string) => {
+  if (!isIndexedDbAvailable()) return;
+
+  const database = await getDatabase(uid);
+  const transaction = database.transaction(ENTRIES, 'readwrite');
+  transaction.objectStore(ENTRIES).delete(id);
+  await transactionDone(transaction);
+};
+
+export const clearOutbox = async (uid: string) => {
+  if (!isIndexedDbAvailable()) return;
+
+  const database = databases.get(uid);
+  databases.delete(uid);
+  (await database)?.close();
+  await deleteDatabase(databaseName(uid));
+};
+
+// How the entry is shown in the conversation until the real message arrives
+export const toOutboxMessage = (entry: OutboxEntry): Message => ({
+  ...entry.message,
+  id: entry.id,
+  senderAvatar: entry.message.senderAvatar || '',
+  timestamp: entry.createdAt
+});
+
+// The entry as it should be before its first write. Ids order the
+// conversation, so a message that was queued for a while (e.g. offline) takes
+// a fresh one instead of landing among messages sent before it got through.
+// Once attempted it keeps its id, as the message may be written under it even
+// if the tab closed before that was confirmed.
+export const prepareAttempt = (entry: OutboxEntry, now = Date.now()): OutboxEntry => {
+  if (entry.attempted) return entry;
+
+  const isStale = now - entry.createdAt > STALE_ID_AGE;
+  return { ...entry, id: isStale ? createMessageId(entry.chat) : entry.id, attempted: true };
+};
+
+// Sends outbox entries, keeping track of this session's writes. Until the
+// backend acknowledges a write, reading the message back returns the local
+// copy, so only that acknowledgement shows it arrived; a read is only trusted
+// when an attempt may have been made before a reload. The returned function
+// resolves once the message is confirmed written.
+export const createOutboxSender = () => {
+  const writes = new Map<string, Promise<string>>();
+
+  const write = (entry: OutboxEntry) => {
+    const pending = sendMessage(entry.chat, entry.message, entry.recipientIds, entry.id);
+    writes.set(entry.id, pending);
+    // A rejected write is sent again on the next attempt
+    pending.catch(() => writes.delete(entry.id));
+    return pending;
+  };
+
+  // `wasAttempted` is whether the entry was attempted before this call
+  return async (entry: OutboxEntry, wasAttempted: boolean) => {
+    const earlier = writes.get(entry.id);
+    if (earlier) {
+      await earlier;
+    } else if (!wasAttempted || !(await getMessage(entry.chat, entry.id))) {
+      // Writing the whole message again over one that landed would drop
+      // receipts added since
+      await write(entry);
+    }
+    writes.delete(entry.id);
+  };
+};
@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import type { ChatRef, Message } from '@/lib/chat';
+import { clearSearchIndex, indexMessages, searchMessages } from './messageIndex';
+import { tokenize } from './tokenize';
+
+const chat: ChatRef = { id: 'a_b', isGroup: false };
+
+const message = (id: string, patch: Partial<Message> = {}): Message => ({
+  id,
+  text: '',
+  senderId: 'a',
+  senderName: 'Ann',
+  timestamp: 100,
+  type: 'text',
+  ...patch
+});
+
+const ids = (documents: { messageId: string }[]) => documents.map(document => document.messageId);
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and splits on punctuation', () => {
+    expect(tokenize('Café-Bar, café!')).toEqual(['cafe', 'bar']);
+  });
+});
+
+describe('message index', () => {
+  afterEach(async () => {
+    await clearSearchIndex('a');
+    await clearSearchIndex('b');
+  });
+
+  it('finds messages with every word, the last one as a prefix, newest first', async () => {
+    await indexMessages('a', chat, [
+      message('m1', { text: 'lunch at the café', timestamp: 1 }),
+      message('m2', { text: 'Lunch tomorrow?', timestamp: 2 }),
+      message('m3', { text: 'dinner at noon', timestamp: 3 })
+    ]);
+
+    expect(ids(await searchMessages('a', 'lunch'))).toEqual(['m2', 'm1']);
+    expect(ids(await searchMessages('a', 'lunch caf'))).toEqual(['m1']);
+    expect(ids(await searchMessages('a', 'at'))).toEqual(['m3', 'm1']);
+    expect(await searchMessages('a', 'breakfast')).toEqual([]);
+  });
+
+  it('matches mentions by name rather than by token', async () => {
+    await indexMessages('a', chat, [message('m1', { text: 'ask <@u2>', mentions: { u2: 'Bob' } })]);
+
+    expect(ids(await searchMessages('a', 'bob'))).toEqual(['m1']);
+    expect(await searchMessages('a', 'u2')).toEqual([]);
+  });
+
+  it('filters by sender, date and attachments, voice notes included', async () => {
+    const voice = { url: '', path: '', contentType: 'audio/webm', size: 1, duration: 2, waveform: [] };
+    const attachment = { kind: 'file', name: 'plan.pdf', url: '', path: '', contentType: 'application/pdf', size: 1 };
+    await indexMessages('a', chat, [
+      message('m1', { text: 'plan', timestamp: 10 }),
+      message('m2', { text: 'plan', senderId: 'b', timestamp: 20, voice }),
+      message('m3', { text: '', timestamp: 30, attachment } as Partial<Message>)
+    ]);
+
+    expect(ids(await searchMessages('a', 'plan', { senderId: 'b' }))).toEqual(['m2']);
+    expect(ids(await searchMessages('a', 'plan', { from: 15, to: 25 }))).toEqual(['m2']);
+    expect(ids(await searchMessages('a', 'plan', { hasAttachment: true }))).toEqual(['m3', 'm2']);
+  });
+
+  it('drops messages once they are deleted for the user', async () => {
+    await indexMessages('a', chat, [message('m1', { text: 'secret' })]);
+    await indexMessages('a', chat, [message('m1', { text: 'secret', deletedFor: ['a'] })]);
+
+    expect(await searchMessages('a', 'secret')).toEqual([]);
+  });
+
+  it('keeps each user to their own index', async () => {
+    await indexMessages('a', chat, [message('m1', { text: 'private' })]);
+
+    expect(await searchMessages('b', 'private')).toEqual([]);
+  });
+});
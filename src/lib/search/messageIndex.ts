@@ -0,0 +1,137 @@
+import { deleteDatabase, isIndexedDbAvailable, openDatabase, requestResult, transactionDone } from '@/lib/idb';
+import { decodeMentions, type ChatRef, type Message } from '@/lib/chat';
+import { tokenize } from './tokenize';
+
+const DATABASE_VERSION = 1;
+const MESSAGES = 'messages';
+const TOKENS = 'tokens';
+const DEFAULT_LIMIT = 100;
+
+export interface SearchDocument {
+  // `${chatId}/${messageId}`
+  key: string;
+  chatId: string;
+  isGroup: boolean;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  timestamp: number;
+  hasAttachment: boolean;
+}
+
+interface StoredDocument extends SearchDocument {
+  tokens: string[];
+}
+
+export interface SearchFilters {
+  senderId?: string;
+  // Inclusive bounds, in milliseconds
+  from?: number;
+  to?: number;
+  hasAttachment?: boolean;
+}
+
+// Each signed-in user gets their own database so accounts sharing a browser
+// never see each other's messages
+const databaseName = (uid: string) => `chat-search-${uid}`;
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+const getDatabase = (uid: string) => {
+  if (!databases.has(uid)) {
+    databases.set(uid, openDatabase(databaseName(uid), DATABASE_VERSION, (database) => {
+      const store = database.createObjectStore(MESSAGES, { keyPath: 'key' });
+      // One index entry per token: the inverted index
+      store.createIndex(TOKENS, 'tokens', { multiEntry: true });
+    }));
+  }
+  return databases.get(uid);
+};
+
+const documentKey = (chatId: string, messageId: string) => `${chatId}/${messageId}`;
+
+const isSearchable = (message: Message, uid: string) =>
+  !message.deletedForEveryone && !message.deletedFor?.includes(uid);
+
+const toDocument = (chat: ChatRef, message: Message): StoredDocument => {
+  const fileName = message.attachment?.kind === 'file' ? message.attachment.name : '';
+  const text = decodeMentions(message.text, message.mentions);
+  return {
+    key: documentKey(chat.id, message.id),
+    chatId: chat.id,
+    isGroup: chat.isGroup,
+    messageId: message.id,
+    senderId: message.senderId,
+    senderName: message.senderName,
+    text: text || fileName,
+    timestamp: message.timestamp,
+    // Voice notes count as attachments too
+    hasAttachment: !!message.attachment || !!message.voice,
+    tokens: tokenize(`${text} ${fileName}`)
+  };
+};
+
+// Adds or refreshes messages in the index; deleted ones are taken out
+export const indexMessages = async (uid: string, chat: ChatRef, messages: Message[]) => {
+  if (!isIndexedDbAvailable() || messages.length === 0) return;
+
+  const database = await getDatabase(uid);
+  const transaction = database.transaction(MESSAGES, 'readwrite');
+  const store = transaction.objectStore(MESSAGES);
+  messages.forEach((message) => {
+    if (isSearchable(message, uid)) {
+      store.put(toDocument(chat, message));
+    } else {
+      store.delete(documentKey(chat.id, message.id));
+    }
+  });
+  await transactionDone(transaction);
+};
+
+// Messages containing every word of `query`; the last word may be partial.
+// Newest first.
+export const searchMessages = async (
+  uid: string,
+  query: string,
+  filters: SearchFilters = {},
+  limit = DEFAULT_LIMIT
+): Promise<SearchDocument[]> => {
+  const terms = tokenize(query);
+  if (!isIndexedDbAvailable() || terms.length === 0) return [];
+
+  const database = await getDatabase(uid);
+  const transaction = database.transaction(MESSAGES, 'readonly');
+  const store = transaction.objectStore(MESSAGES);
+  const tokens = store.index(TOKENS);
+
+  let keys: Set<IDBValidKey> | null = null;
+  for (const [index, term] of terms.entries()) {
+    const range = index === terms.length - 1
+      ? IDBKeyRange.bound(term, `${term}\uffff`)
+      : IDBKeyRange.only(term);
+    const matches = await requestResult(tokens.getAllKeys(range));
+    keys = keys ? new Set(matches.filter(key => keys.has(key))) : new Set(matches);
+    if (keys.size === 0) return [];
+  }
+
+  const documents = await Promise.all([...keys].map(key => requestResult<StoredDocument>(store.get(key))));
+
+  return documents
+    .filter(document => document &&
+      (!filters.senderId || document.senderId === filters.senderId) &&
+      (filters.from === undefined || document.timestamp >= filters.from) &&
+      (filters.to === undefined || document.timestamp <= filters.to) &&
+      (!filters.hasAttachment || document.hasAttachment))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit)
+    .map(({ tokens: _tokens, ...document }) => document);
+};
+
+export const clearSearchIndex = async (uid: string) => {
+  if (!isIndexedDbAvailable()) return;
+
+  const database = databases.get(uid);
+  databases.delete(uid);
+  (await database)?.close();
+  await deleteDatabase(databaseName(uid));
+};
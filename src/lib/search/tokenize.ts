@@ -0,0 +1,15 @@
+// Most tokens a single message contributes to the index
+const MAX_TOKENS = 200;
+
+// Lowercases, strips accents and splits on anything that isn't a letter or
+// digit, so "Café-Bar" is found by "cafe" and by "bar"
+export const tokenize = (text: string): string[] => {
+  const words = (text || '')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  return [...new Set(words)].slice(0, MAX_TOKENS);
+};
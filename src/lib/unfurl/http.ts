@@ -0,0 +1,17 @@
+import type { LinkPreview, UnfurlProvider } from './types';
+
+// Asks an unfurl service, e.g. a small serverless function, since browsers
+// can't read other sites' pages. It is called as `GET {endpoint}?url=...` and
+// answers with a LinkPreview as JSON, or 404 when there is nothing to show.
+export const createHttpUnfurlProvider = (endpoint: string): UnfurlProvider => ({
+  unfurl: async (url) => {
+    const response = await fetch(`${endpoint}?url=${encodeURIComponent(url)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Unfurl failed with status ${response.status}`);
+    }
+
+    const preview = await response.json() as LinkPreview;
+    return preview?.title || preview?.description ? { ...preview, url } : null;
+  }
+});
@@ -0,0 +1,42 @@
+import { createHttpUnfurlProvider } from './http';
+import { createStubUnfurlProvider } from './stub';
+import type { LinkPreview, UnfurlProvider } from './types';
+
+export * from './types';
+export { createHttpUnfurlProvider, createStubUnfurlProvider };
+
+// VITE_UNFURL_ENDPOINT points at the unfurl service; without it previews
+// come from the local stub.
+const createDefaultProvider = (): UnfurlProvider => {
+  const endpoint = import.meta.env.VITE_UNFURL_ENDPOINT;
+  return endpoint ? createHttpUnfurlProvider(endpoint) : createStubUnfurlProvider();
+};
+
+let activeProvider: UnfurlProvider | null = null;
+// Shared by every bubble showing the same link, for as long as the page is open
+const previews = new Map<string, Promise<LinkPreview | null>>();
+
+export const getUnfurlProvider = (): UnfurlProvider => {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+};
+
+export const setUnfurlProvider = (provider: UnfurlProvider) => {
+  activeProvider = provider;
+  previews.clear();
+};
+
+// Failures resolve to null and aren't remembered, so the link is tried again
+// the next time it is shown
+export const getLinkPreview = (url: string): Promise<LinkPreview | null> => {
+  if (!previews.has(url)) {
+    previews.set(url, getUnfurlProvider().unfurl(url).catch((error) => {
+      console.error('Error loading link preview:', error);
+      previews.delete(url);
+      return null;
+    }));
+  }
+  return previews.get(url);
+};
@@ -0,0 +1,22 @@
+import type { LinkPreview, UnfurlProvider } from './types';
+
+// Local provider for development and tests: never touches the network.
+// Seeded URLs get their preview; any other link gets a plain card with its
+// site and path.
+export const createStubUnfurlProvider = (previews: Record<string, LinkPreview> = {}): UnfurlProvider => ({
+  unfurl: async (url) => {
+    if (previews[url]) return previews[url];
+
+    try {
+      const { hostname, pathname } = new URL(url);
+      return {
+        url,
+        title: hostname.replace(/^www\./, ''),
+        description: pathname === '/' ? undefined : decodeURIComponent(pathname),
+        siteName: hostname
+      };
+    } catch {
+      return null;
+    }
+  }
+});
@@ -0,0 +1,13 @@
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+}
+
+// Looks up the title, description and image shown for a link. Resolves to
+// null when the page has nothing worth showing.
+export interface UnfurlProvider {
+  unfurl: (url: string) => Promise<LinkPreview | null>;
+}
@@ -1,5 +1,12 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { initBackend } from './lib/backend'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+initBackend()
+  .then(() => {
+    createRoot(document.getElementById("root")!).render(<App />);
+  })
+  .catch((error) => {
+    console.error('Error starting the chat backend:', error);
+  });
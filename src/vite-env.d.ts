@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CHAT_BACKEND?: 'firebase' | 'memory';
+  // Link preview service; previews are stubbed locally when unset
+  readonly VITE_UNFURL_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}